@@ -116,7 +116,7 @@ export function AdminPanel({ isOpen, onClose }: AdminPanelProps) {
                 type="text"
                 value={newKey}
                 onChange={(e) => setNewKey(e.target.value)}
-                placeholder="AIzaSy... or vertex:PROJECT_ID:LOCATION:API_KEY"
+                placeholder="AIzaSy..., vertex:PROJECT_ID:LOCATION:API_KEY, or vertex-sa:PROJECT_ID:LOCATION"
                 className="w-full px-3 py-2 bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded-lg text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)] focus:border-transparent"
               />
               {sharedKey && (
@@ -4,21 +4,96 @@ import NextImage from "next/image";
 import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import { debugLog } from "./create-page/logger";
-import { generateSeedream } from "../lib/generate-seedream";
-import { calculateImageSize, getModelDefinition, MODEL_DEFINITIONS, type AspectKey, type ModelId, type QualityKey, type Provider, type OutputFormat } from "../lib/seedream-options";
+import {
+  followQueuedGeneration,
+  generateSeedream,
+  getOutputsPerRequest,
+  type GenerateSeedreamArgs,
+  type GenerationProgress,
+  type GenerationSlotUpdate,
+  type SeedreamGeneration,
+} from "../lib/generate-seedream";
+import { followServerJob, generateOnServer } from "../lib/jobs/client";
+import { estimateBatchCost } from "../lib/batch-api";
+import { orderKeysByHealth } from "../lib/gemini-key-pool";
+import { calculateImageSize, getModelDefinition, getModelProviders, getQualityForSize, isValidCustomSize, modelSupportsProvider, DEFAULT_CUSTOM_SIZE, MODEL_DEFINITIONS, OUTPUT_FORMAT_OPTIONS, type AspectChoice, type AspectKey, type CustomSizePreset, type ImageSize, type ModelId, type QualityKey, type Provider, type OutputFormat } from "../lib/seedream-options";
+import { getProviderAdapter } from "../lib/providers/registry";
+import type { ProviderSettings } from "../lib/providers/types";
+import { normalizeGenerationParams, type GenerationParams } from "../lib/generation-params";
+import {
+  convertGenerationImages,
+  normalizeOutputEncoding,
+  DEFAULT_OUTPUT_ENCODING,
+  type ImageFileInfo,
+  type OutputEncoding,
+} from "../lib/image-conversion";
+import { recipeFromGeneration, type GenerationRecipe } from "../lib/image-metadata";
+import { getImagePriceCents } from "../lib/pricing";
+import { exportBackup, importBackup, type BackupProgress } from "./create-page/backup";
+import {
+  DEFAULT_STORAGE_POLICY,
+  downscaleGeneration,
+  hasStoragePolicyRules,
+  measureGalleryUsage,
+  normalizeStoragePolicy,
+  planDownscale,
+  planEviction,
+  type StoragePolicy,
+  type StoragePolicyResult,
+} from "./create-page/storage-policy";
 import { EmptyState } from "./create-page/empty-state";
 import { GenerationGroup } from "./create-page/generation-list";
 import { GalleryView } from "./create-page/gallery-view";
 import { Header } from "./create-page/header";
 import { Lightbox } from "./create-page/lightbox";
+import type { MarkupExport } from "./create-page/markup-canvas";
+import { buildOutpaintPrompt, padImageToAspect, type OutpaintAnchor } from "./create-page/outpaint";
+import { expandPromptLines, expandPromptMatrix, type PromptMatrix } from "./create-page/prompt-matrix";
 import { AttachmentLightbox } from "./create-page/attachment-lightbox";
-import { createId, groupByDate, normalizeImages } from "./create-page/utils";
-import type { GalleryEntry, Generation, PromptAttachment } from "./create-page/types";
+import {
+  applySlotUpdate,
+  buildSessionHistory,
+  createId,
+  formatCents,
+  groupByDate,
+  nextSessionTurn,
+  normalizeImages,
+  sessionHistoryFor,
+  settleCancelledSlots,
+  settleInterruptedSlots,
+  splitBatchPrompts,
+} from "./create-page/utils";
+import type {
+  EditSessionTarget,
+  GalleryEntry,
+  Generation,
+  GenerationMatrix,
+  GenerationOrigin,
+  PendingProgress,
+  PromptAttachment,
+} from "./create-page/types";
 import { clearPending, loadPending, restoreGenerations, persistGenerations, savePending, deleteGenerationData, cleanOrphanedImages, persistFavorites, restoreFavorites } from "./create-page/storage";
-import { generateSmartFilename } from "./create-page/utils";
+import { downloadImage } from "./create-page/download-image";
 import { KeyboardShortcutsPanel } from "./create-page/keyboard-shortcuts-panel";
 import { UserMenu } from "./auth/user-menu";
 import { useCloudSync } from "./create-page/use-cloud-sync";
+import { useBatchJobs } from "./create-page/use-batch-jobs";
+import { BatchQueue } from "./create-page/batch-queue";
+import { BudgetWidget } from "./create-page/budget-widget";
+import {
+  createLedger,
+  ledgerTotals,
+  mergeLedgers,
+  normalizeBudget,
+  normalizeLedger,
+  recordGeneration,
+  recordSlotRetry,
+  type Budget,
+  type CostLedger,
+} from "./create-page/cost-ledger";
+import { useGenerationQueue } from "./create-page/use-generation-queue";
+import { useTokenEstimate } from "./create-page/use-token-estimate";
+import { QueuePanel } from "./create-page/queue-panel";
 import { PromptsView } from "./prompts/prompts-view";
 import { PromptEditor } from "./prompts/prompt-editor";
 import { CategoryManager } from "./prompts/category-manager";
@@ -35,18 +110,42 @@ const defaultOutputFormat: OutputFormat = "png";
 const STORAGE_KEYS = {
   prompt: "seedream:prompt",
   aspect: "seedream:aspect",
+  customSize: "seedream:custom_size",
+  customSizePresets: "seedream:custom_size_presets",
   quality: "seedream:quality",
   provider: "seedream:provider",
   outputFormat: "seedream:output_format",
   imageCount: "seedream:image_count",
   apiKey: "seedream:api_key",
+  // Legacy single-total budget keys, migrated into `budget` and `costLedger` on load.
   budgetCents: "seedream:budget_cents",
   spentCents: "seedream:spent_cents",
+  budget: "seedream:budget",
+  costLedger: "seedream:cost_ledger",
   geminiApiKey: "seedream:gemini_api_key",
   model: "seedream:model",
   googleSearch: "seedream:google_search",
+  providerSettings: "seedream:provider_settings",
+  batchMode: "seedream:batch_mode",
+  serverJobs: "seedream:server_jobs",
+  editSession: "seedream:edit_session",
+  generationParams: "seedream:generation_params",
+  outputEncoding: "seedream:output_encoding",
+  storagePolicy: "seedream:storage_policy",
 } as const;
 
+// Left out of backups unless the user opts in; provider settings carry the OpenAI-compatible API key.
+const CREDENTIAL_STORAGE_KEYS: readonly string[] = [
+  STORAGE_KEYS.apiKey,
+  STORAGE_KEYS.geminiApiKey,
+  STORAGE_KEYS.providerSettings,
+];
+
+// A slot has at most one retry in flight, so its queue item and abort controller share this id.
+function slotRetryId(generationId: string, slot: number): string {
+  return `retry:${generationId}:${slot}`;
+}
+
 const MAX_ATTACHMENTS = 8;
 const ATTACHMENT_LIMIT_MESSAGE = `Maximum of ${MAX_ATTACHMENTS} images allowed.`;
 const ATTACHMENT_TYPE_MESSAGE = "Only image files can be used for editing.";
@@ -75,6 +174,23 @@ function isAspectKey(value: string | null): value is AspectKey {
   return typeof value === "string" && (ASPECT_VALUES as string[]).includes(value);
 }
 
+function isAspectChoice(value: string | null): value is AspectChoice {
+  return value === "custom" || isAspectKey(value);
+}
+
+function parseCustomSize(value: unknown): ImageSize | null {
+  const candidate = value as Partial<ImageSize> | null;
+  if (typeof candidate?.width !== "number" || typeof candidate.height !== "number") {
+    return null;
+  }
+  const size = { width: candidate.width, height: candidate.height };
+  return isValidCustomSize(size) ? size : null;
+}
+
+function isOutputFormat(value: string | null): value is OutputFormat {
+  return OUTPUT_FORMAT_OPTIONS.some((option) => option.value === value);
+}
+
 function isQualityKey(value: string | null): value is QualityKey {
   return typeof value === "string" && (QUALITY_VALUES as string[]).includes(value);
 }
@@ -185,19 +301,37 @@ export function CreatePage() {
   const { user } = useAuth();
   const [view, setView] = useState<"create" | "gallery" | "prompts">("create");
   const [prompt, setPrompt] = useState(defaultPrompt);
-  const [aspect, setAspect] = useState<AspectKey>(defaultAspect);
+  const [aspect, setAspect] = useState<AspectChoice>(defaultAspect);
+  const [customSize, setCustomSize] = useState<ImageSize>(DEFAULT_CUSTOM_SIZE);
+  const [customSizePresets, setCustomSizePresets] = useState<CustomSizePreset[]>([]);
   const [quality, setQuality] = useState<QualityKey>(defaultQuality);
   const [outputFormat, setOutputFormat] = useState<OutputFormat>(defaultOutputFormat);
   const [provider, setProvider] = useState<Provider>("gemini");
   const [model, setModel] = useState<ModelId>("gemini-3-pro-image-preview");
   const [googleSearch, setGoogleSearch] = useState(false);
+  const [batchMode, setBatchMode] = useState(false);
+  const [serverJobs, setServerJobs] = useState(false);
+  const [editSession, setEditSession] = useState<EditSessionTarget | null>(null);
   const [imageCount, setImageCount] = useState<number>(4);
   const [apiKey, setApiKey] = useState("");
   const [geminiApiKeys, setGeminiApiKeys] = useState<string[]>([]);
+  const [providerSettings, setProviderSettings] = useState<Record<string, ProviderSettings>>({});
+  const [generationParams, setGenerationParams] = useState<GenerationParams>({});
+  const [outputEncoding, setOutputEncoding] = useState<OutputEncoding>(DEFAULT_OUTPUT_ENCODING);
+  const [storagePolicy, setStoragePolicy] = useState<StoragePolicy>(DEFAULT_STORAGE_POLICY);
+  const [budget, setBudget] = useState<Budget | null>(null);
+  const [costLedger, setCostLedger] = useState<CostLedger>(() => createLedger());
+  // Spend is recorded where this device's runs finish; imported and synced generations were paid for elsewhere.
+  const chargeGeneration = useCallback((generation: Generation) => {
+    setCostLedger((previous) => recordGeneration(previous, generation));
+  }, []);
   const [attachments, setAttachments] = useState<PromptAttachment[]>([]);
   const [attachmentPreview, setAttachmentPreview] = useState<PromptAttachment | null>(null);
   const [generations, setGenerations] = useState<Generation[]>([]);
   const [pendingGenerations, setPendingGenerations] = useState<Generation[]>([]);
+  const [pendingProgress, setPendingProgress] = useState<Record<string, PendingProgress>>({});
+  const [runsToResume, setRunsToResume] = useState<Generation[]>([]);
+  const [queuedToResume, setQueuedToResume] = useState<Generation[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -209,6 +343,8 @@ export function CreatePage() {
   const pendingHydratedRef = useRef(false);
   const pendingReconciledRef = useRef(false);
   const cleanupRanRef = useRef(false);
+  const storagePolicyRanRef = useRef(false);
+  const abortControllersRef = useRef(new Map<string, AbortController>());
 
   const clearAttachmentError = useCallback(() => {
     setError((previous) => (previous && ATTACHMENT_ERROR_MESSAGES.has(previous) ? null : previous));
@@ -216,6 +352,37 @@ export function CreatePage() {
 
   const isAttachmentLimitReached = attachments.length >= MAX_ATTACHMENTS;
 
+  const { batchJobs, submitBatch, dismissBatchJob, refreshBatchJobs } = useBatchJobs({
+    geminiApiKeys,
+    onGenerationsReady: useCallback(
+      (batchGenerations: Generation[]) => {
+        void Promise.all(batchGenerations.map((generation) => convertGenerationImages(generation, outputEncoding))).then(
+          (converted) => {
+            converted.forEach(chargeGeneration);
+            setGenerations((previous) => {
+              const existingIds = new Set(previous.map((generation) => generation.id));
+              const incoming = converted.filter((generation) => !existingIds.has(generation.id));
+              return incoming.length > 0 ? [...incoming, ...previous] : previous;
+            });
+          },
+        );
+      },
+      [outputEncoding, chargeGeneration],
+    ),
+  });
+
+  const queueKeyCounts = useMemo(() => ({ gemini: geminiApiKeys.length }), [geminiApiKeys.length]);
+  const {
+    queue: generationQueue,
+    isHydrated: isQueueHydrated,
+    enqueue,
+    setPaused: setQueuePaused,
+    moveItem: moveQueueItem,
+    clearFinished: clearFinishedQueueItems,
+    setLimits: setQueueLimits,
+    forgetItems: forgetQueueItems,
+  } = useGenerationQueue({ keyCounts: queueKeyCounts });
+
   // Cloud sync - syncs generations and favorites to VPS when user is authenticated
   const { deleteFromCloud, isCloudEnabled, syncImages, setSyncImages } = useCloudSync({
     generations,
@@ -243,6 +410,12 @@ export function CreatePage() {
     onFavoritesLoaded: useCallback((cloudFavorites: Set<string>) => {
       setFavorites((local) => new Set([...local, ...cloudFavorites]));
     }, []),
+    budget,
+    costLedger,
+    onBudgetLoaded: setBudget,
+    onLedgerLoaded: useCallback((cloudLedger: CostLedger) => {
+      setCostLedger((local) => mergeLedgers(local, cloudLedger));
+    }, []),
   });
 
   useEffect(() => {
@@ -260,17 +433,37 @@ export function CreatePage() {
         }
 
         const storedAspect = window.localStorage.getItem(STORAGE_KEYS.aspect);
-        if (isAspectKey(storedAspect)) {
+        if (isAspectChoice(storedAspect)) {
           setAspect(storedAspect);
         }
 
+        const rawCustomSize = window.localStorage.getItem(STORAGE_KEYS.customSize);
+        const rawCustomSizePresets = window.localStorage.getItem(STORAGE_KEYS.customSizePresets);
+        try {
+          const storedCustomSize = rawCustomSize !== null ? parseCustomSize(JSON.parse(rawCustomSize)) : null;
+          if (storedCustomSize) {
+            setCustomSize(storedCustomSize);
+          }
+          const storedPresets: unknown = rawCustomSizePresets !== null ? JSON.parse(rawCustomSizePresets) : null;
+          if (Array.isArray(storedPresets)) {
+            setCustomSizePresets(
+              storedPresets.flatMap((preset: Partial<CustomSizePreset>) => {
+                const size = parseCustomSize(preset);
+                return size && typeof preset.id === "string" ? [{ id: preset.id, ...size }] : [];
+              }),
+            );
+          }
+        } catch {
+          // Malformed sizes fall back to the default custom size and no presets.
+        }
+
         const storedQuality = window.localStorage.getItem(STORAGE_KEYS.quality);
         if (isQualityKey(storedQuality)) {
           setQuality(storedQuality);
         }
 
         const storedProvider = window.localStorage.getItem(STORAGE_KEYS.provider);
-        if (storedProvider === "fal" || storedProvider === "gemini") {
+        if (storedProvider && getProviderAdapter(storedProvider)) {
           setProvider(storedProvider);
         }
 
@@ -284,8 +477,18 @@ export function CreatePage() {
           setGoogleSearch(true);
         }
 
+        const storedBatchMode = window.localStorage.getItem(STORAGE_KEYS.batchMode);
+        if (storedBatchMode === "true") {
+          setBatchMode(true);
+        }
+
+        const storedServerJobs = window.localStorage.getItem(STORAGE_KEYS.serverJobs);
+        if (storedServerJobs === "true") {
+          setServerJobs(true);
+        }
+
         const storedOutputFormat = window.localStorage.getItem(STORAGE_KEYS.outputFormat);
-        if (storedOutputFormat === "png" || storedOutputFormat === "jpeg" || storedOutputFormat === "webp") {
+        if (isOutputFormat(storedOutputFormat)) {
           setOutputFormat(storedOutputFormat);
         }
 
@@ -320,6 +523,85 @@ export function CreatePage() {
           }
         }
 
+        const rawEditSession = window.localStorage.getItem(STORAGE_KEYS.editSession);
+        if (rawEditSession !== null) {
+          try {
+            const parsed = JSON.parse(rawEditSession) as Partial<EditSessionTarget>;
+            if (typeof parsed?.generationId === "string" && typeof parsed.imageIndex === "number") {
+              setEditSession({ generationId: parsed.generationId, imageIndex: parsed.imageIndex });
+            }
+          } catch {
+            // A malformed pointer just means no session is active.
+          }
+        }
+
+        const rawProviderSettings = window.localStorage.getItem(STORAGE_KEYS.providerSettings);
+        if (rawProviderSettings !== null) {
+          try {
+            const parsed = JSON.parse(rawProviderSettings);
+            if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+              setProviderSettings(parsed as Record<string, ProviderSettings>);
+            }
+          } catch {
+            // Ignore malformed settings; the user can re-enter them.
+          }
+        }
+
+        const rawBudget = window.localStorage.getItem(STORAGE_KEYS.budget);
+        const legacyBudgetCents = Number.parseInt(window.localStorage.getItem(STORAGE_KEYS.budgetCents) ?? "", 10);
+        if (rawBudget !== null) {
+          try {
+            setBudget(normalizeBudget(JSON.parse(rawBudget)));
+          } catch {
+            // A malformed budget reads as no budget.
+          }
+        } else if (Number.isFinite(legacyBudgetCents)) {
+          setBudget({ limitCents: legacyBudgetCents, period: "total", enforcement: "block" });
+        }
+
+        const rawCostLedger = window.localStorage.getItem(STORAGE_KEYS.costLedger);
+        const legacySpentCents = Number.parseFloat(window.localStorage.getItem(STORAGE_KEYS.spentCents) ?? "");
+        let storedLedger: CostLedger | null = null;
+        if (rawCostLedger !== null) {
+          try {
+            storedLedger = normalizeLedger(JSON.parse(rawCostLedger));
+          } catch {
+            // Start a fresh ledger rather than fail the whole restore.
+          }
+        }
+        if (storedLedger) {
+          setCostLedger(storedLedger);
+        } else if (Number.isFinite(legacySpentCents) && legacySpentCents > 0) {
+          setCostLedger(createLedger(new Date(), legacySpentCents));
+        }
+
+        const rawGenerationParams = window.localStorage.getItem(STORAGE_KEYS.generationParams);
+        if (rawGenerationParams !== null) {
+          try {
+            setGenerationParams(normalizeGenerationParams(JSON.parse(rawGenerationParams)) ?? {});
+          } catch {
+            // Malformed parameters fall back to the provider defaults.
+          }
+        }
+
+        const rawOutputEncoding = window.localStorage.getItem(STORAGE_KEYS.outputEncoding);
+        if (rawOutputEncoding !== null) {
+          try {
+            setOutputEncoding(normalizeOutputEncoding(JSON.parse(rawOutputEncoding)));
+          } catch {
+            // Malformed settings fall back to the default encoding.
+          }
+        }
+
+        const rawStoragePolicy = window.localStorage.getItem(STORAGE_KEYS.storagePolicy);
+        if (rawStoragePolicy !== null) {
+          try {
+            setStoragePolicy(normalizeStoragePolicy(JSON.parse(rawStoragePolicy)));
+          } catch {
+            // A malformed policy means no automatic cleanup.
+          }
+        }
+
         let generationData: Generation[] | null = null;
         let pendingData: Generation[] | null = null;
         let favoritesData: Set<string> = new Set();
@@ -348,10 +630,12 @@ export function CreatePage() {
         if (!cancelled) {
           if (generationData) {
             setGenerations(
-              generationData.map((generation) => ({
-                ...generation,
-                outputFormat: generation.outputFormat ?? defaultOutputFormat,
-              })),
+              generationData.map((generation) =>
+                settleInterruptedSlots({
+                  ...generation,
+                  outputFormat: generation.outputFormat ?? defaultOutputFormat,
+                }),
+              ),
             );
           }
           if (pendingData) {
@@ -385,7 +669,12 @@ export function CreatePage() {
   }, []);
 
   useEffect(() => {
-    if (!storageHydratedRef.current || pendingReconciledRef.current || !pendingHydratedRef.current) {
+    if (
+      !storageHydratedRef.current ||
+      pendingReconciledRef.current ||
+      !pendingHydratedRef.current ||
+      !isQueueHydrated
+    ) {
       return;
     }
 
@@ -395,34 +684,77 @@ export function CreatePage() {
       return;
     }
 
-    const noKeys = apiKey.trim().length === 0 && geminiApiKeys.length === 0;
+    // Server jobs and queued FAL calls kept running while the tab was closed; reconnect to them instead of marking them interrupted.
+    const isDetached = (gen: Generation) => Boolean(gen.serverJobId || gen.queuedCalls?.length);
+    const resumable = pendingGenerations.filter(isDetached);
+    // Runs that never left the queue have nothing to recover; they just wait for their turn again.
+    const waitingIds = new Set(
+      generationQueue.items.filter((item) => item.status === "waiting").map((item) => item.id),
+    );
+    const queued = pendingGenerations.filter((gen) => !isDetached(gen) && waitingIds.has(gen.id));
+    const stale = pendingGenerations.filter((gen) => !isDetached(gen) && !waitingIds.has(gen.id));
+    if (resumable.length > 0) {
+      debugLog("pending:resume-detached", {
+        count: resumable.length,
+        jobIds: resumable.map((gen) => gen.serverJobId),
+        requestIds: resumable.flatMap((gen) => gen.queuedCalls?.map((call) => call.request.requestId) ?? []),
+      });
+      setRunsToResume(resumable);
+    }
+
+    const noKeys =
+      apiKey.trim().length === 0 &&
+      geminiApiKeys.length === 0 &&
+      !Object.values(providerSettings).some((settings) => (settings.apiKey ?? "").trim().length > 0);
     if (noKeys) {
       debugLog("pending:cleared-no-keys", {
-        count: pendingGenerations.length,
+        count: stale.length + queued.length,
       });
-      setPendingGenerations([]);
-      void clearPending();
+      setPendingGenerations(resumable);
+      if (resumable.length === 0) {
+        void clearPending();
+      }
       pendingReconciledRef.current = true;
       pendingHydratedRef.current = false;
       return;
     }
 
     debugLog("pending:recovered-stale", {
-      count: pendingGenerations.length,
-      ids: pendingGenerations.map((gen) => gen.id),
+      count: stale.length,
+      ids: stale.map((gen) => gen.id),
     });
+    if (queued.length > 0) {
+      setQueuedToResume(queued);
+    }
 
     setGenerations((previous) => {
       const existingIds = new Set(previous.map((gen) => gen.id));
-      const reconciled = pendingGenerations.map((gen) =>
-        existingIds.has(gen.id) ? { ...gen, id: createId("generation") } : gen,
+      const reconciled = stale.map((gen) =>
+        settleInterruptedSlots(existingIds.has(gen.id) ? { ...gen, id: createId("generation") } : gen),
       );
       return [...reconciled, ...previous];
     });
-    setPendingGenerations([]);
+    setPendingGenerations(pendingGenerations.filter((gen) => isDetached(gen) || waitingIds.has(gen.id)));
     pendingReconciledRef.current = true;
     pendingHydratedRef.current = false;
-  }, [pendingGenerations, apiKey, geminiApiKeys]);
+  }, [pendingGenerations, apiKey, geminiApiKeys, providerSettings, isQueueHydrated, generationQueue.items]);
+
+  // A waiting item whose pending generation is gone (deleted, or dropped on restore) can never start.
+  // Slot retries have no pending card; they are live for as long as their abort controller is registered.
+  useEffect(() => {
+    if (!isQueueHydrated || !pendingReconciledRef.current) {
+      return;
+    }
+    const pendingIds = new Set(pendingGenerations.map((gen) => gen.id));
+    const orphaned = generationQueue.items
+      .filter(
+        (item) => item.status === "waiting" && !pendingIds.has(item.id) && !abortControllersRef.current.has(item.id),
+      )
+      .map((item) => item.id);
+    if (orphaned.length > 0) {
+      forgetQueueItems(orphaned);
+    }
+  }, [isQueueHydrated, generationQueue.items, pendingGenerations, forgetQueueItems]);
 
   const activeFeed = useMemo(
     () => [...pendingGenerations, ...generations],
@@ -447,11 +779,19 @@ export function CreatePage() {
     }
 
     safePersist(STORAGE_KEYS.aspect, aspect);
+    safePersist(STORAGE_KEYS.customSize, JSON.stringify(customSize));
+    safePersist(
+      STORAGE_KEYS.customSizePresets,
+      customSizePresets.length > 0 ? JSON.stringify(customSizePresets) : null,
+    );
     safePersist(STORAGE_KEYS.quality, quality);
     safePersist(STORAGE_KEYS.outputFormat, outputFormat);
     safePersist(STORAGE_KEYS.provider, provider);
     safePersist(STORAGE_KEYS.model, model);
     safePersist(STORAGE_KEYS.googleSearch, googleSearch ? "true" : "false");
+    safePersist(STORAGE_KEYS.batchMode, batchMode ? "true" : "false");
+    safePersist(STORAGE_KEYS.serverJobs, serverJobs ? "true" : "false");
+    safePersist(STORAGE_KEYS.editSession, editSession ? JSON.stringify(editSession) : null);
     safePersist(STORAGE_KEYS.imageCount, String(imageCount));
 
     const normalizedApiKey = apiKey.trim();
@@ -459,24 +799,49 @@ export function CreatePage() {
 
     safePersist(STORAGE_KEYS.geminiApiKey, geminiApiKeys.length > 0 ? JSON.stringify(geminiApiKeys) : null);
 
+    safePersist(
+      STORAGE_KEYS.providerSettings,
+      Object.keys(providerSettings).length > 0 ? JSON.stringify(providerSettings) : null,
+    );
+
+    const storedParams = normalizeGenerationParams(generationParams);
+    safePersist(STORAGE_KEYS.generationParams, storedParams ? JSON.stringify(storedParams) : null);
+    safePersist(STORAGE_KEYS.outputEncoding, JSON.stringify(outputEncoding));
+    safePersist(STORAGE_KEYS.storagePolicy, JSON.stringify(storagePolicy));
+
+    safePersist(STORAGE_KEYS.budget, budget ? JSON.stringify(budget) : null);
+    safePersist(STORAGE_KEYS.costLedger, JSON.stringify(costLedger));
+    safePersist(STORAGE_KEYS.budgetCents, null);
+    safePersist(STORAGE_KEYS.spentCents, null);
   }, [
     aspect,
+    customSize,
+    customSizePresets,
     quality,
     outputFormat,
     provider,
     model,
     googleSearch,
+    batchMode,
+    serverJobs,
+    editSession,
     imageCount,
     apiKey,
     geminiApiKeys,
+    providerSettings,
+    generationParams,
+    outputEncoding,
+    storagePolicy,
+    budget,
+    costLedger,
   ]);
 
   // Enforce model constraints when model changes
   useEffect(() => {
     const def = getModelDefinition(model);
     if (!def) return;
-    if (!def.supportsFal && provider === "fal") {
-      setProvider("gemini");
+    if (!modelSupportsProvider(model, provider)) {
+      setProvider(getModelProviders(model)[0] ?? "gemini");
     }
     if (!def.supportsGoogleSearch && googleSearch) {
       setGoogleSearch(false);
@@ -527,15 +892,155 @@ export function CreatePage() {
     (value: string) => {
       if (isAspectKey(value)) {
         setAspect(value);
+      } else if (value === "custom") {
+        setAspect(value);
+        setQuality(getQualityForSize(customSize));
+      }
+    },
+    [customSize],
+  );
+
+  // In custom mode quality and size move together: the size sets the quality, and a new quality rescales the size.
+  const handleCustomSizeChange = useCallback((size: ImageSize) => {
+    setCustomSize(size);
+    setQuality(getQualityForSize(size));
+  }, []);
+
+  const handleQualityChange = useCallback(
+    (value: QualityKey) => {
+      setQuality(value);
+      if (aspect !== "custom") {
+        return;
+      }
+      const rescaled = calculateImageSize("custom", value, customSize);
+      if (isValidCustomSize(rescaled)) {
+        setCustomSize(rescaled);
       }
     },
+    [aspect, customSize],
+  );
+
+  const handleSaveCustomSizePreset = useCallback((size: ImageSize) => {
+    setCustomSizePresets((previous) =>
+      previous.some((preset) => preset.width === size.width && preset.height === size.height)
+        ? previous
+        : [...previous, { id: createId("size"), ...size }],
+    );
+  }, []);
+
+  const handleDeleteCustomSizePreset = useCallback((presetId: string) => {
+    setCustomSizePresets((previous) => previous.filter((preset) => preset.id !== presetId));
+  }, []);
+
+  // Settings that no longer exist (a retired model, say) keep their current value.
+  const handleRestoreRecipe = useCallback((recipe: GenerationRecipe) => {
+    setPrompt(recipe.prompt);
+    if (getProviderAdapter(recipe.provider)) {
+      setProvider(recipe.provider);
+    }
+    if (recipe.model && getModelDefinition(recipe.model)) {
+      setModel(recipe.model);
+    }
+    if (isAspectChoice(recipe.aspect)) {
+      setAspect(recipe.aspect);
+    }
+    const size = recipe.aspect === "custom" ? parseCustomSize(recipe.size) : null;
+    if (size) {
+      setCustomSize(size);
+    }
+    if (isQualityKey(recipe.quality)) {
+      setQuality(recipe.quality);
+    }
+    if (isOutputFormat(recipe.outputFormat)) {
+      setOutputFormat(recipe.outputFormat);
+    }
+    setGenerationParams(recipe.params ?? {});
+    setError(null);
+  }, [setError]);
+
+  const handleExportBackup = useCallback(
+    (includeCredentials: boolean, onProgress: (progress: BackupProgress) => void) =>
+      exportBackup(
+        Object.values(STORAGE_KEYS).filter((key) => includeCredentials || !CREDENTIAL_STORAGE_KEYS.includes(key)),
+        onProgress,
+      ),
     [],
   );
 
+  // Imported generations join app state, so the usual persistence saves the merged gallery.
+  const handleImportBackup = useCallback(
+    async (file: File, onProgress: (progress: BackupProgress) => void) => {
+      const result = await importBackup(file, {
+        settingsKeys: Object.values(STORAGE_KEYS),
+        existing: [...generations, ...pendingGenerations],
+        favorites,
+        onProgress,
+      });
+      if (result.generations.length > 0) {
+        const imported = result.generations.map((generation) =>
+          settleInterruptedSlots({ ...generation, outputFormat: generation.outputFormat ?? defaultOutputFormat }),
+        );
+        setGenerations((previous) => {
+          const existingIds = new Set(previous.map((generation) => generation.id));
+          return [...previous, ...imported.filter((generation) => !existingIds.has(generation.id))].sort(
+            (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+          );
+        });
+      }
+      if (result.favorites.length > 0) {
+        setFavorites((previous) => new Set([...previous, ...result.favorites]));
+      }
+      return result.report;
+    },
+    [generations, pendingGenerations, favorites],
+  );
+
+  // Evicted generations are removed from this browser only; a cloud copy stays where it is.
+  const applyStoragePolicy = useCallback(async (): Promise<StoragePolicyResult> => {
+    const evictedIds = new Set(planEviction(generations, await measureGalleryUsage(), favorites, storagePolicy));
+    for (const generation of generations) {
+      if (evictedIds.has(generation.id)) {
+        await deleteGenerationData(generation.id, generation);
+      }
+    }
+
+    const downscaled = new Map<string, Generation>();
+    const targets = planDownscale(
+      generations.filter((generation) => !evictedIds.has(generation.id)),
+      favorites,
+      storagePolicy,
+    );
+    for (const generation of targets) {
+      downscaled.set(generation.id, await downscaleGeneration(generation, outputEncoding));
+    }
+
+    if (evictedIds.size > 0 || downscaled.size > 0) {
+      setGenerations((previous) =>
+        previous
+          .filter((generation) => !evictedIds.has(generation.id))
+          .map((generation) => downscaled.get(generation.id) ?? generation),
+      );
+      setLightboxSelection((selection) =>
+        selection && evictedIds.has(selection.generationId) ? null : selection,
+      );
+    }
+    return { evicted: evictedIds.size, downscaled: downscaled.size };
+  }, [generations, favorites, storagePolicy, outputEncoding]);
+
   const groupedGenerations = useMemo(() => groupByDate(displayFeed), [displayFeed]);
   const pendingIdSet = useMemo(() => new Set(pendingGenerations.map((generation) => generation.id)), [pendingGenerations]);
+  const queuedIdSet = useMemo(
+    () => new Set(generationQueue.items.filter((item) => item.status === "waiting").map((item) => item.id)),
+    [generationQueue.items],
+  );
   const errorGenerationId = error && displayFeed.length > 0 ? displayFeed[0].id : null;
 
+  // A target that was deleted (or never finished) just means no session is active.
+  const activeEditSession = useMemo(() => {
+    const parent = editSession ? generations.find((generation) => generation.id === editSession.generationId) : null;
+    return editSession && parent?.images[editSession.imageIndex] ? { target: editSession, parent } : null;
+  }, [editSession, generations]);
+
   const galleryEntries = useMemo<GalleryEntry[]>(() => {
     const entries: GalleryEntry[] = [];
 
@@ -555,8 +1060,11 @@ export function CreatePage() {
           provider: generation.provider,
           model: generation.model,
           outputFormat: generation.outputFormat,
+          params: generation.params,
+          file: generation.imageFiles?.[imageIndex],
           size: generation.size,
           inputImages: generation.inputImages ?? [],
+          note: generation.imageNotes?.[imageIndex],
         });
       });
     });
@@ -605,6 +1113,17 @@ export function CreatePage() {
     void cleanOrphanedImages(generations, pendingGenerations);
   }, [generations, pendingGenerations]);
 
+  // Storage rules run once per load, after the gallery and favorites are restored.
+  useEffect(() => {
+    if (!storageHydratedRef.current || storagePolicyRanRef.current) {
+      return;
+    }
+    storagePolicyRanRef.current = true;
+    if (hasStoragePolicyRules(storagePolicy)) {
+      applyStoragePolicy().catch((error) => console.error("Failed to apply storage policy", error));
+    }
+  }, [storagePolicy, applyStoragePolicy]);
+
   const handleAddAttachments = useCallback(
     async (files: File[]) => {
       if (files.length === 0) {
@@ -665,7 +1184,7 @@ export function CreatePage() {
           // Auto-set aspect based on first attachment if it's the first batch
           if (previous.length === 0 && nextItems[0].width && nextItems[0].height) {
             const closest = findClosestAspect(nextItems[0].width, nextItems[0].height);
-            setAspect(closest);
+            setAspect((current) => (current === "custom" ? current : closest));
           }
 
           return [...previous, ...nextItems];
@@ -727,7 +1246,7 @@ export function CreatePage() {
 
         if (previous.length === 0 && width && height) {
           const closest = findClosestAspect(width, height);
-          setAspect(closest);
+          setAspect((current) => (current === "custom" ? current : closest));
         }
 
         return next;
@@ -738,9 +1257,408 @@ export function CreatePage() {
     [attachments, clearAttachmentError, setError],
   );
 
+  // Cancelled runs stay in the feed so they can be retried. The entry is built from the pending card as it is
+  // now, not as it was when the run started, so images that finished before the cancel are kept.
+  const recordCancelledGeneration = useCallback((pendingId: string) => {
+    const id = createId("generation");
+    setPendingGenerations((previous) => {
+      const latest = previous.find((generation) => generation.id === pendingId);
+      if (latest) {
+        const cancelled = settleCancelledSlots({ ...latest, id });
+        // The updater may run twice in development; the fixed id keeps the entry from being added or billed twice.
+        setGenerations((generations) =>
+          generations.some((generation) => generation.id === id) ? generations : [cancelled, ...generations],
+        );
+        chargeGeneration(cancelled);
+      }
+      return previous;
+    });
+  }, [chargeGeneration]);
+
+  const trackProgress = useCallback(
+    (pendingId: string) => (progress: GenerationProgress) => {
+      setPendingProgress((previous) => ({
+        ...previous,
+        [pendingId]: {
+          ...previous[pendingId],
+          [progress.slot]: {
+            thoughtText: progress.thoughtText,
+            draftImage: progress.draftImage,
+            ...(progress.queue ? { queue: progress.queue } : {}),
+          },
+        },
+      }));
+    },
+    [],
+  );
+
+  // Settled slots land on the pending card right away instead of waiting for the whole batch.
+  const trackSlots = useCallback(
+    (pendingId: string) => (update: GenerationSlotUpdate) => {
+      setPendingGenerations((previous) =>
+        previous.map((generation) => (generation.id === pendingId ? applySlotUpdate(generation, update) : generation)),
+      );
+    },
+    [],
+  );
+
+  // Server jobs and queued FAL calls survive a reload; the pending card keeps their ids so a reload can reconnect.
+  // Every run waits in the queue for its provider's concurrency and rate limits first, and its images are
+  // converted to the chosen output format once it finishes.
+  const runGeneration = useCallback(
+    (pendingId: string, args: GenerateSeedreamArgs) =>
+      enqueue(
+        {
+          id: pendingId,
+          prompt: args.prompt,
+          provider: args.provider,
+          model: args.model,
+          googleSearch: args.googleSearch ?? false,
+          numImages: args.numImages ?? 1,
+          ...(args.sizeOverride ? { sizeOverride: args.sizeOverride } : {}),
+          ...(args.params ? { params: args.params } : {}),
+        },
+        () =>
+          serverJobs
+            ? generateOnServer({
+                ...args,
+                onJobCreated: (jobId) => {
+                  setPendingGenerations((previous) =>
+                    previous.map((generation) =>
+                      generation.id === pendingId ? { ...generation, serverJobId: jobId } : generation,
+                    ),
+                  );
+                },
+              })
+            : generateSeedream({
+                ...args,
+                onRequestQueued: (call) => {
+                  setPendingGenerations((previous) =>
+                    previous.map((generation) =>
+                      generation.id === pendingId
+                        ? { ...generation, queuedCalls: [...(generation.queuedCalls ?? []), call] }
+                        : generation,
+                    ),
+                  );
+                },
+              }),
+        args.signal,
+      ).then((result) => convertGenerationImages(result, outputEncoding)),
+    [serverJobs, enqueue, outputEncoding],
+  );
+
+  const clearProgress = useCallback((pendingId: string) => {
+    setPendingProgress((previous) => {
+      if (!(pendingId in previous)) {
+        return previous;
+      }
+      const next = { ...previous };
+      delete next[pendingId];
+      return next;
+    });
+  }, []);
+
+  const handleCancelGeneration = useCallback((pendingId: string) => {
+    debugLog("generation:cancel", { pendingId });
+    abortControllersRef.current.get(pendingId)?.abort();
+  }, []);
+
+  const handleCancelSlot = useCallback((generationId: string, slot: number) => {
+    debugLog("slot:cancel", { generationId, slot });
+    abortControllersRef.current.get(slotRetryId(generationId, slot))?.abort();
+  }, []);
+
+  // Restored runs have lost the handler that started them, so their results land the same generic way.
+  const settleRestoredRun = useCallback(
+    (pendingGeneration: Generation, abortController: AbortController, run: Promise<SeedreamGeneration>) => {
+      const pendingId = pendingGeneration.id;
+      const jobId = pendingGeneration.serverJobId;
+
+      run
+        .then((result) => {
+          debugLog("generation:success", { pendingId, jobId, rawImageCount: result.images.length });
+          const generation: Generation = {
+            ...result,
+            id: createId("generation"),
+            images: result.slots ? result.images : normalizeImages(result.images),
+            ...(pendingGeneration.session ? { session: pendingGeneration.session } : {}),
+            ...(pendingGeneration.origin ? { origin: pendingGeneration.origin } : {}),
+            ...(pendingGeneration.matrix ? { matrix: pendingGeneration.matrix } : {}),
+          };
+          setGenerations((previous) => [generation, ...previous]);
+          chargeGeneration(generation);
+        })
+        .catch((generationError: unknown) => {
+          if (abortController.signal.aborted) {
+            debugLog("generation:cancelled", { pendingId, jobId });
+            recordCancelledGeneration(pendingId);
+            return;
+          }
+          const message = generationError instanceof Error ? generationError.message : "Generation failed.";
+          debugLog("generation:error", { pendingId, jobId, message, error: generationError });
+          setError(message);
+          // Without a result the run is as good as interrupted; keep it in the feed so it can be retried.
+          setGenerations((previous) => [
+            settleInterruptedSlots({
+              ...pendingGeneration,
+              id: createId("generation"),
+              serverJobId: undefined,
+              queuedCalls: undefined,
+            }),
+            ...previous,
+          ]);
+        })
+        .finally(() => {
+          abortControllersRef.current.delete(pendingId);
+          clearProgress(pendingId);
+          setPendingGenerations((previous) => previous.filter((gen) => gen.id !== pendingId));
+        });
+    },
+    [recordCancelledGeneration, chargeGeneration, clearProgress, setError],
+  );
+
+  const resumeDetachedRun = useCallback(
+    (pendingGeneration: Generation) => {
+      const pendingId = pendingGeneration.id;
+      const jobId = pendingGeneration.serverJobId;
+      const queuedCalls = pendingGeneration.queuedCalls ?? [];
+      if (!jobId && queuedCalls.length === 0) {
+        return;
+      }
+
+      const abortController = new AbortController();
+      abortControllersRef.current.set(pendingId, abortController);
+      debugLog("pending:resume", { pendingId, jobId, queuedCalls: queuedCalls.length });
+
+      const followOptions = {
+        signal: abortController.signal,
+        onProgress: trackProgress(pendingId),
+        onSlotSettled: trackSlots(pendingId),
+      };
+      settleRestoredRun(
+        pendingGeneration,
+        abortController,
+        (jobId
+          ? followServerJob(jobId, followOptions)
+          : followQueuedGeneration(pendingGeneration, queuedCalls, { ...followOptions, apiKey: apiKey.trim() || undefined })
+        ).then((result) => convertGenerationImages(result, outputEncoding)),
+      );
+    },
+    [settleRestoredRun, trackProgress, trackSlots, apiKey, outputEncoding],
+  );
+
+  // Reattaches a run that was still waiting in the queue when the page closed, using the current keys.
+  const resumeQueuedGeneration = useCallback(
+    (pendingGeneration: Generation) => {
+      const pendingId = pendingGeneration.id;
+      const item = generationQueue.items.find((queued) => queued.id === pendingId);
+      if (!item) {
+        return;
+      }
+
+      const abortController = new AbortController();
+      abortControllersRef.current.set(pendingId, abortController);
+      debugLog("pending:requeue", { pendingId });
+
+      settleRestoredRun(
+        pendingGeneration,
+        abortController,
+        runGeneration(pendingId, {
+          prompt: item.prompt,
+          aspect: pendingGeneration.aspect,
+          quality: pendingGeneration.quality,
+          numImages: item.numImages,
+          provider: item.provider,
+          model: item.model,
+          googleSearch: item.googleSearch,
+          outputFormat: pendingGeneration.outputFormat ?? defaultOutputFormat,
+          apiKey: apiKey.trim() || undefined,
+          geminiApiKeys,
+          providerSettings: providerSettings[item.provider],
+          sizeOverride: item.sizeOverride,
+          params: item.params,
+          inputImages: pendingGeneration.inputImages?.map((image) => ({ ...image })) ?? [],
+          history: sessionHistoryFor(generations, pendingGeneration),
+          signal: abortController.signal,
+          onProgress: trackProgress(pendingId),
+          onSlotSettled: trackSlots(pendingId),
+        }),
+      );
+    },
+    [generationQueue.items, settleRestoredRun, runGeneration, apiKey, geminiApiKeys, providerSettings, generations, trackProgress, trackSlots],
+  );
+
+  useEffect(() => {
+    if (runsToResume.length === 0) {
+      return;
+    }
+    runsToResume.forEach(resumeDetachedRun);
+    setRunsToResume([]);
+  }, [runsToResume, resumeDetachedRun]);
+
+  useEffect(() => {
+    if (queuedToResume.length === 0) {
+      return;
+    }
+    queuedToResume.forEach(resumeQueuedGeneration);
+    setQueuedToResume([]);
+  }, [queuedToResume, resumeQueuedGeneration]);
+
+  const isBatchSubmit = batchMode && provider === "gemini" && !activeEditSession;
+
+  const batchEstimate = useMemo(() => {
+    if (!isBatchSubmit) {
+      return null;
+    }
+    let promptCount: number;
+    try {
+      promptCount = expandPromptLines(splitBatchPrompts(prompt)).length;
+    } catch {
+      return null;
+    }
+    const imageTotal = promptCount * imageCount;
+    const estimate = estimateBatchCost(model, quality, imageTotal);
+    return {
+      promptCount,
+      imageCount: imageTotal,
+      costCents: estimate.batchCents,
+      savingsCents: estimate.savingsCents,
+    };
+  }, [isBatchSubmit, prompt, imageCount, model, quality]);
+
+  const matrixPreview = useMemo(() => {
+    if (isBatchSubmit) {
+      return null;
+    }
+    try {
+      const { axes, expansions } = expandPromptMatrix(prompt);
+      if (axes.length === 0) {
+        return null;
+      }
+      const imageTotal = expansions.length * imageCount;
+      return {
+        prompts: expansions.map((expansion) => expansion.prompt),
+        imageCount: imageTotal,
+        costCents: (getImagePriceCents(provider, model, quality) ?? 0) * imageTotal,
+      };
+    } catch (matrixError) {
+      return { error: matrixError instanceof Error ? matrixError.message : "Unable to expand the prompt." };
+    }
+  }, [isBatchSubmit, prompt, imageCount, provider, model, quality]);
+
+  const sessionHistory = useMemo(
+    () => (activeEditSession ? buildSessionHistory(generations, activeEditSession.target) : undefined),
+    [activeEditSession, generations],
+  );
+
+  // Batch Mode and matrices show their own totals.
+  const { estimate: tokenEstimate, isCounting: isCountingTokens } = useTokenEstimate({
+    prompt,
+    inputImages: attachmentInputImages,
+    history: sessionHistory,
+    provider,
+    model,
+    quality,
+    imageCount,
+    params: generationParams,
+    geminiApiKeys,
+    enabled: !isBatchSubmit && !matrixPreview,
+  });
+
+  const spendTotals = useMemo(() => ledgerTotals(costLedger), [costLedger]);
+  const budgetSpentCents = budget ? spendTotals[budget.period] : 0;
+  const isBudgetLocked = budget !== null && budget.enforcement === "block" && budgetSpentCents >= budget.limitCents;
+
+  const nextRunCostCents = useMemo(() => {
+    if (batchEstimate) {
+      return batchEstimate.costCents;
+    }
+    if (matrixPreview?.costCents !== undefined) {
+      return matrixPreview.costCents;
+    }
+    return tokenEstimate?.costCents ?? (getImagePriceCents(provider, model, quality) ?? 0) * imageCount;
+  }, [batchEstimate, matrixPreview, tokenEstimate, provider, model, quality, imageCount]);
+
+  // A warn-only budget never stops a run; it just says when the next one goes over.
+  const budgetWarning =
+    budget && budget.enforcement === "warn" && budgetSpentCents + nextRunCostCents > budget.limitCents
+      ? `Over budget: ${formatCents(budgetSpentCents)} of ${formatCents(budget.limitCents)} spent, this run adds about ${formatCents(nextRunCostCents)}.`
+      : null;
+
+  /** Whether a run of this estimated cost may start under a blocking budget; says why not otherwise. */
+  const checkBudget = useCallback(
+    (costCents: number) => {
+      if (!budget || budget.enforcement !== "block") {
+        return true;
+      }
+      const remainingCents = budget.limitCents - spendTotals[budget.period];
+      if (remainingCents > 0 && costCents <= remainingCents) {
+        return true;
+      }
+      setError(
+        remainingCents <= 0
+          ? `Budget reached (${formatCents(budget.limitCents)}). Raise it or reset spending to keep generating.`
+          : `This run costs about ${formatCents(costCents)}, more than the ${formatCents(remainingCents)} left in your budget.`,
+      );
+      return false;
+    },
+    [budget, spendTotals],
+  );
+
+  const handleBatchSubmit = async () => {
+    // A batch job is tied to one key for its lifetime; start it on the healthiest one.
+    const activeGeminiKey = orderKeysByHealth(geminiApiKeys)[0] ?? "";
+
+    setIsSettingsOpen(false);
+    setError(null);
+
+    if (!activeGeminiKey) {
+      setError("Missing Gemini API key. Add one in settings.");
+      return;
+    }
+
+    let prompts: string[];
+    try {
+      prompts = expandPromptLines(splitBatchPrompts(prompt));
+    } catch (matrixError) {
+      setError(matrixError instanceof Error ? matrixError.message : "Unable to expand the prompt.");
+      return;
+    }
+
+    debugLog("batch:submit", { prompts: prompts.length, imageCount, model, quality });
+
+    try {
+      await submitBatch({
+        apiKey: activeGeminiKey,
+        prompts,
+        imagesPerPrompt: imageCount,
+        aspect,
+        quality,
+        outputFormat,
+        model,
+        size: aspect === "custom" ? customSize : calculateImageSize(aspect, quality),
+        googleSearch,
+        inputImages: attachmentInputImages.map((image) => ({ ...image })),
+      });
+    } catch (batchError) {
+      const message = batchError instanceof Error ? batchError.message : "Unable to submit batch job.";
+      debugLog("batch:submit-error", { message, error: batchError });
+      setError(message);
+    }
+  };
+
   const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
 
+    if (!checkBudget(nextRunCostCents)) {
+      return;
+    }
+
+    if (isBatchSubmit) {
+      void handleBatchSubmit();
+      return;
+    }
+
     debugLog("submit:start", {
       aspect,
       quality,
@@ -754,112 +1672,177 @@ export function CreatePage() {
       })),
     });
 
-    const pendingId = createId("pending");
-    const pendingSize = calculateImageSize(aspect, quality);
-    const inputImageSnapshot = attachmentInputImages.map((image) => ({ ...image }));
-
-    const pendingGeneration: Generation = {
-      id: pendingId,
-      prompt,
-      aspect,
-      quality,
-      outputFormat,
-      provider, // Added provider here
-      size: pendingSize,
-      createdAt: new Date().toISOString(),
-      inputImages: inputImageSnapshot,
-      images: Array(imageCount).fill(""),
-    };
+    let expansion: PromptMatrix;
+    try {
+      expansion = expandPromptMatrix(prompt);
+    } catch (matrixError) {
+      setError(matrixError instanceof Error ? matrixError.message : "Unable to expand the prompt.");
+      return;
+    }
 
-    debugLog("pending:prepare", {
-      pendingId,
-      size: pendingSize,
-      inputImages: inputImageSnapshot.length,
-    });
+    if (expansion.expansions.length > 1 && activeEditSession) {
+      setError("Prompt permutations can't be used in an edit session. End the session to run a matrix.");
+      return;
+    }
 
-    setIsSettingsOpen(false);
-    setError(null);
-    setPendingGenerations((previous) => {
-      const next = [pendingGeneration, ...previous];
-      debugLog("pending:queued", { pendingId, pendingCount: next.length });
-      return next;
-    });
+    const queueGeneration = (generationPrompt: string, matrix?: GenerationMatrix) => {
+      const pendingId = createId("pending");
+      const pendingSize = aspect === "custom" ? customSize : calculateImageSize(aspect, quality);
+      const inputImageSnapshot = attachmentInputImages.map((image) => ({ ...image }));
+      const sessionTarget = activeEditSession?.target;
+      const session = activeEditSession ? nextSessionTurn(activeEditSession.parent, activeEditSession.target) : undefined;
+      const params = normalizeGenerationParams(generationParams);
 
-    const trimmedApiKey = apiKey.trim();
-    const activeGeminiKey = (geminiApiKeys[0] ?? "").trim();
+      const pendingGeneration: Generation = {
+        id: pendingId,
+        prompt: generationPrompt,
+        aspect,
+        quality,
+        outputFormat,
+        provider, // Added provider here
+        model,
+        size: pendingSize,
+        createdAt: new Date().toISOString(),
+        inputImages: inputImageSnapshot,
+        images: Array(imageCount).fill(""),
+        ...(params ? { params } : {}),
+        ...(googleSearch ? { googleSearch } : {}),
+        ...(session ? { session } : {}),
+        ...(matrix ? { matrix } : {}),
+      };
 
-    debugLog("submit:request", {
-      pendingId,
-      provider,
-      apiKeyProvided: trimmedApiKey.length > 0,
-      geminiApiKeyProvided: activeGeminiKey.length > 0,
-      inputImages: inputImageSnapshot.length,
-      imageCount
-    });
+      debugLog("pending:prepare", {
+        pendingId,
+        size: pendingSize,
+        inputImages: inputImageSnapshot.length,
+      });
 
-    const generationPromise = generateSeedream({
-      prompt,
-      aspect,
-      quality,
-      numImages: imageCount,
-      provider,
-      model,
-      googleSearch,
-      outputFormat,
-      apiKey: trimmedApiKey.length > 0 ? trimmedApiKey : undefined,
-      geminiApiKey: activeGeminiKey.length > 0 ? activeGeminiKey : undefined,
-      inputImages: inputImageSnapshot,
-    });
+      setIsSettingsOpen(false);
+      setError(null);
+      setPendingGenerations((previous) => {
+        const next = [pendingGeneration, ...previous];
+        debugLog("pending:queued", { pendingId, pendingCount: next.length });
+        return next;
+      });
 
-    generationPromise
-      .then((result) => {
-        debugLog("generation:success", {
-          pendingId,
-          rawImageCount: result.images.length,
-          size: result.size,
-        });
+      const trimmedApiKey = apiKey.trim();
+      const abortController = new AbortController();
+      abortControllersRef.current.set(pendingId, abortController);
 
-        const normalizedImages = normalizeImages(result.images);
-        debugLog("generation:normalized", {
-          pendingId,
-          normalizedCount: normalizedImages.length,
-          urlsSample: normalizedImages.slice(0, 8),
-        });
+      debugLog("submit:request", {
+        pendingId,
+        provider,
+        apiKeyProvided: trimmedApiKey.length > 0,
+        geminiApiKeyCount: geminiApiKeys.length,
+        inputImages: inputImageSnapshot.length,
+        imageCount
+      });
 
-        const generation: Generation = {
-          ...result,
-          id: createId("generation"),
-          images: normalizedImages,
-        };
+      const generationPromise = runGeneration(pendingId, {
+        prompt: generationPrompt,
+        aspect,
+        quality,
+        sizeOverride: aspect === "custom" ? customSize : undefined,
+        numImages: imageCount,
+        provider,
+        model,
+        googleSearch,
+        outputFormat,
+        apiKey: trimmedApiKey.length > 0 ? trimmedApiKey : undefined,
+        geminiApiKeys,
+        providerSettings: providerSettings[provider],
+        params,
+        inputImages: inputImageSnapshot,
+        history: sessionTarget ? buildSessionHistory(generations, sessionTarget) : undefined,
+        signal: abortController.signal,
+        onProgress: trackProgress(pendingId),
+        onSlotSettled: trackSlots(pendingId),
+      });
 
-        setGenerations((previous) => {
-          const next = [generation, ...previous];
-          debugLog("generations:prepended", {
-            generationId: generation.id,
-            total: next.length,
+      generationPromise
+        .then((result) => {
+          debugLog("generation:success", {
+            pendingId,
+            rawImageCount: result.images.length,
+            size: result.size,
           });
-          return next;
-        });
-      })
-      .catch((generationError: unknown) => {
-        const message =
-          generationError instanceof Error
-            ? generationError.message
-            : "Generation failed.";
-        debugLog("generation:error", { pendingId, message, error: generationError });
-        setError(message);
-      })
-      .finally(() => {
-        setPendingGenerations((previous) => {
-          const next = previous.filter((generation) => generation.id !== pendingId);
-          debugLog("pending:cleared", {
+
+          // Failed slots keep their empty placeholder so they can be retried in place.
+          const normalizedImages = result.slots ? result.images : normalizeImages(result.images);
+          debugLog("generation:normalized", {
             pendingId,
-            before: previous.length,
-            after: next.length,
+            normalizedCount: normalizedImages.length,
+            urlsSample: normalizedImages.slice(0, 8),
+          });
+
+          const generation: Generation = {
+            ...result,
+            id: createId("generation"),
+            images: normalizedImages,
+            ...(session ? { session } : {}),
+            ...(matrix ? { matrix } : {}),
+          };
+
+          setGenerations((previous) => {
+            const next = [generation, ...previous];
+            debugLog("generations:prepended", {
+              generationId: generation.id,
+              total: next.length,
+            });
+            return next;
+          });
+          chargeGeneration(generation);
+
+          // A turn whose images all failed has nothing to refine, so the session stays where it was.
+          const imageIndex = normalizedImages.findIndex((image) => image.length > 0);
+          if (sessionTarget && imageIndex >= 0) {
+            // Move the session forward so the next prompt refines this turn, unless it was ended or moved meanwhile.
+            setEditSession((current) =>
+              current?.generationId === sessionTarget.generationId && current.imageIndex === sessionTarget.imageIndex
+                ? { generationId: generation.id, imageIndex }
+                : current,
+            );
+          }
+        })
+        .catch((generationError: unknown) => {
+          if (abortController.signal.aborted) {
+            debugLog("generation:cancelled", { pendingId });
+            recordCancelledGeneration(pendingId);
+            return;
+          }
+          const message =
+            generationError instanceof Error
+              ? generationError.message
+              : "Generation failed.";
+          debugLog("generation:error", { pendingId, message, error: generationError });
+          setError(message);
+        })
+        .finally(() => {
+          abortControllersRef.current.delete(pendingId);
+          clearProgress(pendingId);
+          setPendingGenerations((previous) => {
+            const next = previous.filter((generation) => generation.id !== pendingId);
+            debugLog("pending:cleared", {
+              pendingId,
+              before: previous.length,
+              after: next.length,
+            });
+            return next;
           });
-          return next;
         });
-      });
+    };
+
+    if (expansion.axes.length === 0) {
+      queueGeneration(prompt);
+      return;
+    }
+
+    // Every expansion runs as its own generation; the shared id lets the gallery lay them out as a grid.
+    const matrixId = createId("matrix");
+    debugLog("matrix:queue", { matrixId, expansions: expansion.expansions.length });
+    expansion.expansions.forEach(({ prompt: expandedPrompt, values }) => {
+      queueGeneration(expandedPrompt, { id: matrixId, template: prompt, axes: expansion.axes, values });
+    });
   };
 
   const handleExpand = useCallback((generationId: string, imageIndex: number) => {
@@ -871,22 +1854,13 @@ export function CreatePage() {
   const handleDownload = async (entry: GalleryEntry) => {
     setIsDownloading(true);
     try {
-      const response = await fetch(entry.src, { cache: "no-store" });
-      if (!response.ok) {
-        throw new Error(`Download failed (${response.status})`);
-      }
-
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      const format = entry.outputFormat ?? "png";
-      const extension = format === "jpeg" ? "jpg" : format;
-      link.href = url;
-      link.download = generateSmartFilename(entry.prompt, extension);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      const generation = generations.find((candidate) => candidate.id === entry.generationId);
+      await downloadImage(
+        entry.src,
+        entry.prompt,
+        entry.outputFormat ?? "png",
+        generation ? recipeFromGeneration(generation) : undefined,
+      );
     } catch (downloadError) {
       const message =
         downloadError instanceof Error ? downloadError.message : "Unable to download image.";
@@ -958,6 +1932,60 @@ export function CreatePage() {
     [handleAddAttachmentFromUrl, setIsDownloading, setIsSettingsOpen, setLightboxSelection],
   );
 
+  // The original goes in as a reference too, so the model has the clean image next to the mask or markup.
+  const handleLightboxMarkup = useCallback(
+    async (entry: GalleryEntry, markup: MarkupExport) => {
+      const originalUrl = await ensureSerializableUrl(entry.src);
+      const needsOriginal = !attachments.some((attachment) => attachment.url === originalUrl);
+      if (attachments.length + (needsOriginal ? 2 : 1) > MAX_ATTACHMENTS) {
+        setError(ATTACHMENT_LIMIT_MESSAGE);
+        return;
+      }
+
+      const { width, height } = entry.size;
+      setAttachments((previous) => [
+        ...previous,
+        ...(needsOriginal
+          ? [{ id: createId("attachment"), name: entry.prompt || "Generated image", url: originalUrl, kind: "remote" as const, width, height }]
+          : []),
+        { id: createId("attachment"), name: markup.name, url: markup.dataUrl, kind: "local" as const, width, height },
+      ]);
+      if (attachments.length === 0) {
+        setAspect((current) => (current === "custom" ? current : findClosestAspect(width, height)));
+      }
+      setPrompt((previous) => (previous.trim() ? `${previous.trim()}\n\n${markup.instruction}` : markup.instruction));
+      clearAttachmentError();
+      setLightboxSelection(null);
+      setIsSettingsOpen(false);
+      setIsDownloading(false);
+      setView("create");
+    },
+    [attachments, clearAttachmentError, setError, setIsDownloading, setIsSettingsOpen, setLightboxSelection],
+  );
+
+  const handleStartEditSession = useCallback(
+    (generationId: string, imageIndex: number) => {
+      setEditSession({ generationId, imageIndex });
+      setLightboxSelection(null);
+      setIsSettingsOpen(false);
+      setIsDownloading(false);
+      setView("create");
+    },
+    [setIsDownloading, setIsSettingsOpen, setLightboxSelection],
+  );
+
+  // Cards continue from their first finished image; the lightbox picks a specific one.
+  const handleContinueSession = useCallback(
+    (generationId: string) => {
+      const generation = generations.find((gen) => gen.id === generationId);
+      const imageIndex = generation?.images.findIndex((image) => image.length > 0) ?? -1;
+      if (imageIndex >= 0) {
+        handleStartEditSession(generationId, imageIndex);
+      }
+    },
+    [generations, handleStartEditSession],
+  );
+
   const handleRetryGeneration = useCallback(
     (generationId: string) => {
       const generation = generations.find((gen) => gen.id === generationId);
@@ -965,8 +1993,12 @@ export function CreatePage() {
         return;
       }
 
-      const pendingId = createId("pending");
       const numImages = Math.max(1, generation.images.length || 1);
+      if (!checkBudget((getImagePriceCents(generation.provider, generation.model ?? model, generation.quality) ?? 0) * numImages)) {
+        return;
+      }
+
+      const pendingId = createId("pending");
       const pendingSize =
         generation.aspect === "custom" && generation.size
           ? generation.size
@@ -981,6 +2013,8 @@ export function CreatePage() {
         inputImages: inputImageSnapshot,
         size: pendingSize,
         outputFormat: generation.outputFormat ?? defaultOutputFormat,
+        model: generation.model ?? model,
+        status: undefined,
       };
 
       debugLog("pending:retry", {
@@ -998,18 +2032,28 @@ export function CreatePage() {
       setError(null);
       setIsSettingsOpen(false);
 
-      const generationPromise = generateSeedream({
+      const abortController = new AbortController();
+      abortControllersRef.current.set(pendingId, abortController);
+
+      const generationPromise = runGeneration(pendingId, {
         prompt: generation.prompt,
         aspect: generation.aspect,
         quality: generation.quality,
         numImages,
         provider: generation.provider,
         model: generation.model ?? model,
-        googleSearch,
+        googleSearch: generation.googleSearch ?? false,
         outputFormat: generation.outputFormat ?? defaultOutputFormat,
         apiKey: apiKey.trim() || undefined,
-        geminiApiKey: (geminiApiKeys[0] ?? "").trim() || undefined,
+        geminiApiKeys,
+        providerSettings: providerSettings[generation.provider],
+        params: generation.params,
+        sizeOverride: generation.aspect === "custom" ? generation.size : undefined,
         inputImages: inputImageSnapshot,
+        history: sessionHistoryFor(generations, generation),
+        signal: abortController.signal,
+        onProgress: trackProgress(pendingId),
+        onSlotSettled: trackSlots(pendingId),
       });
 
       generationPromise
@@ -1020,7 +2064,7 @@ export function CreatePage() {
             size: result.size,
           });
 
-          const normalizedImages = normalizeImages(result.images);
+          const normalizedImages = result.slots ? result.images : normalizeImages(result.images);
           debugLog("generation:normalized", {
             pendingId,
             normalizedCount: normalizedImages.length,
@@ -1031,6 +2075,9 @@ export function CreatePage() {
             ...result,
             id: createId("generation"),
             images: normalizedImages,
+            ...(generation.session ? { session: generation.session } : {}),
+            ...(generation.origin ? { origin: generation.origin } : {}),
+            ...(generation.matrix ? { matrix: generation.matrix } : {}),
           };
 
           setGenerations((previous) => {
@@ -1041,8 +2088,14 @@ export function CreatePage() {
             });
             return next;
           });
+          chargeGeneration(nextGeneration);
         })
         .catch((generationError: unknown) => {
+          if (abortController.signal.aborted) {
+            debugLog("generation:cancelled", { pendingId });
+            recordCancelledGeneration(pendingId);
+            return;
+          }
           const message =
             generationError instanceof Error
               ? generationError.message
@@ -1051,6 +2104,8 @@ export function CreatePage() {
           setError(message);
         })
         .finally(() => {
+          abortControllersRef.current.delete(pendingId);
+          clearProgress(pendingId);
           setPendingGenerations((previous) => {
             const next = previous.filter((gen) => gen.id !== pendingId);
             debugLog("pending:cleared", {
@@ -1062,7 +2117,110 @@ export function CreatePage() {
           });
         });
     },
-    [apiKey, geminiApiKeys, generations],
+    [apiKey, geminiApiKeys, providerSettings, generations, model, checkBudget, recordCancelledGeneration, chargeGeneration, runGeneration, trackProgress, trackSlots, clearProgress],
+  );
+
+  const handleRetrySlot = useCallback(
+    (generationId: string, slot: number) => {
+      const generation = generations.find((gen) => gen.id === generationId);
+      const failedSlot = generation?.slots?.[slot];
+      if (!generation || (failedSlot?.status !== "failed" && failedSlot?.status !== "cancelled")) {
+        return;
+      }
+
+      const slotModel = generation.model ?? model;
+      const slotPriceCents = getImagePriceCents(generation.provider, slotModel, generation.quality);
+      if (!checkBudget(slotPriceCents ?? 0)) {
+        return;
+      }
+
+      const previousAttempts = failedSlot.attempts;
+      // A recovered image is billed like any other, so it raises the generation's cost.
+      const updateSlot = (update: GenerationSlotUpdate & { file?: ImageFileInfo | null }) =>
+        setGenerations((previous) =>
+          previous.map((gen) => {
+            if (gen.id !== generationId) {
+              return gen;
+            }
+            const updated = applySlotUpdate(gen, update);
+            return update.status === "succeeded" && slotPriceCents !== null
+              ? { ...updated, costCents: (gen.costCents ?? 0) + slotPriceCents }
+              : updated;
+          }),
+        );
+
+      debugLog("slot:retry", { generationId, slot, previousAttempts });
+      updateSlot({ slot, status: "pending", attempts: previousAttempts, image: "" });
+
+      // Each provider call steps the seed, so the slot reuses the seed of the call that produced it.
+      const slotCall = Math.floor(slot / getOutputsPerRequest(generation.provider, slotModel, generation.params));
+      const slotParams =
+        generation.params?.seed !== undefined
+          ? { ...generation.params, seed: generation.params.seed + slotCall }
+          : generation.params;
+
+      // The retry waits in the queue like any run; its controller lets the tile or the queue panel cancel it.
+      const retryId = slotRetryId(generationId, slot);
+      const abortController = new AbortController();
+      abortControllersRef.current.set(retryId, abortController);
+      let settledUpdate: GenerationSlotUpdate | null = null;
+
+      runGeneration(retryId, {
+        prompt: generation.prompt,
+        aspect: generation.aspect,
+        quality: generation.quality,
+        numImages: 1,
+        provider: generation.provider,
+        model: slotModel,
+        googleSearch: generation.googleSearch ?? false,
+        outputFormat: generation.outputFormat ?? defaultOutputFormat,
+        apiKey: apiKey.trim() || undefined,
+        geminiApiKeys,
+        providerSettings: providerSettings[generation.provider],
+        params: slotParams,
+        sizeOverride: generation.aspect === "custom" ? generation.size : undefined,
+        inputImages: generation.inputImages?.map((image) => ({ ...image })) ?? [],
+        history: sessionHistoryFor(generations, generation),
+        signal: abortController.signal,
+        onSlotSettled: (update) => {
+          settledUpdate = update;
+        },
+      })
+        .then((result) => {
+          const attempts = previousAttempts + (settledUpdate?.attempts ?? result.slots?.[0]?.attempts ?? 1);
+          const image = result.images[0] ?? "";
+          if (!image) {
+            const error = settledUpdate?.error ?? result.slots?.[0]?.error ?? "Generation failed.";
+            updateSlot({ slot, status: "failed", attempts, image: "", error });
+            return;
+          }
+          if (slotPriceCents !== null) {
+            setCostLedger((previous) => recordSlotRetry(previous, generation, slotPriceCents));
+          }
+          updateSlot({
+            slot,
+            status: "succeeded",
+            attempts,
+            image,
+            note: settledUpdate?.note ?? result.imageNotes?.[0],
+            file: result.imageFiles[0] ?? null,
+          });
+        })
+        .catch((slotError: unknown) => {
+          if (abortController.signal.aborted) {
+            debugLog("slot:retry-cancelled", { generationId, slot });
+            updateSlot({ slot, status: "cancelled", attempts: previousAttempts, image: "" });
+            return;
+          }
+          const message = slotError instanceof Error ? slotError.message : "Generation failed.";
+          debugLog("slot:retry-error", { generationId, slot, message });
+          updateSlot({ slot, status: "failed", attempts: previousAttempts, image: "", error: message });
+        })
+        .finally(() => {
+          abortControllersRef.current.delete(retryId);
+        });
+    },
+    [apiKey, geminiApiKeys, providerSettings, generations, model, checkBudget, runGeneration],
   );
 
   const handleDeleteGeneration = useCallback(
@@ -1111,9 +2269,15 @@ export function CreatePage() {
 
   const handleUpscale = useCallback(
     (entry: GalleryEntry, targetQuality: QualityKey) => {
+      const upscaleProvider = entry.provider ?? "gemini";
+      const upscaleModel = entry.model ?? model;
+      if (!checkBudget(getImagePriceCents(upscaleProvider, upscaleModel, targetQuality) ?? 0)) {
+        return;
+      }
+
       // Create a new generation with the same prompt but higher quality
       const pendingId = createId("pending");
-      const pendingSize = calculateImageSize(entry.aspect as AspectKey, targetQuality);
+      const pendingSize = calculateImageSize(entry.aspect, targetQuality, entry.size);
       const inputImageSnapshot = entry.inputImages?.map((image) => ({ ...image })) ?? [];
 
       const pendingGeneration: Generation = {
@@ -1122,7 +2286,8 @@ export function CreatePage() {
         aspect: entry.aspect,
         quality: targetQuality,
         outputFormat: entry.outputFormat ?? defaultOutputFormat,
-        provider: entry.provider ?? "fal",
+        provider: upscaleProvider,
+        model: upscaleModel,
         size: pendingSize,
         createdAt: new Date().toISOString(),
         inputImages: inputImageSnapshot,
@@ -1140,18 +2305,26 @@ export function CreatePage() {
       setError(null);
       setPendingGenerations((previous) => [pendingGeneration, ...previous]);
 
-      const generationPromise = generateSeedream({
+      const abortController = new AbortController();
+      abortControllersRef.current.set(pendingId, abortController);
+
+      const generationPromise = runGeneration(pendingId, {
         prompt: entry.prompt,
-        aspect: entry.aspect as AspectKey,
+        aspect: entry.aspect,
         quality: targetQuality,
+        sizeOverride: entry.aspect === "custom" ? pendingSize : undefined,
         numImages: 1,
-        provider: entry.provider ?? "gemini",
-        model: model,
+        provider: upscaleProvider,
+        model: upscaleModel,
         googleSearch,
         outputFormat: entry.outputFormat ?? defaultOutputFormat,
         apiKey: apiKey.trim() || undefined,
-        geminiApiKey: (geminiApiKeys[0] ?? "").trim() || undefined,
+        geminiApiKeys,
+        providerSettings: providerSettings[upscaleProvider],
+        params: entry.params,
         inputImages: inputImageSnapshot,
+        signal: abortController.signal,
+        onProgress: trackProgress(pendingId),
       });
 
       generationPromise
@@ -1162,7 +2335,7 @@ export function CreatePage() {
             size: result.size,
           });
 
-          const normalizedImages = normalizeImages(result.images);
+          const normalizedImages = result.slots ? result.images : normalizeImages(result.images);
           const generation: Generation = {
             ...result,
             id: createId("generation"),
@@ -1170,8 +2343,14 @@ export function CreatePage() {
           };
 
           setGenerations((previous) => [generation, ...previous]);
+          chargeGeneration(generation);
         })
         .catch((generationError: unknown) => {
+          if (abortController.signal.aborted) {
+            debugLog("upscale:cancelled", { pendingId });
+            recordCancelledGeneration(pendingId);
+            return;
+          }
           const message =
             generationError instanceof Error
               ? generationError.message
@@ -1180,18 +2359,117 @@ export function CreatePage() {
           setError(message);
         })
         .finally(() => {
+          abortControllersRef.current.delete(pendingId);
+          clearProgress(pendingId);
           setPendingGenerations((previous) =>
             previous.filter((gen) => gen.id !== pendingId),
           );
         });
     },
-    [apiKey, geminiApiKeys],
+    [apiKey, geminiApiKeys, providerSettings, model, checkBudget, recordCancelledGeneration, chargeGeneration, runGeneration, trackProgress, clearProgress],
+  );
+
+  // The padded image goes through the normal edit path; the result links back to the image it extended.
+  const handleExtendCanvas = useCallback(
+    async (entry: GalleryEntry, targetAspect: AspectKey, anchor: OutpaintAnchor) => {
+      if (!checkBudget(getImagePriceCents(entry.provider ?? provider, entry.model ?? model, entry.quality) ?? 0)) {
+        return;
+      }
+
+      let padded: Awaited<ReturnType<typeof padImageToAspect>>;
+      try {
+        padded = await padImageToAspect(entry.src, targetAspect, anchor);
+      } catch (extendError) {
+        setError(extendError instanceof Error ? extendError.message : "Unable to extend the image.");
+        return;
+      }
+
+      const pendingId = createId("pending");
+      const pendingSize = calculateImageSize(targetAspect, entry.quality);
+      const outpaintPrompt = buildOutpaintPrompt(entry.prompt);
+      const outpaintProvider = entry.provider ?? provider;
+      const origin: GenerationOrigin = { generationId: entry.generationId, imageIndex: entry.imageIndex, action: "outpaint" };
+      const inputImageSnapshot = [
+        { id: createId("attachment"), name: "Extended canvas", url: padded.dataUrl, width: padded.width, height: padded.height },
+      ];
+
+      const pendingGeneration: Generation = {
+        id: pendingId,
+        prompt: outpaintPrompt,
+        aspect: targetAspect,
+        quality: entry.quality,
+        outputFormat: entry.outputFormat ?? defaultOutputFormat,
+        provider: outpaintProvider,
+        model: entry.model ?? model,
+        size: pendingSize,
+        createdAt: new Date().toISOString(),
+        inputImages: inputImageSnapshot,
+        images: [""],
+        origin,
+      };
+
+      debugLog("outpaint:start", { pendingId, from: entry.generationId, targetAspect, anchor, size: padded });
+
+      setLightboxSelection(null);
+      setIsSettingsOpen(false);
+      setError(null);
+      setPendingGenerations((previous) => [pendingGeneration, ...previous]);
+
+      const abortController = new AbortController();
+      abortControllersRef.current.set(pendingId, abortController);
+
+      runGeneration(pendingId, {
+        prompt: outpaintPrompt,
+        aspect: targetAspect,
+        quality: entry.quality,
+        numImages: 1,
+        provider: outpaintProvider,
+        model: entry.model ?? model,
+        outputFormat: entry.outputFormat ?? defaultOutputFormat,
+        apiKey: apiKey.trim() || undefined,
+        geminiApiKeys,
+        providerSettings: providerSettings[outpaintProvider],
+        params: entry.params,
+        inputImages: inputImageSnapshot,
+        signal: abortController.signal,
+        onProgress: trackProgress(pendingId),
+        onSlotSettled: trackSlots(pendingId),
+      })
+        .then((result) => {
+          debugLog("outpaint:success", { pendingId, rawImageCount: result.images.length });
+          const generation: Generation = {
+            ...result,
+            id: createId("generation"),
+            images: result.slots ? result.images : normalizeImages(result.images),
+            origin,
+          };
+          setGenerations((previous) => [generation, ...previous]);
+          chargeGeneration(generation);
+        })
+        .catch((generationError: unknown) => {
+          if (abortController.signal.aborted) {
+            debugLog("outpaint:cancelled", { pendingId });
+            recordCancelledGeneration(pendingId);
+            return;
+          }
+          const message = generationError instanceof Error ? generationError.message : "Extending the image failed.";
+          debugLog("outpaint:error", { pendingId, message, error: generationError });
+          setError(message);
+        })
+        .finally(() => {
+          abortControllersRef.current.delete(pendingId);
+          clearProgress(pendingId);
+          setPendingGenerations((previous) => previous.filter((gen) => gen.id !== pendingId));
+        });
+    },
+    [apiKey, geminiApiKeys, providerSettings, provider, model, checkBudget, recordCancelledGeneration, chargeGeneration, runGeneration, trackProgress, trackSlots, clearProgress, setError, setIsSettingsOpen, setLightboxSelection],
   );
 
   const handleUsePrompt = useCallback(
-    async (value: string, inputImages: Generation["inputImages"]) => {
+    async (value: string, inputImages: Generation["inputImages"], params?: GenerationParams) => {
       setPrompt(value);
       setIsSettingsOpen(false);
+      setGenerationParams(params ?? {});
 
       if (inputImages.length > 0) {
         const normalized = await Promise.all(
@@ -1279,7 +2557,18 @@ export function CreatePage() {
 
         {/* Navigation Tabs */}
         <div className="pointer-events-none sticky top-4 z-30 flex items-center justify-between">
-          <div className="w-24" /> {/* Spacer for centering */}
+          <div className="pointer-events-auto w-24">
+            <BudgetWidget
+              budget={budget}
+              totals={spendTotals}
+              batchCostCents={nextRunCostCents}
+              imagesPerBatch={imageCount}
+              isBudgetLocked={isBudgetLocked}
+              onBudgetSave={setBudget}
+              onBudgetClear={() => setBudget(null)}
+              onResetSpending={() => setCostLedger(createLedger())}
+            />
+          </div>
           <div className="pointer-events-auto flex items-center gap-1 rounded-full bg-[var(--bg-subtle)] p-1 border border-[var(--border-subtle)] shadow-lg shadow-black/20">
             <button
               onClick={() => setView("create")}
@@ -1318,6 +2607,16 @@ export function CreatePage() {
 
         {view === "create" ? (
           <main className="flex flex-1 flex-col gap-12">
+            <QueuePanel
+              queue={generationQueue}
+              keyCounts={queueKeyCounts}
+              onPausedChange={setQueuePaused}
+              onMove={moveQueueItem}
+              onCancel={handleCancelGeneration}
+              onClearFinished={clearFinishedQueueItems}
+              onLimitsChange={setQueueLimits}
+            />
+            <BatchQueue jobs={batchJobs} onDismiss={dismissBatchJob} onRefresh={() => void refreshBatchJobs()} />
             {hasGenerations ? (
               groupedGenerations.map((group) => (
                 <GenerationGroup
@@ -1325,6 +2624,8 @@ export function CreatePage() {
                   label={group.label}
                   generations={group.items}
                   pendingIdSet={pendingIdSet}
+                  queuedIdSet={queuedIdSet}
+                  pendingProgress={pendingProgress}
                   errorGenerationId={errorGenerationId}
                   errorMessage={error}
                   onExpand={handleExpand}
@@ -1332,6 +2633,10 @@ export function CreatePage() {
                   onPreviewInputImage={handlePreviewInputImage}
                   onDeleteGeneration={handleDeleteGeneration}
                   onRetryGeneration={handleRetryGeneration}
+                  onRetrySlot={handleRetrySlot}
+                  onCancelSlot={handleCancelSlot}
+                  onCancelGeneration={handleCancelGeneration}
+                  onContinueSession={handleContinueSession}
                   favorites={favorites}
                   onToggleFavorite={handleToggleFavorite}
                   onSaveToPrompts={handleSaveToPrompts}
@@ -1367,6 +2672,8 @@ export function CreatePage() {
             <Header
               prompt={prompt}
               aspect={aspect}
+              customSize={customSize}
+              customSizePresets={customSizePresets}
               quality={quality}
               outputFormat={outputFormat}
               provider={provider}
@@ -1375,24 +2682,59 @@ export function CreatePage() {
               imageCount={imageCount}
               apiKey={apiKey}
               geminiApiKeys={geminiApiKeys}
-              isBudgetLocked={false}
+              isBudgetLocked={isBudgetLocked}
+              budgetWarning={budgetWarning}
               isSettingsOpen={isSettingsOpen}
+              batchMode={isBatchSubmit}
+              serverJobs={serverJobs}
+              batchEstimate={batchEstimate}
+              matrixPreview={matrixPreview}
+              tokenEstimate={tokenEstimate}
+              isCountingTokens={isCountingTokens}
+              editSession={
+                activeEditSession
+                  ? {
+                      turn: (activeEditSession.parent.session?.turn ?? 1) + 1,
+                      imageUrl: activeEditSession.parent.images[activeEditSession.target.imageIndex],
+                    }
+                  : null
+              }
+              onEndEditSession={() => setEditSession(null)}
               onSubmit={handleSubmit}
               onPromptChange={setPrompt}
               onAspectSelect={handleAspectSelect}
-              onQualityChange={setQuality}
+              onCustomSizeChange={handleCustomSizeChange}
+              onSaveCustomSizePreset={handleSaveCustomSizePreset}
+              onDeleteCustomSizePreset={handleDeleteCustomSizePreset}
+              onQualityChange={handleQualityChange}
+              outputEncoding={outputEncoding}
+              onOutputEncodingChange={setOutputEncoding}
+              onRestoreRecipe={handleRestoreRecipe}
               onOutputFormatChange={setOutputFormat}
               onProviderChange={setProvider}
               onModelChange={setModel}
               onGoogleSearchChange={setGoogleSearch}
+              onBatchModeChange={setBatchMode}
+              onServerJobsChange={setServerJobs}
               onImageCountChange={setImageCount}
               onApiKeyChange={setApiKey}
               onGeminiApiKeysChange={setGeminiApiKeys}
+              providerSettings={providerSettings[provider] ?? {}}
+              generationParams={generationParams}
+              onProviderSettingsChange={(settings) =>
+                setProviderSettings((previous) => ({ ...previous, [provider]: settings }))
+              }
+              onGenerationParamsChange={setGenerationParams}
               onToggleSettings={setIsSettingsOpen}
               attachments={attachments}
               onAddAttachments={handleAddAttachments}
               onRemoveAttachment={handleRemoveAttachment}
               onPreviewAttachment={handlePreviewAttachment}
+              onExportBackup={handleExportBackup}
+              storagePolicy={storagePolicy}
+              onStoragePolicyChange={setStoragePolicy}
+              onApplyStoragePolicy={applyStoragePolicy}
+              onImportBackup={handleImportBackup}
               isAttachmentLimitReached={isAttachmentLimitReached}
               syncImages={syncImages}
               onSyncImagesChange={setSyncImages}
@@ -1416,6 +2758,9 @@ export function CreatePage() {
           canGoPrev={canGoPrev}
           canGoNext={canGoNext}
           onEdit={() => { void handleLightboxEdit(lightboxEntry); }}
+          onMarkupEdit={(markup) => { void handleLightboxMarkup(lightboxEntry, markup); }}
+          onExtendCanvas={(targetAspect, anchor) => { void handleExtendCanvas(lightboxEntry, targetAspect, anchor); }}
+          onContinueSession={() => handleStartEditSession(lightboxEntry.generationId, lightboxEntry.imageIndex)}
           currentIndex={lightboxIndex}
           totalCount={galleryEntries.length}
           isFavorite={favorites.has(`${lightboxEntry.generationId}:${lightboxEntry.imageIndex}`)}
@@ -0,0 +1,175 @@
+"use client";
+
+import {
+  MAX_CANDIDATE_COUNT,
+  SAFETY_CATEGORIES,
+  SAFETY_THRESHOLDS,
+  type GenerationParamKey,
+  type GenerationParams,
+  type SafetyCategory,
+  type SafetyThreshold,
+} from "../../lib/generation-params";
+
+type AdvancedParamsPanelProps = {
+  params: GenerationParams;
+  /** Parameters the selected provider and model honour; the others are shown disabled. */
+  supported: GenerationParamKey[];
+  providerLabel: string;
+  onChange: (params: GenerationParams) => void;
+};
+
+const FIELD_LABEL_CLASS = "block text-[10px] font-bold uppercase tracking-wider text-[var(--text-muted)]";
+const INPUT_CLASS =
+  "w-full rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-2.5 py-1.5 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-1 focus:ring-white/20 disabled:opacity-40 disabled:cursor-not-allowed";
+
+// An emptied field goes back to the provider default rather than to zero.
+function readNumber(value: string): number | undefined {
+  if (value.trim() === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function AdvancedParamsPanel({ params, supported, providerLabel, onChange }: AdvancedParamsPanelProps) {
+  const update = (patch: Partial<GenerationParams>) => {
+    const next: GenerationParams = { ...params, ...patch };
+    (Object.keys(next) as GenerationParamKey[]).forEach((key) => {
+      if (next[key] === undefined) {
+        delete next[key];
+      }
+    });
+    onChange(next);
+  };
+
+  const updateSafety = (category: SafetyCategory, threshold: SafetyThreshold | "") => {
+    const safetySettings = { ...params.safetySettings };
+    if (threshold) {
+      safetySettings[category] = threshold;
+    } else {
+      delete safetySettings[category];
+    }
+    update({ safetySettings: Object.keys(safetySettings).length > 0 ? safetySettings : undefined });
+  };
+
+  const isSupported = (key: GenerationParamKey) => supported.includes(key);
+  const hasValues = Object.keys(params).length > 0;
+
+  return (
+    <div className="flex flex-col gap-3 px-4 pb-3 animate-in fade-in slide-in-from-top-2 duration-300">
+      <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-wider text-[var(--text-muted)]">
+        <span>Advanced</span>
+        {hasValues ? (
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            className="transition-colors hover:text-[var(--text-primary)]"
+          >
+            Reset
+          </button>
+        ) : null}
+      </div>
+
+      {supported.length === 0 ? (
+        <p className="text-[11px] text-[var(--text-muted)]">{providerLabel} doesn&apos;t accept these settings; they are kept for other providers.</p>
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <label className="space-y-1">
+          <span className={FIELD_LABEL_CLASS}>Seed</span>
+          <div className="flex gap-1">
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={params.seed ?? ""}
+              placeholder="Random"
+              disabled={!isSupported("seed")}
+              onChange={(event) => update({ seed: readNumber(event.target.value) })}
+              className={INPUT_CLASS}
+            />
+            <button
+              type="button"
+              title="Pick a random seed"
+              disabled={!isSupported("seed")}
+              onClick={() => update({ seed: Math.floor(Math.random() * 2_147_483_647) })}
+              className="shrink-0 rounded-lg border border-[var(--border-subtle)] px-2 text-xs text-[var(--text-muted)] transition-colors hover:text-[var(--text-primary)] disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              ⟳
+            </button>
+          </div>
+        </label>
+
+        <label className="space-y-1">
+          <span className={FIELD_LABEL_CLASS}>Temperature</span>
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={params.temperature ?? ""}
+            placeholder="Default"
+            disabled={!isSupported("temperature")}
+            onChange={(event) => update({ temperature: readNumber(event.target.value) })}
+            className={INPUT_CLASS}
+          />
+        </label>
+
+        <label className="space-y-1">
+          <span className={FIELD_LABEL_CLASS}>Top P</span>
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={params.topP ?? ""}
+            placeholder="Default"
+            disabled={!isSupported("topP")}
+            onChange={(event) => update({ topP: readNumber(event.target.value) })}
+            className={INPUT_CLASS}
+          />
+        </label>
+
+        <label className="space-y-1">
+          <span className={FIELD_LABEL_CLASS} title="Images returned by a single call instead of one call per image">
+            Per call
+          </span>
+          <select
+            value={params.candidateCount ?? ""}
+            disabled={!isSupported("candidateCount")}
+            onChange={(event) => update({ candidateCount: readNumber(event.target.value) })}
+            className={INPUT_CLASS}
+          >
+            <option value="">1 (default)</option>
+            {Array.from({ length: MAX_CANDIDATE_COUNT - 1 }, (_, index) => index + 2).map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {SAFETY_CATEGORIES.map((category) => (
+          <label key={category.id} className="space-y-1">
+            <span className={FIELD_LABEL_CLASS}>{category.label}</span>
+            <select
+              value={params.safetySettings?.[category.id] ?? ""}
+              disabled={!isSupported("safetySettings")}
+              onChange={(event) => updateSafety(category.id, event.target.value as SafetyThreshold | "")}
+              className={INPUT_CLASS}
+            >
+              <option value="">Default</option>
+              {SAFETY_THRESHOLDS.map((threshold) => (
+                <option key={threshold.id} value={threshold.id}>
+                  {threshold.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
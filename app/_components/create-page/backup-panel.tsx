@@ -0,0 +1,155 @@
+"use client";
+
+import { useRef, useState, type ChangeEvent } from "react";
+import type { BackupImportReport, BackupProgress } from "./backup";
+
+type BackupPanelProps = {
+  /** `includeCredentials` adds the stored API keys, which are otherwise left out. */
+  onExport: (includeCredentials: boolean, onProgress: (progress: BackupProgress) => void) => Promise<void>;
+  onImport: (file: File, onProgress: (progress: BackupProgress) => void) => Promise<BackupImportReport>;
+};
+
+const MAX_LISTED_CONFLICTS = 5;
+
+export function BackupPanel({ onExport, onImport }: BackupPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState<"export" | "import" | null>(null);
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<BackupImportReport | null>(null);
+  const [includeCredentials, setIncludeCredentials] = useState(false);
+
+  const run = async (kind: "export" | "import", task: () => Promise<void>) => {
+    setBusy(kind);
+    setProgress(null);
+    setError(null);
+    setReport(null);
+    try {
+      await task();
+    } catch (taskError) {
+      console.error(`Backup ${kind} failed`, taskError);
+      setError(taskError instanceof Error ? taskError.message : `Backup ${kind} failed.`);
+    } finally {
+      setBusy(null);
+      setProgress(null);
+    }
+  };
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) {
+      void run("import", async () => setReport(await onImport(file, setProgress)));
+    }
+  };
+
+  const status = busy
+    ? `${busy === "export" ? "Exporting" : "Importing"}${progress ? ` ${progress.done}/${progress.total}` : ""}…`
+    : null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-[var(--border-subtle)] space-y-3">
+      <div className="flex flex-col">
+        <span className="block text-xs font-bold uppercase tracking-wider text-[var(--text-muted)]">Backup</span>
+        <span className="text-[10px] text-[var(--text-muted)]">
+          Every generation, image, favorite and setting in one file. Importing merges by generation.
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        <label className="flex items-center gap-2 cursor-pointer text-xs text-[var(--text-secondary)]">
+          <input
+            type="checkbox"
+            checked={includeCredentials}
+            onChange={(event) => setIncludeCredentials(event.target.checked)}
+            disabled={busy !== null}
+            className="accent-[var(--accent-primary)]"
+          />
+          Include API keys
+        </label>
+        {includeCredentials ? (
+          <p className="text-[10px] text-orange-400">
+            The keys are stored unencrypted; anyone with the file can use them. Keep it like a password.
+          </p>
+        ) : null}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => void run("export", () => onExport(includeCredentials, setProgress))}
+          disabled={busy !== null}
+          className="flex-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-3 py-2 text-xs font-medium text-[var(--text-secondary)] transition-all hover:border-[var(--text-muted)] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Export backup
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+          className="flex-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-3 py-2 text-xs font-medium text-[var(--text-secondary)] transition-all hover:border-[var(--text-muted)] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import backup
+        </button>
+        <input ref={fileInputRef} type="file" accept=".zip,application/zip" onChange={handleFile} className="hidden" />
+      </div>
+
+      {status ? <p className="text-[11px] text-[var(--text-muted)]">{status}</p> : null}
+      {error ? <p className="text-[11px] text-red-400">{error}</p> : null}
+
+      {report ? (
+        <div className="space-y-1.5 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-3 py-2 text-[11px] text-[var(--text-secondary)]">
+          <p>
+            Added {report.added} generation{report.added === 1 ? "" : "s"}
+            {report.unchanged > 0 ? `, ${report.unchanged} already here` : ""}
+            {report.favoritesAdded > 0 ? `, ${report.favoritesAdded} favorite${report.favoritesAdded === 1 ? "" : "s"}` : ""}.
+          </p>
+          {report.missingImages > 0 ? (
+            <p className="text-orange-400">
+              {report.missingImages} image{report.missingImages === 1 ? " was" : "s were"} missing from the backup.
+            </p>
+          ) : null}
+          {report.conflicts.length > 0 ? (
+            <div>
+              <p className="text-orange-400">
+                {report.conflicts.length} conflict{report.conflicts.length === 1 ? "" : "s"}: the same id differs here, so
+                the local copy was kept.
+              </p>
+              <ul className="mt-1 space-y-0.5 text-[var(--text-muted)]">
+                {report.conflicts.slice(0, MAX_LISTED_CONFLICTS).map((conflict) => (
+                  <li key={conflict.id} className="truncate" title={conflict.prompt}>
+                    {new Date(conflict.createdAt).toLocaleDateString()} · {conflict.prompt || conflict.id}
+                  </li>
+                ))}
+                {report.conflicts.length > MAX_LISTED_CONFLICTS ? (
+                  <li>and {report.conflicts.length - MAX_LISTED_CONFLICTS} more</li>
+                ) : null}
+              </ul>
+            </div>
+          ) : null}
+          {report.settingsKept.length > 0 ? (
+            <p className="text-[var(--text-muted)]">
+              Kept {report.settingsKept.length} setting{report.settingsKept.length === 1 ? "" : "s"} that differ in this
+              browser.
+            </p>
+          ) : null}
+          {report.settingsRestored.length > 0 ? (
+            <div className="flex items-center justify-between gap-2">
+              <span>
+                Restored {report.settingsRestored.length} setting{report.settingsRestored.length === 1 ? "" : "s"}; they
+                apply after a reload.
+              </span>
+              <button
+                type="button"
+                onClick={() => window.location.reload()}
+                className="shrink-0 font-bold text-[var(--accent-primary)] hover:underline"
+              >
+                Reload
+              </button>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { formatFromMimeType, getFileExtension } from "../../lib/image-conversion";
+import { readZipEntries, type ZipFileEntry } from "../../lib/zip-reader";
+import { createZipWriter, type ZipSink } from "../../lib/zip-writer";
+import { saveBlob } from "./download-image";
+import {
+  readStoredGenerations,
+  readStoredImage,
+  restoreFavorites,
+  storedImageKey,
+  storeImportedGeneration,
+} from "./storage";
+import type { Generation } from "./types";
+import { formatFilenameTimestamp } from "./utils";
+
+const BACKUP_FORMAT = "nano-banana-pro-backup";
+const BACKUP_VERSION = 1;
+const MANIFEST_PATH = "backup.json";
+
+/** `backup.json`: everything except the image bytes, which sit next to it in the archive. */
+type BackupManifest = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  /** As stored: images are `ref:` strings resolved through `blobs`. */
+  generations: Generation[];
+  favorites: string[];
+  /** localStorage values by key. */
+  settings: Record<string, string>;
+  blobs: { key: string; path: string; type: string; size: number }[];
+};
+
+export type BackupProgress = {
+  done: number;
+  total: number;
+};
+
+export type BackupImportReport = {
+  added: number;
+  /** Generations this browser already had, unchanged. */
+  unchanged: number;
+  /** Generations whose id exists here with a different prompt, date or images; the local copy was kept. */
+  conflicts: { id: string; prompt: string; createdAt: string }[];
+  /** Images the backup referenced but didn't contain. */
+  missingImages: number;
+  favoritesAdded: number;
+  settingsRestored: string[];
+  /** Settings set differently in this browser, which were left alone. */
+  settingsKept: string[];
+};
+
+export type BackupImportResult = {
+  report: BackupImportReport;
+  /** Newly added generations, hydrated and ready for app state. */
+  generations: Generation[];
+  favorites: string[];
+};
+
+type SaveFilePickerWindow = Window & {
+  showSaveFilePicker?: (options: {
+    suggestedName?: string;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }) => Promise<FileSystemFileHandle>;
+};
+
+/**
+ * Where the archive goes. Browsers with the File System Access API stream
+ * it straight to disk; elsewhere the parts (mostly blobs read from
+ * IndexedDB, which the browser keeps on disk) are assembled into one Blob.
+ */
+async function openSaveTarget(filename: string): Promise<{ sink: ZipSink; close: () => Promise<void>; abort: () => Promise<void> }> {
+  const pickerWindow = window as SaveFilePickerWindow;
+  if (pickerWindow.showSaveFilePicker) {
+    const handle = await pickerWindow.showSaveFilePicker({
+      suggestedName: filename,
+      types: [{ description: "Backup archive", accept: { "application/zip": [".zip"] } }],
+    });
+    const writable = await handle.createWritable();
+    return {
+      sink: (chunk) => writable.write(chunk),
+      close: () => writable.close(),
+      abort: () => writable.abort(),
+    };
+  }
+
+  const parts: BlobPart[] = [];
+  return {
+    sink: (chunk) => {
+      parts.push(chunk);
+    },
+    close: async () => saveBlob(new Blob(parts, { type: "application/zip" }), filename),
+    abort: async () => {
+      parts.length = 0;
+    },
+  };
+}
+
+function blobPath(key: string, type: string): string {
+  const format = formatFromMimeType(type);
+  const name = key
+    .split(":")
+    .map((part) => part.replace(/[^\w.-]+/g, "_"))
+    .join("/");
+  return `${name}.${format ? getFileExtension(format) : "bin"}`;
+}
+
+/** Matches generations across browsers without comparing image data or fields filled in on load. */
+function fingerprint(generation: Generation): string {
+  return JSON.stringify([
+    generation.prompt,
+    generation.createdAt,
+    generation.provider,
+    generation.model ?? null,
+    generation.images.map(Boolean),
+  ]);
+}
+
+function isStoredGeneration(value: unknown): value is Generation {
+  const candidate = value as Partial<Generation> | null;
+  return (
+    !!candidate &&
+    typeof candidate.id === "string" &&
+    typeof candidate.prompt === "string" &&
+    typeof candidate.createdAt === "string" &&
+    Array.isArray(candidate.images)
+  );
+}
+
+/**
+ * Writes every stored generation, image blob, favorite and the given
+ * localStorage settings into one versioned ZIP. Images are read and written
+ * one at a time, so a gallery of several GB never has to fit in memory.
+ * Resolves without writing anything if the save dialog is cancelled.
+ * Browser only.
+ */
+export async function exportBackup(
+  settingsKeys: readonly string[],
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<void> {
+  let target: Awaited<ReturnType<typeof openSaveTarget>>;
+  try {
+    // Ask for the destination first; the save dialog needs the click that started the export.
+    target = await openSaveTarget(`nano-banana-backup_${formatFilenameTimestamp()}.zip`);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return;
+    }
+    throw error;
+  }
+
+  try {
+    const [generations, favorites] = await Promise.all([readStoredGenerations(), restoreFavorites()]);
+    const settings: Record<string, string> = {};
+    settingsKeys.forEach((key) => {
+      const value = window.localStorage.getItem(key);
+      if (value !== null) {
+        settings[key] = value;
+      }
+    });
+
+    const keys = new Set<string>();
+    generations.forEach((generation) => {
+      [...generation.images, ...(generation.inputImages ?? []).map((image) => image.url)].forEach((value) => {
+        const key = storedImageKey(value);
+        if (key) {
+          keys.add(key);
+        }
+      });
+    });
+
+    const writer = createZipWriter(target.sink);
+    const blobs: BackupManifest["blobs"] = [];
+    let done = 0;
+    onProgress?.({ done, total: keys.size });
+    for (const key of keys) {
+      const blob = await readStoredImage(key);
+      if (blob) {
+        const path = blobPath(key, blob.type);
+        await writer.add({ path, data: blob });
+        blobs.push({ key, path, type: blob.type, size: blob.size });
+      }
+      done += 1;
+      onProgress?.({ done, total: keys.size });
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      generations,
+      favorites: Array.from(favorites),
+      settings,
+      blobs,
+    };
+    await writer.add({ path: MANIFEST_PATH, data: JSON.stringify(manifest) });
+    await writer.finish();
+    await target.close();
+  } catch (error) {
+    await target.abort().catch(() => undefined);
+    throw error;
+  }
+}
+
+async function readManifest(entries: ZipFileEntry[]): Promise<BackupManifest> {
+  const entry = entries.find((candidate) => candidate.path === MANIFEST_PATH);
+  if (!entry) {
+    throw new Error("This file is not a Nano Banana Pro backup.");
+  }
+
+  let manifest: Partial<BackupManifest>;
+  try {
+    manifest = JSON.parse(await (await entry.blob()).text()) as Partial<BackupManifest>;
+  } catch {
+    throw new Error("The backup's index is damaged.");
+  }
+  if (manifest.format !== BACKUP_FORMAT || typeof manifest.version !== "number") {
+    throw new Error("This file is not a Nano Banana Pro backup.");
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of the app; update before importing it.");
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: manifest.version,
+    createdAt: typeof manifest.createdAt === "string" ? manifest.createdAt : "",
+    generations: Array.isArray(manifest.generations) ? manifest.generations.filter(isStoredGeneration) : [],
+    favorites: Array.isArray(manifest.favorites)
+      ? manifest.favorites.filter((id): id is string => typeof id === "string")
+      : [],
+    settings: manifest.settings && typeof manifest.settings === "object" ? manifest.settings : {},
+    blobs: Array.isArray(manifest.blobs) ? manifest.blobs : [],
+  };
+}
+
+/**
+ * Merges a backup into this browser. Generations are matched by id: new ones
+ * are added with their images, while ids that already exist keep the local
+ * copy and are reported as unchanged or as a conflict. Favorites are merged,
+ * and settings are restored only where this browser has none. The archive is
+ * read through slices of the file, so large backups aren't loaded whole.
+ * Browser only.
+ */
+export async function importBackup(
+  file: Blob,
+  options: {
+    settingsKeys: readonly string[];
+    existing: Generation[];
+    favorites: Set<string>;
+    onProgress?: (progress: BackupProgress) => void;
+  },
+): Promise<BackupImportResult> {
+  const entries = await readZipEntries(file);
+  const manifest = await readManifest(entries);
+  const entriesByPath = new Map(entries.map((entry) => [entry.path, entry]));
+  const blobsByKey = new Map(manifest.blobs.map((blob) => [blob.key, blob]));
+  const existingById = new Map(options.existing.map((generation) => [generation.id, generation]));
+
+  const report: BackupImportReport = {
+    added: 0,
+    unchanged: 0,
+    conflicts: [],
+    missingImages: 0,
+    favoritesAdded: 0,
+    settingsRestored: [],
+    settingsKept: [],
+  };
+  const added: Generation[] = [];
+
+  const loadImage = async (key: string) => {
+    const blob = blobsByKey.get(key);
+    const entry = blob ? entriesByPath.get(blob.path) : undefined;
+    return entry && blob ? entry.blob(blob.type) : null;
+  };
+
+  options.onProgress?.({ done: 0, total: manifest.generations.length });
+  for (const [index, generation] of manifest.generations.entries()) {
+    const local = existingById.get(generation.id);
+    if (local) {
+      if (fingerprint(local) === fingerprint(generation)) {
+        report.unchanged += 1;
+      } else {
+        report.conflicts.push({ id: generation.id, prompt: generation.prompt, createdAt: generation.createdAt });
+      }
+    } else {
+      const stored = await storeImportedGeneration(generation, loadImage);
+      added.push(stored.generation);
+      existingById.set(generation.id, stored.generation);
+      report.missingImages += stored.missing;
+    }
+    options.onProgress?.({ done: index + 1, total: manifest.generations.length });
+  }
+  report.added = added.length;
+
+  // Favorites point at "generationId:imageIndex"; drop any whose generation isn't here.
+  const favorites = manifest.favorites.filter(
+    (id) => !options.favorites.has(id) && existingById.has(id.slice(0, id.lastIndexOf(":"))),
+  );
+  report.favoritesAdded = favorites.length;
+
+  const allowedKeys = new Set(options.settingsKeys);
+  Object.entries(manifest.settings).forEach(([key, value]) => {
+    if (!allowedKeys.has(key) || typeof value !== "string") {
+      return;
+    }
+    const current = window.localStorage.getItem(key);
+    if (current === null) {
+      try {
+        window.localStorage.setItem(key, value);
+        report.settingsRestored.push(key);
+      } catch (error) {
+        console.error(`Unable to restore ${key} from backup`, error);
+      }
+    } else if (current !== value) {
+      report.settingsKept.push(key);
+    }
+  });
+
+  return { report, generations: added, favorites };
+}
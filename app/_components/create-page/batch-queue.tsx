@@ -0,0 +1,95 @@
+"use client";
+
+import { getModelLabel, getQualityLabel } from "../../lib/seedream-options";
+import type { BatchJobState } from "../../lib/batch-api";
+import { RefreshIcon, SpinnerIcon } from "./icons";
+import type { BatchJob } from "./types";
+import { formatCents, formatDisplayDate } from "./utils";
+
+type BatchQueueProps = {
+  jobs: BatchJob[];
+  onDismiss: (jobId: string) => void;
+  onRefresh: () => void;
+};
+
+const STATE_STYLES: Record<BatchJobState, string> = {
+  PENDING: "border-[var(--border-subtle)] text-[var(--text-secondary)]",
+  RUNNING: "border-[var(--accent-primary)]/40 text-[var(--accent-primary)]",
+  SUCCEEDED: "border-green-900/50 text-green-400",
+  FAILED: "border-red-900/50 text-red-400",
+};
+
+export function BatchQueue({ jobs, onDismiss, onRefresh }: BatchQueueProps) {
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const totalSavingsCents = jobs
+    .filter((job) => job.state !== "FAILED")
+    .reduce((total, job) => total + job.estimatedSavingsCents, 0);
+
+  return (
+    <section className="rounded-xl border border-[var(--border-subtle)] bg-[var(--bg-panel)] p-4">
+      <div className="mb-3 flex items-center justify-between text-[10px] font-bold uppercase tracking-wider text-[var(--text-muted)]">
+        <span>Batch Jobs</span>
+        <div className="flex items-center gap-3">
+          <span className="text-green-400">Est. savings {formatCents(totalSavingsCents)}</span>
+          <button
+            type="button"
+            onClick={onRefresh}
+            title="Check status now"
+            className="text-[var(--text-muted)] transition-colors hover:text-[var(--text-primary)]"
+          >
+            <RefreshIcon className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <ul className="flex flex-col gap-2">
+        {jobs.map((job) => {
+          const isActive = job.state === "PENDING" || job.state === "RUNNING";
+          const imageCount = job.prompts.length * job.imagesPerPrompt;
+
+          return (
+            <li
+              key={job.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-3 py-2"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-xs text-[var(--text-primary)]">
+                  {job.prompts[0]}
+                  {job.prompts.length > 1 ? (
+                    <span className="text-[var(--text-muted)]"> +{job.prompts.length - 1} more</span>
+                  ) : null}
+                </p>
+                <p className="mt-0.5 text-[10px] text-[var(--text-muted)]">
+                  {getModelLabel(job.model)} · {getQualityLabel(job.quality)} · {imageCount}{" "}
+                  {imageCount === 1 ? "image" : "images"} · {formatCents(job.estimatedCostCents)} (saves{" "}
+                  {formatCents(job.estimatedSavingsCents)}) · {formatDisplayDate(job.createdAt)}
+                </p>
+                {job.error ? <p className="mt-1 text-[10px] text-red-400">{job.error}</p> : null}
+              </div>
+
+              <span
+                className={`flex shrink-0 items-center gap-1.5 rounded border px-2 py-0.5 text-[9px] font-bold uppercase tracking-wide ${STATE_STYLES[job.state]}`}
+              >
+                {isActive ? <SpinnerIcon className="h-2.5 w-2.5 animate-spin" /> : null}
+                {job.state}
+              </span>
+
+              {!isActive ? (
+                <button
+                  type="button"
+                  onClick={() => onDismiss(job.id)}
+                  className="shrink-0 text-[10px] font-bold uppercase tracking-wide text-[var(--text-muted)] transition-colors hover:text-[var(--text-primary)]"
+                >
+                  Dismiss
+                </button>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
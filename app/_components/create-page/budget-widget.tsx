@@ -1,17 +1,28 @@
 import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
+import {
+  BUDGET_PERIODS,
+  type Budget,
+  type BudgetEnforcement,
+  type BudgetPeriod,
+  type LedgerTotals,
+} from "./cost-ledger";
 
 type BudgetWidgetProps = {
-  budgetCents: number | null;
-  spentCents: number;
-  budgetRemainingCents: number | null;
+  budget: Budget | null;
+  /** Recorded spend per period, from the cost ledger. */
+  totals: LedgerTotals;
+  /** Estimated cost of the next run with the current settings. */
   batchCostCents: number;
   imagesPerBatch: number;
   isBudgetLocked: boolean;
-  onBudgetSave: (budgetCents: number) => void;
+  onBudgetSave: (budget: Budget) => void;
   onBudgetClear: () => void;
   onResetSpending: () => void;
 };
 
+const SELECT_CLASS =
+  "rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-2 py-2 text-xs text-white focus:border-[var(--accent-primary)] focus:outline-none focus:ring-1 focus:ring-[var(--accent-primary)]";
+
 function formatCents(amount: number): string {
   return `$${(amount / 100).toFixed(2)}`;
 }
@@ -33,9 +44,8 @@ function normalizeInput(value: string): string {
 }
 
 export function BudgetWidget({
-  budgetCents,
-  spentCents,
-  budgetRemainingCents,
+  budget,
+  totals,
   batchCostCents,
   imagesPerBatch,
   isBudgetLocked,
@@ -43,9 +53,15 @@ export function BudgetWidget({
   onBudgetClear,
   onResetSpending,
 }: BudgetWidgetProps) {
+  const budgetCents = budget?.limitCents ?? null;
+  const periodLabel = BUDGET_PERIODS.find((period) => period.id === (budget?.period ?? "total"))?.label ?? "Since reset";
+  const spentCents = totals[budget?.period ?? "total"];
+  const budgetRemainingCents = budgetCents !== null ? budgetCents - spentCents : null;
   const [inputValue, setInputValue] = useState(() =>
     budgetCents !== null ? (budgetCents / 100).toFixed(2) : "",
   );
+  const [periodValue, setPeriodValue] = useState<BudgetPeriod>(budget?.period ?? "month");
+  const [enforcementValue, setEnforcementValue] = useState<BudgetEnforcement>(budget?.enforcement ?? "block");
   const [formError, setFormError] = useState<string | null>(null);
   const [isOpen, setIsOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -54,7 +70,11 @@ export function BudgetWidget({
 
   useEffect(() => {
     setInputValue(budgetCents !== null ? (budgetCents / 100).toFixed(2) : "");
-  }, [budgetCents]);
+    if (budget) {
+      setPeriodValue(budget.period);
+      setEnforcementValue(budget.enforcement);
+    }
+  }, [budgetCents, budget]);
 
   useEffect(() => {
     if (!isOpen) {
@@ -151,7 +171,7 @@ export function BudgetWidget({
     }
 
     const cents = Math.round(parsed * 100);
-    onBudgetSave(cents);
+    onBudgetSave({ limitCents: cents, period: periodValue, enforcement: enforcementValue });
     setFormError(null);
   };
 
@@ -167,17 +187,14 @@ export function BudgetWidget({
     : "border-[var(--border-subtle)] bg-[var(--bg-panel)] text-[var(--text-secondary)] hover:border-[var(--text-muted)] hover:text-white shadow-md";
 
   return (
-    <aside
-      ref={containerRef}
-      className="pointer-events-auto fixed bottom-4 right-4 z-50 text-xs sm:top-6 sm:right-6 sm:bottom-auto"
-    >
-      <div className="flex flex-col items-end">
+    <aside ref={containerRef} className="pointer-events-auto relative z-50 text-xs">
+      <div className="flex flex-col items-start">
         <button
           ref={toggleButtonRef}
           type="button"
           aria-expanded={isOpen}
           onClick={() => setIsOpen((previous) => !previous)}
-          className={`flex items-center gap-2 rounded-full border px-4 py-2 text-[11px] font-semibold shadow-lg transition-all duration-200 ${buttonClass}`}
+          className={`flex items-center gap-2 whitespace-nowrap rounded-full border px-4 py-2 text-[11px] font-semibold shadow-lg transition-all duration-200 ${buttonClass}`}
         >
           <span className="uppercase tracking-wider opacity-80">Budget</span>
           <span className="font-bold">{collapsedSummary}</span>
@@ -189,7 +206,7 @@ export function BudgetWidget({
           <div
             ref={panelRef}
             role="dialog"
-            className={`glass-panel mt-3 w-full max-w-xs rounded-2xl border border-[var(--border-subtle)] p-5 shadow-2xl transition-all duration-200 sm:max-w-sm animate-in fade-in slide-in-from-top-2 ${
+            className={`glass-panel absolute left-0 top-full mt-3 w-72 rounded-2xl border border-[var(--border-subtle)] p-5 shadow-2xl transition-all duration-200 sm:w-80 animate-in fade-in slide-in-from-top-2 ${
               isBudgetLocked ? 'bg-red-950/90 border-red-900/50 shadow-red-900/20' : 'bg-[#0b0d14]'
             }`}
           >
@@ -217,7 +234,10 @@ export function BudgetWidget({
             
             <div className="mt-4 space-y-3 text-sm">
               <div className="flex items-baseline justify-between p-3 rounded-lg bg-[var(--bg-subtle)] border border-[var(--border-subtle)]">
-                <span className="text-[var(--text-secondary)]">Total Budget</span>
+                <span className="text-[var(--text-secondary)]">
+                  Budget{budget ? ` · ${periodLabel.toLowerCase()}` : ""}
+                  {budget?.enforcement === "warn" ? <span className="ml-1 text-[10px] text-[var(--text-muted)]">(warn only)</span> : null}
+                </span>
                 <span className="text-lg font-bold text-white tracking-tight">
                   {budgetLabel ?? "Not set"}
                 </span>
@@ -237,11 +257,20 @@ export function BudgetWidget({
               )}
               
               <div className="flex items-baseline justify-between px-2 text-[var(--text-secondary)]">
-                <span>Spent so far</span>
+                <span>Spent {periodLabel.toLowerCase()}</span>
                 <span className="text-sm font-medium text-[var(--text-primary)]">
                   {spentLabel} ({formatBatchLabel(completedRuns)})
                 </span>
               </div>
+
+              <dl className="grid grid-cols-4 gap-2 rounded-lg border border-[var(--border-subtle)] px-2 py-2 text-center">
+                {BUDGET_PERIODS.map((period) => (
+                  <div key={period.id}>
+                    <dt className="text-[9px] font-bold uppercase tracking-wider text-[var(--text-muted)]">{period.label}</dt>
+                    <dd className="mt-0.5 text-xs font-medium text-[var(--text-primary)]">{formatCents(Math.max(0, totals[period.id]))}</dd>
+                  </div>
+                ))}
+              </dl>
             </div>
 
             <form onSubmit={handleSubmit} className="mt-5 space-y-2 border-t border-[var(--border-subtle)] pt-4">
@@ -273,6 +302,28 @@ export function BudgetWidget({
                   Save
                 </button>
               </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={periodValue}
+                  onChange={(event) => setPeriodValue(event.target.value as BudgetPeriod)}
+                  aria-label="Budget period"
+                  className={`flex-1 ${SELECT_CLASS}`}
+                >
+                  <option value="day">Per day</option>
+                  <option value="week">Per week</option>
+                  <option value="month">Per month</option>
+                  <option value="total">Until reset</option>
+                </select>
+                <select
+                  value={enforcementValue}
+                  onChange={(event) => setEnforcementValue(event.target.value as BudgetEnforcement)}
+                  aria-label="When the budget runs out"
+                  className={`flex-1 ${SELECT_CLASS}`}
+                >
+                  <option value="block">Block runs</option>
+                  <option value="warn">Warn only</option>
+                </select>
+              </div>
               {formError ? (
                 <p className="text-[11px] text-red-400 font-medium animate-pulse">{formError}</p>
               ) : null}
@@ -282,7 +333,7 @@ export function BudgetWidget({
               <button
                 type="button"
                 onClick={onResetSpending}
-                disabled={spentCents === 0}
+                disabled={totals.total === 0}
                 className="rounded-md border border-[var(--border-subtle)] px-3 py-1.5 font-medium text-[var(--text-secondary)] transition-colors hover:border-[var(--text-muted)] hover:text-white hover:bg-[var(--bg-subtle)] disabled:cursor-not-allowed disabled:opacity-50"
               >
                 Reset spending
@@ -0,0 +1,213 @@
+import type { Generation } from "./types";
+
+export type BudgetPeriod = "day" | "week" | "month" | "total";
+/** Block stops new runs once the budget is spent; warn only says so. */
+export type BudgetEnforcement = "block" | "warn";
+
+export type Budget = {
+  limitCents: number;
+  period: BudgetPeriod;
+  enforcement: BudgetEnforcement;
+};
+
+export type LedgerEntry = {
+  /** The generation that was billed; a slot retry raises its existing entry. */
+  id: string;
+  at: string;
+  costCents: number;
+  provider: string;
+  model?: string;
+  quality: string;
+  images: number;
+};
+
+export type CostLedger = {
+  entries: LedgerEntry[];
+  /** Spend that aged out of `entries`; it still counts towards the running total. */
+  archivedCents: number;
+  /** When spending was last reset. Entries from before it are dropped when ledgers merge. */
+  since: string;
+};
+
+export type LedgerTotals = Record<BudgetPeriod, number>;
+
+export const BUDGET_PERIODS: { id: BudgetPeriod; label: string }[] = [
+  { id: "day", label: "Today" },
+  { id: "week", label: "This week" },
+  { id: "month", label: "This month" },
+  { id: "total", label: "Since reset" },
+];
+
+// Long enough to cover a calendar month; older entries collapse into `archivedCents`.
+const LEDGER_WINDOW_MS = 35 * 24 * 60 * 60 * 1000;
+
+export function createLedger(now: Date = new Date(), archivedCents = 0): CostLedger {
+  return { entries: [], archivedCents, since: now.toISOString() };
+}
+
+/** Local start of the period containing `now`; weeks start on Monday. Null for the running total. */
+export function periodStart(period: BudgetPeriod, now: Date): Date | null {
+  switch (period) {
+    case "day":
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    case "week": {
+      const daysSinceMonday = (now.getDay() + 6) % 7;
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysSinceMonday);
+    }
+    case "month":
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    default:
+      return null;
+  }
+}
+
+export function ledgerTotals(ledger: CostLedger, now: Date = new Date()): LedgerTotals {
+  const sumSince = (start: Date | null) =>
+    ledger.entries
+      .filter((entry) => !start || new Date(entry.at).getTime() >= start.getTime())
+      .reduce((total, entry) => total + entry.costCents, 0);
+
+  return {
+    day: sumSince(periodStart("day", now)),
+    week: sumSince(periodStart("week", now)),
+    month: sumSince(periodStart("month", now)),
+    total: ledger.archivedCents + sumSince(null),
+  };
+}
+
+function pruneLedger(ledger: CostLedger, now: Date): CostLedger {
+  const cutoff = now.getTime() - LEDGER_WINDOW_MS;
+  const expired = ledger.entries.filter((entry) => new Date(entry.at).getTime() < cutoff);
+  if (expired.length === 0) {
+    return ledger;
+  }
+  return {
+    ...ledger,
+    entries: ledger.entries.filter((entry) => new Date(entry.at).getTime() >= cutoff),
+    archivedCents: ledger.archivedCents + expired.reduce((total, entry) => total + entry.costCents, 0),
+  };
+}
+
+function chargeEntry(generation: Generation, costCents: number, images: number, at: string): LedgerEntry {
+  return {
+    id: generation.id,
+    at,
+    costCents,
+    provider: generation.provider,
+    ...(generation.model ? { model: generation.model } : {}),
+    quality: generation.quality,
+    images,
+  };
+}
+
+/**
+ * Records a run this device just finished, including images that came back
+ * before it was cancelled. Only call it where a run completes: generations
+ * imported from a backup or loaded from the cloud were paid for elsewhere.
+ * A generation already in the ledger is not counted again. Returns the same
+ * ledger when nothing changed.
+ */
+export function recordGeneration(ledger: CostLedger, generation: Generation, now: Date = new Date()): CostLedger {
+  if (
+    typeof generation.costCents !== "number" ||
+    generation.costCents <= 0 ||
+    ledger.entries.some((entry) => entry.id === generation.id)
+  ) {
+    return ledger;
+  }
+  const entry = chargeEntry(generation, generation.costCents, generation.images.filter(Boolean).length, now.toISOString());
+  return pruneLedger({ ...ledger, entries: [...ledger.entries, entry] }, now);
+}
+
+/**
+ * Adds the price of one retried image to its generation's entry. A
+ * generation with no entry (imported, synced, or already archived) gets one
+ * holding just this image.
+ */
+export function recordSlotRetry(
+  ledger: CostLedger,
+  generation: Generation,
+  costCents: number,
+  now: Date = new Date(),
+): CostLedger {
+  if (costCents <= 0) {
+    return ledger;
+  }
+  const existing = ledger.entries.find((entry) => entry.id === generation.id);
+  const entries = existing
+    ? ledger.entries.map((entry) =>
+        entry === existing ? { ...entry, costCents: entry.costCents + costCents, images: entry.images + 1 } : entry,
+      )
+    : [...ledger.entries, chargeEntry(generation, costCents, 1, now.toISOString())];
+  return pruneLedger({ ...ledger, entries }, now);
+}
+
+/** Combines the ledgers of two devices. The later reset wins; entries are merged by generation id. */
+export function mergeLedgers(local: CostLedger, remote: CostLedger): CostLedger {
+  const localSince = new Date(local.since).getTime();
+  const remoteSince = new Date(remote.since).getTime();
+  const since = localSince >= remoteSince ? local.since : remote.since;
+  const sinceTime = Math.max(localSince, remoteSince);
+
+  const entries = new Map<string, LedgerEntry>();
+  [...local.entries, ...remote.entries]
+    .filter((entry) => new Date(entry.at).getTime() >= sinceTime)
+    .forEach((entry) => {
+      const existing = entries.get(entry.id);
+      if (!existing || existing.costCents < entry.costCents) {
+        entries.set(entry.id, entry);
+      }
+    });
+
+  const archivedCents =
+    localSince === remoteSince
+      ? Math.max(local.archivedCents, remote.archivedCents)
+      : localSince > remoteSince
+        ? local.archivedCents
+        : remote.archivedCents;
+
+  return { entries: Array.from(entries.values()), archivedCents, since };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/** Reads a stored or synced budget, or null when it is missing or malformed. */
+export function normalizeBudget(value: unknown): Budget | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const candidate = value as Partial<Budget>;
+  if (!isFiniteNumber(candidate.limitCents) || candidate.limitCents < 0) {
+    return null;
+  }
+  return {
+    limitCents: Math.round(candidate.limitCents),
+    period: BUDGET_PERIODS.some((period) => period.id === candidate.period) ? (candidate.period as BudgetPeriod) : "total",
+    enforcement: candidate.enforcement === "warn" ? "warn" : "block",
+  };
+}
+
+/** Reads a stored or synced ledger, or null when it is missing or malformed. */
+export function normalizeLedger(value: unknown): CostLedger | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const candidate = value as Partial<CostLedger>;
+  if (typeof candidate.since !== "string" || !Array.isArray(candidate.entries)) {
+    return null;
+  }
+  const entries = candidate.entries.filter(
+    (entry): entry is LedgerEntry =>
+      Boolean(entry) &&
+      typeof entry.id === "string" &&
+      typeof entry.at === "string" &&
+      isFiniteNumber(entry.costCents),
+  );
+  return {
+    entries,
+    archivedCents: isFiniteNumber(candidate.archivedCents) ? candidate.archivedCents : 0,
+    since: candidate.since,
+  };
+}
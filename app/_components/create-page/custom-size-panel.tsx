@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  MAX_CUSTOM_DIMENSION,
+  MIN_CUSTOM_DIMENSION,
+  clampCustomDimension,
+  formatResolution,
+  getModelLabel,
+  getQualityForSize,
+  getQualityLabel,
+  isValidCustomSize,
+  snapAspectRatio,
+  snapSizeToModel,
+  type CustomSizePreset,
+  type ImageSize,
+  type ModelId,
+} from "../../lib/seedream-options";
+
+type CustomSizePanelProps = {
+  size: ImageSize;
+  model: ModelId;
+  presets: CustomSizePreset[];
+  onChange: (size: ImageSize) => void;
+  onSavePreset: (size: ImageSize) => void;
+  onDeletePreset: (presetId: string) => void;
+};
+
+const FIELD_LABEL_CLASS = "block text-[10px] font-bold uppercase tracking-wider text-[var(--text-muted)]";
+const INPUT_CLASS =
+  "w-full rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-2.5 py-1.5 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-1 focus:ring-white/20";
+
+export function CustomSizePanel({ size, model, presets, onChange, onSavePreset, onDeletePreset }: CustomSizePanelProps) {
+  // Drafts let a half-typed value (e.g. "19" on the way to "1920") sit in the field without being applied.
+  const [widthDraft, setWidthDraft] = useState(String(size.width));
+  const [heightDraft, setHeightDraft] = useState(String(size.height));
+  const [lockedRatio, setLockedRatio] = useState<number | null>(null);
+
+  useEffect(() => {
+    setWidthDraft(String(size.width));
+    setHeightDraft(String(size.height));
+  }, [size.width, size.height]);
+
+  const updateDimension = (dimension: "width" | "height", raw: string) => {
+    const value = Number(raw);
+    const other = dimension === "width" ? "height" : "width";
+    const next: ImageSize = { ...size, [dimension]: value };
+    if (lockedRatio && Number.isFinite(value) && value > 0) {
+      next[other] = clampCustomDimension(dimension === "width" ? value / lockedRatio : value * lockedRatio);
+    }
+
+    if (dimension === "width") {
+      setWidthDraft(raw);
+      setHeightDraft(String(next.height));
+    } else {
+      setHeightDraft(raw);
+      setWidthDraft(String(next.width));
+    }
+
+    if (isValidCustomSize(next)) {
+      onChange(next);
+    }
+  };
+
+  // Out-of-range values snap back into range once the field loses focus.
+  const commitDraft = (dimension: "width" | "height") => {
+    const value = Number(dimension === "width" ? widthDraft : heightDraft);
+    const fixed = Number.isFinite(value) && value > 0 ? clampCustomDimension(value) : size[dimension];
+    updateDimension(dimension, String(fixed));
+  };
+
+  const ratio = snapAspectRatio(size, model);
+  const snapped = snapSizeToModel(size, model);
+  const isExact = snapped.width === size.width && snapped.height === size.height;
+  const isSaved = presets.some((preset) => preset.width === size.width && preset.height === size.height);
+
+  return (
+    <div className="flex flex-col gap-3 px-4 pb-3 animate-in fade-in slide-in-from-top-2 duration-300">
+      <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-wider text-[var(--text-muted)]">
+        <span>Custom size</span>
+        <button
+          type="button"
+          onClick={() => onSavePreset(size)}
+          disabled={isSaved}
+          className="transition-colors hover:text-[var(--text-primary)] disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isSaved ? "Saved" : "Save preset"}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="w-28 space-y-1">
+          <span className={FIELD_LABEL_CLASS}>Width</span>
+          <input
+            type="number"
+            min={MIN_CUSTOM_DIMENSION}
+            max={MAX_CUSTOM_DIMENSION}
+            step={1}
+            value={widthDraft}
+            onChange={(event) => updateDimension("width", event.target.value)}
+            onBlur={() => commitDraft("width")}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <button
+          type="button"
+          aria-pressed={lockedRatio !== null}
+          onClick={() => setLockedRatio((current) => (current === null ? size.width / size.height : null))}
+          title={lockedRatio !== null ? "Unlock the ratio" : "Lock the ratio while editing"}
+          className={`mb-0.5 rounded-lg border px-2 py-1.5 text-[10px] font-bold uppercase tracking-wide transition-colors ${
+            lockedRatio !== null
+              ? "border-[var(--accent-primary)]/40 text-[var(--accent-primary)]"
+              : "border-[var(--border-subtle)] text-[var(--text-muted)] hover:text-[var(--text-primary)]"
+          }`}
+        >
+          {lockedRatio !== null ? "Locked" : "Lock"}
+        </button>
+        <label className="w-28 space-y-1">
+          <span className={FIELD_LABEL_CLASS}>Height</span>
+          <input
+            type="number"
+            min={MIN_CUSTOM_DIMENSION}
+            max={MAX_CUSTOM_DIMENSION}
+            step={1}
+            value={heightDraft}
+            onChange={(event) => updateDimension("height", event.target.value)}
+            onBlur={() => commitDraft("height")}
+            className={INPUT_CLASS}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-[11px] text-[var(--text-muted)]">
+        <span>
+          {getModelLabel(model)} renders this as {ratio} at {getQualityLabel(getQualityForSize(size))}.
+        </span>
+        {isExact ? null : (
+          <button
+            type="button"
+            onClick={() => onChange(snapped)}
+            title={`Change the size to ${formatResolution(snapped)} so it matches ${ratio} exactly`}
+            className="rounded-md border border-[var(--border-subtle)] px-2 py-0.5 text-[10px] font-bold uppercase tracking-wide transition-colors hover:text-[var(--text-primary)]"
+          >
+            Snap to {ratio}
+          </button>
+        )}
+      </div>
+
+      {presets.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {presets.map((preset) => (
+            <span
+              key={preset.id}
+              className="flex items-center overflow-hidden rounded-md border border-[var(--border-subtle)] text-[10px] font-semibold text-[var(--text-secondary)]"
+            >
+              <button
+                type="button"
+                onClick={() => onChange({ width: preset.width, height: preset.height })}
+                className="px-2 py-1 transition-colors hover:bg-[var(--bg-input)] hover:text-[var(--text-primary)]"
+              >
+                {formatResolution(preset)}
+              </button>
+              <button
+                type="button"
+                aria-label={`Delete preset ${formatResolution(preset)}`}
+                onClick={() => onDeletePreset(preset.id)}
+                className="border-l border-[var(--border-subtle)] px-1.5 py-1 text-[var(--text-muted)] transition-colors hover:text-red-400"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { formatFromMimeType, getFileExtension } from "../../lib/image-conversion";
+import { embedRecipe, type GenerationRecipe } from "../../lib/image-metadata";
+import type { OutputFormat } from "../../lib/seedream-options";
+import { generateSmartFilename } from "./utils";
+
+/**
+ * Saves an image under a name built from its prompt, with the recipe that
+ * made it embedded so the file can restore its settings when dropped back in.
+ */
+export async function downloadImage(
+  src: string,
+  prompt: string,
+  fallbackFormat: OutputFormat,
+  recipe?: GenerationRecipe,
+): Promise<void> {
+  const response = await fetch(src, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Download failed (${response.status})`);
+  }
+
+  const fetched = await response.blob();
+  const blob = recipe ? await embedRecipe(fetched, recipe) : fetched;
+  // Name the file after the bytes it holds, not the format that was asked for.
+  saveBlob(blob, generateSmartFilename(prompt, getFileExtension(formatFromMimeType(blob.type) ?? fallbackFormat)));
+}
+
+/** Hands a blob to the browser as a file download. */
+export function saveBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
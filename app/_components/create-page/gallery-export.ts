@@ -0,0 +1,209 @@
+import { formatFromMimeType, getFileExtension, type ImageFileInfo } from "../../lib/image-conversion";
+import { embedRecipe, recipeFromGeneration, type GenerationRecipe } from "../../lib/image-metadata";
+import { loadRemoteImageViaProxy } from "../../lib/reference-images";
+import { createZip, type ZipEntry } from "../../lib/zip-writer";
+import { saveBlob } from "./download-image";
+import type { Generation } from "./types";
+import { extractKeywords, formatFilenameTimestamp } from "./utils";
+
+/** What an export covers; the kind and label are recorded in the manifest. */
+export type GalleryExportScope = {
+  kind: "selection" | "favorites" | "date" | "all";
+  label: string;
+};
+
+export type GalleryExportItem = {
+  generation: Generation;
+  imageIndex: number;
+};
+
+export type GalleryExportProgress = {
+  done: number;
+  total: number;
+};
+
+/** A reference image as recorded in a sidecar. `file` is null when it couldn't be fetched. */
+type ReferenceRecord = {
+  name: string;
+  file: string | null;
+  width?: number | null;
+  height?: number | null;
+  /** The original link for references that came from the web. */
+  url?: string;
+  error?: string;
+};
+
+type ImageSidecar = {
+  image: string;
+  imageIndex: number;
+  favorite: boolean;
+  file: ImageFileInfo | null;
+  recipe: GenerationRecipe;
+  /** The generation as stored, with image data replaced by the files in this archive. */
+  generation: Omit<Generation, "images" | "inputImages"> & { imageCount: number; references: ReferenceRecord[] };
+};
+
+const MANIFEST_VERSION = 1;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function extensionFor(blob: Blob, fallback: string): string {
+  const format = formatFromMimeType(blob.type);
+  if (format) {
+    return getFileExtension(format);
+  }
+  const subtype = blob.type.split("/")[1]?.replace(/[^a-z0-9]/gi, "");
+  return subtype || fallback;
+}
+
+async function fetchBlob(url: string): Promise<Blob> {
+  // Web references go through the proxy; a direct fetch would usually be blocked by CORS.
+  const source = /^https?:\/\//i.test(url) ? await loadRemoteImageViaProxy(url) : url;
+  const response = await fetch(source, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Fetch failed (${response.status})`);
+  }
+  return response.blob();
+}
+
+/** Names an image after its prompt and creation time, numbering repeats so no two entries collide. */
+function uniqueBaseName(item: GalleryExportItem, used: Set<string>): string {
+  const keywords = extractKeywords(item.generation.prompt, 3);
+  const stem = [
+    ...(keywords.length > 0 ? keywords : ["image"]),
+    formatFilenameTimestamp(new Date(item.generation.createdAt)),
+    String(item.imageIndex + 1),
+  ].join("_");
+
+  let name = stem;
+  for (let copy = 2; used.has(name); copy += 1) {
+    name = `${stem}-${copy}`;
+  }
+  used.add(name);
+  return name;
+}
+
+async function collectReferences(generation: Generation, entries: ZipEntry[]): Promise<ReferenceRecord[]> {
+  const modifiedAt = new Date(generation.createdAt);
+  return Promise.all(
+    (generation.inputImages ?? []).map(async (image, index) => {
+      const record: ReferenceRecord = {
+        name: image.name,
+        file: null,
+        ...(image.width ? { width: image.width, height: image.height } : {}),
+        ...(/^https?:\/\//i.test(image.url) ? { url: image.url } : {}),
+      };
+      try {
+        const blob = await fetchBlob(image.url);
+        record.file = `references/${generation.id}/${index + 1}.${extensionFor(blob, "bin")}`;
+        entries.push({ path: record.file, data: blob, modifiedAt });
+      } catch (error) {
+        record.error = errorMessage(error);
+      }
+      return record;
+    }),
+  );
+}
+
+function archiveName(scope: GalleryExportScope): string {
+  const slug = scope.label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `nano-banana-${slug || scope.kind}_${formatFilenameTimestamp()}.zip`;
+}
+
+/**
+ * Packs gallery images into a ZIP and downloads it. Each image is stored
+ * with its recipe embedded, next to a JSON sidecar holding the generation's
+ * metadata; reference images are stored once per generation, and a
+ * manifest lists every entry. Images that can't be read are listed in the
+ * manifest instead of failing the whole export. Browser only.
+ */
+export async function exportGalleryArchive(
+  items: GalleryExportItem[],
+  scope: GalleryExportScope,
+  favorites: Set<string>,
+  onProgress?: (progress: GalleryExportProgress) => void,
+): Promise<void> {
+  const exportable = items.filter((item) => item.generation.images[item.imageIndex]);
+  if (exportable.length === 0) {
+    throw new Error("There are no finished images to export.");
+  }
+
+  const entries: ZipEntry[] = [];
+  const usedNames = new Set<string>();
+  const references = new Map<string, ReferenceRecord[]>();
+  const manifestItems: Record<string, unknown>[] = [];
+  const skipped: { generationId: string; imageIndex: number; error: string }[] = [];
+
+  for (const [position, item] of exportable.entries()) {
+    const { generation, imageIndex } = item;
+    onProgress?.({ done: position, total: exportable.length });
+
+    try {
+      const recipe = recipeFromGeneration(generation);
+      const blob = await embedRecipe(await fetchBlob(generation.images[imageIndex]), recipe);
+      const baseName = uniqueBaseName(item, usedNames);
+      const imagePath = `images/${baseName}.${extensionFor(blob, getFileExtension(generation.outputFormat))}`;
+      const sidecarPath = `images/${baseName}.json`;
+      const modifiedAt = new Date(generation.createdAt);
+
+      let generationReferences = references.get(generation.id);
+      if (!generationReferences) {
+        generationReferences = await collectReferences(generation, entries);
+        references.set(generation.id, generationReferences);
+      }
+
+      const format = formatFromMimeType(blob.type);
+      const sidecar: ImageSidecar = {
+        image: imagePath,
+        imageIndex,
+        favorite: favorites.has(`${generation.id}:${imageIndex}`),
+        file: format ? { format, bytes: blob.size } : null,
+        recipe,
+        // JSON.stringify drops the undefined keys, so image data never lands in the sidecar.
+        generation: {
+          ...generation,
+          images: undefined,
+          inputImages: undefined,
+          imageCount: generation.images.length,
+          references: generationReferences,
+        } as ImageSidecar["generation"],
+      };
+
+      entries.push(
+        { path: imagePath, data: blob, modifiedAt },
+        { path: sidecarPath, data: JSON.stringify(sidecar, null, 2), modifiedAt },
+      );
+      manifestItems.push({
+        image: imagePath,
+        sidecar: sidecarPath,
+        generationId: generation.id,
+        imageIndex,
+        prompt: generation.prompt,
+        createdAt: generation.createdAt,
+      });
+    } catch (error) {
+      console.error("Failed to add image to export", error);
+      skipped.push({ generationId: generation.id, imageIndex, error: errorMessage(error) });
+    }
+  }
+
+  if (manifestItems.length === 0) {
+    throw new Error("None of the images could be read for export.");
+  }
+  onProgress?.({ done: exportable.length, total: exportable.length });
+
+  const manifest = {
+    version: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    scope: scope.kind,
+    label: scope.label,
+    imageCount: manifestItems.length,
+    items: manifestItems,
+    ...(skipped.length > 0 ? { skipped } : {}),
+  };
+  // The manifest goes first so tools that stream the archive see it before the images.
+  const archive = await createZip([{ path: "manifest.json", data: JSON.stringify(manifest, null, 2) }, ...entries]);
+  saveBlob(archive, archiveName(scope));
+}
@@ -2,17 +2,28 @@
 
 import Image from "next/image";
 import { useCallback, useMemo, useState } from "react";
+
+import { recipeFromGeneration, type GenerationRecipe } from "../../lib/image-metadata";
+import type { OutputFormat } from "../../lib/seedream-options";
 import { MagnifyingGlassIcon, HeartIcon, HeartFilledIcon } from "./icons";
+import { downloadImage } from "./download-image";
+import {
+  exportGalleryArchive,
+  type GalleryExportItem,
+  type GalleryExportProgress,
+  type GalleryExportScope,
+} from "./gallery-export";
+import { MatrixGrid } from "./matrix-grid";
 import { QuickActionsOverlay } from "./quick-actions-overlay";
-import type { Generation } from "./types";
-import { generateSmartFilename } from "./utils";
+import type { Generation, GenerationMatrix } from "./types";
+import { groupByDate } from "./utils";
 
 type GalleryViewProps = {
   generations: Generation[];
   onExpand: (generationId: string, imageIndex: number) => void;
   favorites?: Set<string>;
   onToggleFavorite?: (generationId: string, imageIndex: number) => void;
-  onUsePrompt?: (prompt: string, inputImages: Generation["inputImages"]) => void;
+  onUsePrompt?: (prompt: string, inputImages: Generation["inputImages"], params?: Generation["params"]) => void;
   onSaveToPrompts?: (content: string, attachments?: { url: string; type: "image"; name: string }[]) => void;
 };
 
@@ -26,7 +37,13 @@ export function GalleryView({
 }: GalleryViewProps) {
   const [search, setSearch] = useState("");
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [showMatrices, setShowMatrices] = useState(false);
   const [hoveredItem, setHoveredItem] = useState<string | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  // Same "generationId:imageIndex" keys as favorites.
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [exportProgress, setExportProgress] = useState<GalleryExportProgress | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   // Flatten all images into a single list for the grid
   const allImages = useMemo(() => {
@@ -39,7 +56,9 @@ export function GalleryView({
         aspect: gen.aspect,
         createdAt: gen.createdAt,
         inputImages: gen.inputImages || [],
+        params: gen.params,
         outputFormat: gen.outputFormat || "png",
+        recipe: recipeFromGeneration(gen),
       }))
     );
   }, [generations]);
@@ -65,10 +84,108 @@ export function GalleryView({
     return filtered;
   }, [allImages, search, showFavoritesOnly, favorites]);
 
+  // Matrix runs in order of their newest cell, each with its cells newest first.
+  const matrices = useMemo(() => {
+    const groups = new Map<string, { matrix: GenerationMatrix; generations: Generation[] }>();
+    generations.forEach((generation) => {
+      if (!generation.matrix) {
+        return;
+      }
+      const group = groups.get(generation.matrix.id);
+      if (group) {
+        group.generations.push(generation);
+      } else {
+        groups.set(generation.matrix.id, { matrix: generation.matrix, generations: [generation] });
+      }
+    });
+    return Array.from(groups.values());
+  }, [generations]);
+
+  const filteredMatrices = useMemo(() => {
+    const lowerSearch = search.trim().toLowerCase();
+    return lowerSearch
+      ? matrices.filter((group) => group.matrix.template.toLowerCase().includes(lowerSearch))
+      : matrices;
+  }, [matrices, search]);
+
   const favoritesCount = useMemo(() => {
     return allImages.filter((img) => favorites.has(`${img.id}:${img.index}`)).length;
   }, [allImages, favorites]);
 
+  // Days with at least one finished image, newest first, for "export a session".
+  const dateGroups = useMemo(() => {
+    return groupByDate(generations)
+      .map((group) => ({
+        key: group.key,
+        label: group.label,
+        count: group.items.reduce((total, gen) => total + gen.images.filter(Boolean).length, 0),
+      }))
+      .filter((group) => group.count > 0);
+  }, [generations]);
+
+  const exportableCount = useMemo(() => allImages.filter((img) => img.src).length, [allImages]);
+  // Counted against the current images so keys of deleted generations don't inflate it.
+  const selectedCount = useMemo(
+    () => allImages.filter((img) => img.src && selected.has(`${img.id}:${img.index}`)).length,
+    [allImages, selected],
+  );
+
+  const toggleSelected = useCallback((key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleExport = useCallback(
+    async (choice: string) => {
+      const collect = (include: (generation: Generation, imageIndex: number) => boolean): GalleryExportItem[] =>
+        generations.flatMap((generation) =>
+          generation.images.flatMap((src, imageIndex) =>
+            src && include(generation, imageIndex) ? [{ generation, imageIndex }] : [],
+          ),
+        );
+
+      let scope: GalleryExportScope;
+      let items: GalleryExportItem[];
+      if (choice === "selection") {
+        scope = { kind: "selection", label: "Selection" };
+        items = collect((generation, index) => selected.has(`${generation.id}:${index}`));
+      } else if (choice === "favorites") {
+        scope = { kind: "favorites", label: "Favorites" };
+        items = collect((generation, index) => favorites.has(`${generation.id}:${index}`));
+      } else if (choice.startsWith("date:")) {
+        const group = groupByDate(generations).find((entry) => entry.key === choice.slice("date:".length));
+        if (!group) {
+          return;
+        }
+        const ids = new Set(group.items.map((generation) => generation.id));
+        scope = { kind: "date", label: group.key };
+        items = collect((generation) => ids.has(generation.id));
+      } else {
+        scope = { kind: "all", label: "Gallery" };
+        items = collect(() => true);
+      }
+
+      setExportError(null);
+      setExportProgress({ done: 0, total: items.length });
+      try {
+        await exportGalleryArchive(items, scope, favorites, setExportProgress);
+      } catch (error) {
+        console.error("Failed to export gallery", error);
+        setExportError(error instanceof Error ? error.message : "Export failed.");
+      } finally {
+        setExportProgress(null);
+      }
+    },
+    [generations, selected, favorites],
+  );
+
   const handleCopyPrompt = useCallback(async (prompt: string) => {
     try {
       await navigator.clipboard.writeText(prompt);
@@ -77,22 +194,9 @@ export function GalleryView({
     }
   }, []);
 
-  const handleDownload = useCallback(async (src: string, prompt: string, outputFormat: string) => {
+  const handleDownload = useCallback(async (src: string, prompt: string, outputFormat: OutputFormat, recipe: GenerationRecipe) => {
     try {
-      const response = await fetch(src, { cache: "no-store" });
-      if (!response.ok) {
-        throw new Error(`Download failed (${response.status})`);
-      }
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      const extension = outputFormat === "jpeg" ? "jpg" : outputFormat;
-      link.href = url;
-      link.download = generateSmartFilename(prompt, extension);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      await downloadImage(src, prompt, outputFormat, recipe);
     } catch (error) {
       console.error("Failed to download image", error);
     }
@@ -101,7 +205,7 @@ export function GalleryView({
   return (
     <div className="w-full max-w-[1600px] mx-auto flex flex-col gap-6 animate-in fade-in duration-500">
       {/* Search and Filter Bar */}
-      <div className="flex flex-col sm:flex-row items-center gap-4 max-w-2xl mx-auto w-full">
+      <div className="flex flex-col sm:flex-row items-center gap-4 max-w-3xl mx-auto w-full">
         {/* Search Input */}
         <div className="relative flex-1 w-full">
           <div className="pointer-events-none absolute left-4 top-1/2 -translate-y-1/2 text-[var(--text-muted)]">
@@ -119,7 +223,10 @@ export function GalleryView({
         {/* Favorites Filter Toggle */}
         <button
           type="button"
-          onClick={() => setShowFavoritesOnly((prev) => !prev)}
+          onClick={() => {
+            setShowFavoritesOnly((prev) => !prev);
+            setShowMatrices(false);
+          }}
           className={`flex items-center gap-2 rounded-full px-4 py-3 text-sm font-semibold border transition-all ${showFavoritesOnly
             ? "bg-[#ff4757] border-[#ff4757] text-white"
             : "bg-[var(--bg-input)] border-[var(--border-subtle)] text-[var(--text-secondary)] hover:text-white hover:border-[var(--text-muted)]"
@@ -138,25 +245,144 @@ export function GalleryView({
             </span>
           )}
         </button>
+
+        {/* Matrix Runs Toggle */}
+        {matrices.length > 0 && (
+          <button
+            type="button"
+            onClick={() => {
+              setShowMatrices((prev) => !prev);
+              setShowFavoritesOnly(false);
+            }}
+            className={`flex items-center gap-2 rounded-full px-4 py-3 text-sm font-semibold border transition-all ${showMatrices
+              ? "bg-[var(--accent-primary)] border-[var(--accent-primary)] text-[var(--accent-primary-text)]"
+              : "bg-[var(--bg-input)] border-[var(--border-subtle)] text-[var(--text-secondary)] hover:text-white hover:border-[var(--text-muted)]"
+              }`}
+            title={showMatrices ? "Show all images" : "Show permutation runs as labelled grids"}
+          >
+            <span>Matrices</span>
+            <span className={`text-xs px-1.5 py-0.5 rounded-full ${showMatrices ? "bg-black/20" : "bg-[var(--bg-subtle)]"}`}>
+              {matrices.length}
+            </span>
+          </button>
+        )}
+
+        {/* Selection Mode Toggle */}
+        <button
+          type="button"
+          onClick={() => {
+            setIsSelecting((prev) => !prev);
+            setShowMatrices(false);
+          }}
+          className={`flex items-center gap-2 rounded-full px-4 py-3 text-sm font-semibold border transition-all ${isSelecting
+            ? "bg-[var(--accent-primary)] border-[var(--accent-primary)] text-[var(--accent-primary-text)]"
+            : "bg-[var(--bg-input)] border-[var(--border-subtle)] text-[var(--text-secondary)] hover:text-white hover:border-[var(--text-muted)]"
+            }`}
+          title={isSelecting ? "Stop selecting; clicks open images again" : "Pick images to export"}
+        >
+          <span>Select</span>
+          {selectedCount > 0 && (
+            <span className={`text-xs px-1.5 py-0.5 rounded-full ${isSelecting ? "bg-black/20" : "bg-[var(--bg-subtle)]"}`}>
+              {selectedCount}
+            </span>
+          )}
+        </button>
+
+        {/* ZIP Export */}
+        <select
+          value=""
+          disabled={exportProgress !== null || exportableCount === 0}
+          onChange={(event) => void handleExport(event.target.value)}
+          aria-label="Export images as a ZIP archive"
+          className="rounded-full px-4 py-3 text-sm font-semibold border bg-[var(--bg-input)] border-[var(--border-subtle)] text-[var(--text-secondary)] hover:text-white hover:border-[var(--text-muted)] focus:outline-none transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <option value="" disabled>
+            {exportProgress ? `Exporting ${exportProgress.done}/${exportProgress.total}…` : "Export ZIP"}
+          </option>
+          <option value="selection" disabled={selectedCount === 0}>
+            Selected ({selectedCount})
+          </option>
+          <option value="favorites" disabled={favoritesCount === 0}>
+            Favorites ({favoritesCount})
+          </option>
+          {dateGroups.length > 0 && (
+            <optgroup label="By day">
+              {dateGroups.map((group) => (
+                <option key={group.key} value={`date:${group.key}`}>
+                  {group.label} ({group.count})
+                </option>
+              ))}
+            </optgroup>
+          )}
+          <option value="all">Everything ({exportableCount})</option>
+        </select>
       </div>
 
+      {(isSelecting || exportError) && (
+        <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-[var(--text-muted)]">
+          {isSelecting && (
+            <>
+              <span>{selectedCount} selected · click images to add or remove them</span>
+              <button
+                type="button"
+                onClick={() =>
+                  setSelected((prev) => {
+                    const next = new Set(prev);
+                    filteredImages.forEach((img) => img.src && next.add(`${img.id}:${img.index}`));
+                    return next;
+                  })
+                }
+                className="text-[var(--accent-primary)] hover:underline"
+              >
+                Select all shown
+              </button>
+              {selectedCount > 0 && (
+                <button type="button" onClick={() => setSelected(new Set())} className="hover:text-[var(--text-primary)] hover:underline">
+                  Clear
+                </button>
+              )}
+            </>
+          )}
+          {exportError && <span className="text-red-400">Export failed: {exportError}</span>}
+        </div>
+      )}
+
       {/* Grid */}
-      {filteredImages.length > 0 ? (
+      {showMatrices ? (
+        filteredMatrices.length > 0 ? (
+          <div className="flex flex-col gap-10">
+            {filteredMatrices.map((group) => (
+              <MatrixGrid
+                key={group.matrix.id}
+                matrix={group.matrix}
+                generations={group.generations}
+                onExpand={onExpand}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-20 text-center text-[var(--text-muted)]">
+            <p>No matrix runs found.</p>
+          </div>
+        )
+      ) : filteredImages.length > 0 ? (
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-1">
           {filteredImages.map((item) => {
             const itemKey = `${item.id}-${item.index}`;
             const favoriteId = `${item.id}:${item.index}`;
             const isFavorite = favorites.has(favoriteId);
             const isHovered = hoveredItem === itemKey;
+            const isSelected = selected.has(favoriteId);
 
             return (
               <button
                 key={itemKey}
                 type="button"
-                onClick={() => onExpand(item.id, item.index)}
+                onClick={() => (isSelecting ? toggleSelected(favoriteId) : onExpand(item.id, item.index))}
                 onMouseEnter={() => setHoveredItem(itemKey)}
                 onMouseLeave={() => setHoveredItem(null)}
-                className="group relative aspect-square w-full overflow-hidden bg-[var(--bg-subtle)] focus:outline-none"
+                aria-pressed={isSelecting ? isSelected : undefined}
+                className={`group relative aspect-square w-full overflow-hidden bg-[var(--bg-subtle)] focus:outline-none ${isSelected ? "ring-2 ring-inset ring-[var(--accent-primary)]" : ""}`}
               >
                 <Image
                   src={item.src}
@@ -172,15 +398,26 @@ export function GalleryView({
                     <HeartFilledIcon className="h-5 w-5 text-[#ff4757] drop-shadow-lg" />
                   </div>
                 )}
+                {/* Selection Check */}
+                {isSelecting && (
+                  <div
+                    className={`absolute top-2 left-2 z-10 flex h-5 w-5 items-center justify-center rounded-full border-2 text-[11px] font-bold ${isSelected
+                      ? "border-[var(--accent-primary)] bg-[var(--accent-primary)] text-[var(--accent-primary-text)]"
+                      : "border-white/80 bg-black/30"
+                      }`}
+                  >
+                    {isSelected ? "✓" : null}
+                  </div>
+                )}
                 {/* Quick Actions Overlay */}
-                {onToggleFavorite && (
+                {onToggleFavorite && !isSelecting && (
                   <QuickActionsOverlay
                     isFavorite={isFavorite}
                     onToggleFavorite={() => onToggleFavorite(item.id, item.index)}
                     onCopyPrompt={() => handleCopyPrompt(item.prompt)}
-                    onReuse={onUsePrompt ? () => onUsePrompt(item.prompt, item.inputImages) : undefined}
+                    onReuse={onUsePrompt ? () => onUsePrompt(item.prompt, item.inputImages, item.params) : undefined}
                     onSaveToPrompts={onSaveToPrompts ? () => onSaveToPrompts(item.prompt, item.inputImages?.map(img => ({ url: img.url, type: "image", name: img.name || "reference.png" }))) : undefined}
-                    onDownload={() => handleDownload(item.src, item.prompt, item.outputFormat)}
+                    onDownload={() => handleDownload(item.src, item.prompt, item.outputFormat, item.recipe)}
                     visible={isHovered}
                   />
                 )}
@@ -8,8 +8,8 @@ import {
   getQualityLabel,
   type ModelId,
 } from "../../lib/seedream-options";
-import { formatDisplayDate } from "./utils";
-import type { Generation } from "./types";
+import { formatDisplayDate, hasUnfinishedImages } from "./utils";
+import type { Generation, PendingProgress } from "./types";
 import { SpinnerIcon } from "./icons";
 
 // Simple Trash Icon for the delete button
@@ -70,24 +70,30 @@ function deriveAspectLabel(size: { width: number; height: number }): string {
 type GenerationDetailsCardProps = {
   generation: Generation | null;
   isGenerating: boolean;
+  progress?: PendingProgress;
   errorMessage: string | null;
-  onUsePrompt: (prompt: string, inputImages: Generation["inputImages"]) => void;
+  onUsePrompt: (prompt: string, inputImages: Generation["inputImages"], params?: Generation["params"]) => void;
   onPreviewInputImage?: (image: Generation["inputImages"][number]) => void;
   onDeleteGeneration?: (generationId: string) => void;
   canDelete?: boolean;
   onRetry?: () => void;
+  onCancel?: () => void;
+  onContinueSession?: () => void;
   onSaveToPrompts?: (content: string, attachments?: { url: string; type: "image"; name: string }[]) => void;
 };
 
 export function GenerationDetailsCard({
   generation,
   isGenerating,
+  progress,
   errorMessage,
   onUsePrompt,
   onPreviewInputImage,
   onDeleteGeneration,
   canDelete = false,
   onRetry,
+  onCancel,
+  onContinueSession,
   onSaveToPrompts,
 }: GenerationDetailsCardProps) {
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
@@ -106,7 +112,25 @@ export function GenerationDetailsCard({
       : getAspectDescription(generation.aspect).replace(/\s/g, "")
     : null;
 
-  const isInterrupted = !isGenerating && generation?.images.some(img => !img);
+  const isInterrupted = !isGenerating && generation ? hasUnfinishedImages(generation) : false;
+  const failedSlotCount = generation?.slots?.filter((slot) => slot.status === "failed").length ?? 0;
+  const cancelledSlotCount = generation?.slots?.filter((slot) => slot.status === "cancelled").length ?? 0;
+  const isCancelled = generation?.status === "cancelled";
+  // Show the freshest thought summary across slots; older text scrolls away.
+  const liveThought = useMemo(() => {
+    const texts = Object.values(progress ?? {})
+      .map((slot) => slot.thoughtText.trim())
+      .filter((text) => text.length > 0);
+    return texts.length > 0 ? texts[texts.length - 1] : null;
+  }, [progress]);
+  // Only images the model commented on; numbering follows the tile order.
+  const imageNotes = useMemo(
+    () =>
+      (generation?.imageNotes ?? [])
+        .map((note, index) => ({ ...note, index }))
+        .filter((note) => note.text || note.thoughts),
+    [generation?.imageNotes],
+  );
   const createdAtDate = useMemo(
     () => (generation?.createdAt ? new Date(generation.createdAt) : null),
     [generation?.createdAt],
@@ -159,11 +183,40 @@ export function GenerationDetailsCard({
         {generation && !isGenerating && !isInterrupted && (
           <span className="text-[var(--text-secondary)]">{getQualityLabel(generation.quality)}</span>
         )}
+
+        {isGenerating && onCancel ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="font-bold text-[var(--text-muted)] transition-colors hover:text-red-400"
+            title="Cancel generation"
+          >
+            Cancel
+          </button>
+        ) : null}
       </div>
 
       {/* Prompt Body or Error */}
       <div className="space-y-2">
-        {isInterrupted ? (
+        {isInterrupted && isCancelled ? (
+          <div className="rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-3 py-2.5">
+            <p className="text-xs text-[var(--text-secondary)] font-medium leading-snug mb-2">
+              Request cancelled
+            </p>
+            <p className="text-[11px] text-[var(--text-muted)] leading-relaxed">
+              Stopped before the images finished. It does not count toward spend.
+            </p>
+            {onRetry && (
+              <button
+                onClick={onRetry}
+                className="mt-3 flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wide text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+              >
+                <RetryIcon className="h-3 w-3" />
+                Retry Request
+              </button>
+            )}
+          </div>
+        ) : isInterrupted ? (
           <div className="rounded-lg border border-orange-900/50 bg-orange-950/20 px-3 py-2.5">
             <p className="text-xs text-orange-400 font-medium leading-snug mb-2">
               Request interrupted
@@ -197,6 +250,53 @@ export function GenerationDetailsCard({
           </p>
         ) : null}
 
+        {generation && !isGenerating && !isInterrupted && failedSlotCount > 0 ? (
+          <p className="text-[11px] leading-snug text-[var(--color-error)]">
+            {failedSlotCount} of {generation.images.length} images failed. Retry them from their tiles.
+          </p>
+        ) : null}
+
+        {generation && !isGenerating && !isInterrupted && cancelledSlotCount > 0 ? (
+          <p className="text-[11px] leading-snug text-[var(--text-muted)]">
+            Cancelled before {cancelledSlotCount} of {generation.images.length} images finished. Only the finished ones
+            count toward spend; retry the rest from their tiles.
+          </p>
+        ) : null}
+
+        {isGenerating && liveThought ? (
+          <p className="rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-2.5 py-2 text-[11px] italic leading-relaxed text-[var(--text-muted)] max-h-28 overflow-y-auto whitespace-pre-wrap">
+            {liveThought.length > 400 ? `…${liveThought.slice(-400)}` : liveThought}
+          </p>
+        ) : null}
+
+        {generation && !isGenerating && !isInterrupted && imageNotes.length > 0 ? (
+          <div className="flex flex-col gap-1.5 max-h-40 overflow-y-auto">
+            {imageNotes.map((note) => (
+              <div
+                key={note.index}
+                className="rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-2.5 py-2 text-[11px] leading-relaxed"
+              >
+                {generation.images.length > 1 ? (
+                  <p className="mb-1 text-[9px] font-bold uppercase tracking-wide text-[var(--text-muted)]">
+                    Image {note.index + 1}
+                  </p>
+                ) : null}
+                {note.text ? (
+                  <p className="whitespace-pre-wrap text-[var(--text-secondary)]">{note.text}</p>
+                ) : null}
+                {note.thoughts ? (
+                  <details className="mt-1 text-[var(--text-muted)]">
+                    <summary className="cursor-pointer text-[10px] font-semibold uppercase tracking-wide hover:text-[var(--text-secondary)]">
+                      Thoughts
+                    </summary>
+                    <p className="mt-1 whitespace-pre-wrap italic">{note.thoughts}</p>
+                  </details>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        ) : null}
+
       </div>
 
       {/* Input Images (Compact) */}
@@ -238,13 +338,45 @@ export function GenerationDetailsCard({
             <span className="inline-flex items-center rounded bg-[var(--bg-input)] border border-[var(--border-subtle)] px-1.5 py-0.5 text-[9px] font-medium text-[var(--text-secondary)]">
               {aspectLabel ?? "Custom"}
             </span>
+            {generation.origin?.action === "outpaint" ? (
+              <span
+                className="inline-flex items-center rounded bg-[var(--bg-input)] border border-[var(--border-subtle)] px-1.5 py-0.5 text-[9px] font-medium text-[var(--text-secondary)]"
+                title="Outpainted from an earlier image"
+              >
+                Extended
+              </span>
+            ) : null}
+            {generation.matrix ? (
+              <span
+                className="inline-flex items-center rounded bg-[var(--bg-input)] border border-[var(--border-subtle)] px-1.5 py-0.5 text-[9px] font-medium text-[var(--text-secondary)]"
+                title={`Matrix run: ${generation.matrix.template}`}
+              >
+                Matrix · {generation.matrix.values.map((value) => value || "—").join(", ")}
+              </span>
+            ) : null}
+            {generation.params?.seed !== undefined ? (
+              <span
+                className="inline-flex items-center rounded bg-[var(--bg-input)] border border-[var(--border-subtle)] px-1.5 py-0.5 text-[9px] font-medium text-[var(--text-secondary)]"
+                title="Each provider call adds one to the seed"
+              >
+                Seed {generation.params.seed}
+              </span>
+            ) : null}
+            {generation.session ? (
+              <span
+                className="inline-flex items-center rounded bg-[var(--bg-input)] border border-[var(--border-subtle)] px-1.5 py-0.5 text-[9px] font-medium text-[var(--text-secondary)]"
+                title="Part of an edit session"
+              >
+                Turn {generation.session.turn}
+              </span>
+            ) : null}
           </div>
 
           {/* Compact Actions */}
           <div className="flex items-center gap-1">
             <button
               type="button"
-              onClick={() => onUsePrompt(generation.prompt, validInputImages)}
+              onClick={() => onUsePrompt(generation.prompt, validInputImages, generation.params)}
               className="flex items-center justify-center h-6 w-6 rounded hover:bg-[var(--bg-subtle)] text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
               title="Reuse Prompt"
             >
@@ -254,6 +386,19 @@ export function GenerationDetailsCard({
               </svg>
             </button>
 
+            {onContinueSession && (
+              <button
+                type="button"
+                onClick={onContinueSession}
+                className="flex items-center justify-center h-6 w-6 rounded hover:bg-[var(--bg-subtle)] text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+                title={generation.session ? "Continue Edit Session" : "Start Edit Session"}
+              >
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+                </svg>
+              </button>
+            )}
+
             {onSaveToPrompts && (
               <button
                 type="button"
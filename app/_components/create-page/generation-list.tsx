@@ -1,24 +1,47 @@
 import Image from "next/image";
-import { memo, useState, useCallback } from "react";
+import { memo, useMemo, useState, useCallback, type CSSProperties } from "react";
 
-import { type AspectKey } from "../../lib/seedream-options";
+import type { GenerationSlot } from "../../lib/generate-seedream";
+import type { ProviderQueueStatus } from "../../lib/providers/types";
+import { recipeFromGeneration, type GenerationRecipe } from "../../lib/image-metadata";
+import { type AspectKey, type OutputFormat } from "../../lib/seedream-options";
+import { downloadImage } from "./download-image";
 import { GenerationDetailsCard } from "./generation-details-card";
 import { debugLog } from "./logger";
 import { HeartIcon, HeartFilledIcon, CopyIcon, CheckIcon, RefreshIcon, DownloadIcon } from "./icons";
-import type { Generation } from "./types";
-import { generateSmartFilename } from "./utils";
+import type { Generation, PendingProgress } from "./types";
+import { hasUnfinishedImages } from "./utils";
+
+// A queued call reports against the first slot it fills, so later slots look back for its status.
+function queueStatusFor(progress: PendingProgress | undefined, index: number): ProviderQueueStatus | undefined {
+  for (let slot = index; slot >= 0; slot--) {
+    const status = progress?.[slot]?.queue;
+    if (status) {
+      return status;
+    }
+  }
+  return undefined;
+}
 
 type GenerationGroupProps = {
   label: string;
   generations: Generation[];
   pendingIdSet: Set<string>;
+  /** Pending generations still waiting in the queue rather than running. */
+  queuedIdSet?: Set<string>;
+  pendingProgress?: Record<string, PendingProgress>;
   errorGenerationId: string | null;
   errorMessage: string | null;
   onExpand: (generationId: string, imageIndex: number) => void;
-  onUsePrompt: (prompt: string, inputImages: Generation["inputImages"]) => void;
+  onUsePrompt: (prompt: string, inputImages: Generation["inputImages"], params?: Generation["params"]) => void;
   onPreviewInputImage?: (image: Generation["inputImages"][number]) => void;
   onDeleteGeneration: (generationId: string) => void;
   onRetryGeneration?: (generationId: string) => void;
+  onRetrySlot?: (generationId: string, slot: number) => void;
+  /** Cancels a slot retry that is waiting or running. */
+  onCancelSlot?: (generationId: string, slot: number) => void;
+  onCancelGeneration?: (generationId: string) => void;
+  onContinueSession?: (generationId: string) => void;
   favorites?: Set<string>;
   onToggleFavorite?: (generationId: string, imageIndex: number) => void;
   onSaveToPrompts?: (content: string, attachments?: { url: string; type: "image"; name: string }[]) => void;
@@ -28,6 +51,8 @@ export const GenerationGroup = memo(function GenerationGroup({
   label,
   generations,
   pendingIdSet,
+  queuedIdSet,
+  pendingProgress,
   errorGenerationId,
   errorMessage,
   onExpand,
@@ -35,6 +60,10 @@ export const GenerationGroup = memo(function GenerationGroup({
   onPreviewInputImage,
   onDeleteGeneration,
   onRetryGeneration,
+  onRetrySlot,
+  onCancelSlot,
+  onCancelGeneration,
+  onContinueSession,
   favorites = new Set(),
   onToggleFavorite,
   onSaveToPrompts,
@@ -47,8 +76,10 @@ export const GenerationGroup = memo(function GenerationGroup({
       <div className="space-y-10">
         {generations.map((generation) => {
           const isGenerating = pendingIdSet.has(generation.id);
-          const isInterrupted = !isGenerating && generation.images.some((img) => !img);
+          const isInterrupted = !isGenerating && hasUnfinishedImages(generation);
           const cardError = generation.id === errorGenerationId ? errorMessage : null;
+          const progress = isGenerating ? pendingProgress?.[generation.id] : undefined;
+          const canContinueSession = !isGenerating && generation.images.some((image) => image.length > 0);
 
           return (
             <div
@@ -61,6 +92,10 @@ export const GenerationGroup = memo(function GenerationGroup({
                   onExpand={onExpand}
                   isInterrupted={isInterrupted}
                   isGenerating={isGenerating}
+                  isQueued={queuedIdSet?.has(generation.id) ?? false}
+                  progress={progress}
+                  onRetrySlot={onRetrySlot}
+                  onCancelSlot={onCancelSlot}
                   favorites={favorites}
                   onToggleFavorite={onToggleFavorite}
                   onUsePrompt={onUsePrompt}
@@ -71,12 +106,17 @@ export const GenerationGroup = memo(function GenerationGroup({
                 <GenerationDetailsCard
                   generation={generation}
                   isGenerating={isGenerating}
+                  progress={progress}
                   errorMessage={cardError}
                   onUsePrompt={onUsePrompt}
                   onPreviewInputImage={onPreviewInputImage}
                   onDeleteGeneration={onDeleteGeneration}
                   canDelete={!isGenerating}
                   onRetry={onRetryGeneration ? () => onRetryGeneration(generation.id) : undefined}
+                  onCancel={isGenerating && onCancelGeneration ? () => onCancelGeneration(generation.id) : undefined}
+                  onContinueSession={
+                    canContinueSession && onContinueSession ? () => onContinueSession(generation.id) : undefined
+                  }
                   onSaveToPrompts={onSaveToPrompts}
                 />
               </div>
@@ -93,9 +133,13 @@ type GenerationGalleryProps = {
   onExpand: (generationId: string, imageIndex: number) => void;
   isInterrupted: boolean;
   isGenerating: boolean;
+  isQueued?: boolean;
+  progress?: PendingProgress;
+  onRetrySlot?: (generationId: string, slot: number) => void;
+  onCancelSlot?: (generationId: string, slot: number) => void;
   favorites?: Set<string>;
   onToggleFavorite?: (generationId: string, imageIndex: number) => void;
-  onUsePrompt?: (prompt: string, inputImages: Generation["inputImages"]) => void;
+  onUsePrompt?: (prompt: string, inputImages: Generation["inputImages"], params?: Generation["params"]) => void;
   onSaveToPrompts?: (content: string, attachments?: { url: string; type: "image"; name: string }[]) => void;
 };
 
@@ -104,12 +148,17 @@ const GenerationGallery = memo(function GenerationGallery({
   onExpand,
   isInterrupted,
   isGenerating,
+  isQueued = false,
+  progress,
+  onRetrySlot,
+  onCancelSlot,
   favorites = new Set(),
   onToggleFavorite,
   onUsePrompt,
   onSaveToPrompts,
 }: GenerationGalleryProps) {
   const layout = resolveGalleryLayout(generation);
+  const recipe = useMemo(() => recipeFromGeneration(generation), [generation]);
 
   debugLog("gallery:render", {
     generationId: generation.id,
@@ -130,19 +179,28 @@ const GenerationGallery = memo(function GenerationGallery({
             key={`${generation.id}-${index}`}
             src={src}
             className={layout.tileClass}
+            style={layout.tileStyle}
             prompt={generation.prompt}
             onExpand={() => onExpand(generation.id, index)}
             generationId={generation.id}
             imageIndex={index}
             size={generation.size}
             isInterrupted={isInterrupted}
+            isCancelled={generation.status === "cancelled"}
             isGenerating={isGenerating}
+            isQueued={isQueued}
+            draftSrc={progress?.[index]?.draftImage ?? null}
+            queueStatus={isGenerating ? queueStatusFor(progress, index) : undefined}
+            slot={generation.slots?.[index]}
+            onRetrySlot={onRetrySlot ? () => onRetrySlot(generation.id, index) : undefined}
+            onCancelSlot={onCancelSlot ? () => onCancelSlot(generation.id, index) : undefined}
             isFavorite={favorites.has(`${generation.id}:${index}`)}
             onToggleFavorite={onToggleFavorite ? () => onToggleFavorite(generation.id, index) : undefined}
             onCopyPrompt={() => navigator.clipboard.writeText(generation.prompt)}
-            onReuse={onUsePrompt ? () => onUsePrompt(generation.prompt, generation.inputImages || []) : undefined}
+            onReuse={onUsePrompt ? () => onUsePrompt(generation.prompt, generation.inputImages || [], generation.params) : undefined}
             onSaveToPrompts={onSaveToPrompts ? () => onSaveToPrompts(generation.prompt, generation.inputImages?.map(img => ({ url: img.url, type: "image", name: img.name || "reference.png" }))) : undefined}
             outputFormat={generation.outputFormat || "png"}
+            recipe={recipe}
           />
         ))}
       </div>
@@ -153,37 +211,57 @@ const GenerationGallery = memo(function GenerationGallery({
 type ImageTileProps = {
   src: string;
   className: string;
+  style?: CSSProperties;
   prompt: string;
   onExpand: () => void;
   generationId: string;
   imageIndex: number;
   size: { width: number; height: number };
   isInterrupted: boolean;
+  isCancelled?: boolean;
   isGenerating: boolean;
+  isQueued?: boolean;
+  draftSrc?: string | null;
+  /** Position and logs while the call waits on a queued provider such as FAL. */
+  queueStatus?: ProviderQueueStatus;
+  slot?: GenerationSlot;
+  onRetrySlot?: () => void;
+  onCancelSlot?: () => void;
   isFavorite?: boolean;
   onToggleFavorite?: () => void;
   onCopyPrompt?: () => void;
   onReuse?: () => void;
   onSaveToPrompts?: () => void;
-  outputFormat?: string;
+  outputFormat?: OutputFormat;
+  /** Embedded in downloads so the file can restore its settings. */
+  recipe?: GenerationRecipe;
 };
 
 const ImageTile = memo(function ImageTile({
   src,
   className,
+  style,
   prompt,
   onExpand,
   generationId,
   imageIndex,
   size,
   isInterrupted,
+  isCancelled = false,
   isGenerating,
+  isQueued = false,
+  draftSrc = null,
+  queueStatus,
+  slot,
+  onRetrySlot,
+  onCancelSlot,
   isFavorite = false,
   onToggleFavorite,
   onCopyPrompt,
   onReuse,
   onSaveToPrompts,
   outputFormat = "png",
+  recipe,
 }: ImageTileProps) {
   const [isHovered, setIsHovered] = useState(false);
   const [copiedPrompt, setCopiedPrompt] = useState(false);
@@ -208,24 +286,13 @@ const ImageTile = memo(function ImageTile({
     if (!src || isDownloading) return;
     setIsDownloading(true);
     try {
-      const response = await fetch(src, { cache: "no-store" });
-      if (!response.ok) throw new Error(`Download failed (${response.status})`);
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      const extension = outputFormat === "jpeg" ? "jpg" : outputFormat;
-      link.href = url;
-      link.download = generateSmartFilename(prompt, extension);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      await downloadImage(src, prompt, outputFormat, recipe);
     } catch (error) {
       console.error("Failed to download image", error);
     } finally {
       setIsDownloading(false);
     }
-  }, [src, prompt, outputFormat, isDownloading]);
+  }, [src, prompt, outputFormat, recipe, isDownloading]);
 
   const handleTileClick = useCallback((e: React.MouseEvent) => {
     // Only expand if we clicked on the image itself, not on action buttons
@@ -248,13 +315,68 @@ const ImageTile = memo(function ImageTile({
 
   const shouldBypassOptimization = false;
 
+  if (!src && (slot?.status === "failed" || slot?.status === "cancelled")) {
+    const slotCancelled = slot.status === "cancelled";
+    return (
+      <div
+        className={`${className} relative bg-[var(--bg-input)] border ${slotCancelled ? "border-[var(--border-subtle)]" : "border-[var(--color-error)]/40"}`}
+        style={style}
+      >
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-3 text-center">
+          <span
+            className={`text-[11px] font-semibold uppercase tracking-wide ${slotCancelled ? "text-[var(--text-muted)]" : "text-[var(--color-error)]"}`}
+          >
+            {slotCancelled ? "Cancelled" : "Failed"}
+          </span>
+          {slot.error ? (
+            <p className="line-clamp-3 text-[10px] leading-snug text-[var(--text-muted)]" title={slot.error}>
+              {slot.error}
+            </p>
+          ) : null}
+          {onRetrySlot ? (
+            <button
+              type="button"
+              onClick={onRetrySlot}
+              className="flex items-center gap-1.5 rounded-md border border-[var(--border-subtle)] px-2 py-1 text-[10px] font-bold uppercase tracking-wide text-[var(--text-secondary)] transition-colors hover:border-[var(--text-muted)] hover:text-[var(--text-primary)]"
+              title={`Retry this image (${slot.attempts} ${slot.attempts === 1 ? "attempt" : "attempts"} so far)`}
+            >
+              <RefreshIcon className="h-3 w-3" />
+              Retry
+            </button>
+          ) : null}
+        </div>
+      </div>
+    );
+  }
+
+  if (!src && isGenerating && draftSrc) {
+    return (
+      <div className={`${className} relative overflow-hidden bg-[var(--bg-input)] border border-[var(--border-subtle)]`} style={style}>
+        <Image
+          src={draftSrc}
+          alt="Draft preview"
+          width={width}
+          height={height}
+          unoptimized
+          draggable={false}
+          className="h-full w-full object-cover opacity-60 blur-[2px] select-none"
+        />
+        <span className="absolute left-2 top-2 rounded bg-black/60 px-1.5 py-0.5 text-[9px] font-bold uppercase tracking-wide text-[var(--accent-primary)] animate-pulse">
+          Draft
+        </span>
+      </div>
+    );
+  }
+
   if (!src) {
-    const interruptedStyles = isInterrupted
+    const interruptedStyles = isCancelled
+      ? "bg-[var(--bg-input)] border border-[var(--border-subtle)] text-[var(--text-muted)]"
+      : isInterrupted
       ? "bg-[var(--bg-input)] border border-[var(--color-error)]/40 text-[var(--color-error)]"
       : "animate-pulse bg-[var(--bg-input)] border border-[var(--border-subtle)]";
 
     return (
-      <div className={`${className} relative ${interruptedStyles}`}>
+      <div className={`${className} relative ${interruptedStyles}`} style={style}>
         {isInterrupted ? (
           <div className="absolute inset-0 flex items-center justify-center">
             <span className="flex items-center gap-2 text-[11px] font-semibold uppercase tracking-wide">
@@ -272,12 +394,43 @@ const ImageTile = memo(function ImageTile({
                 <line x1="15" y1="9" x2="9" y2="15" />
                 <line x1="9" y1="9" x2="15" y2="15" />
               </svg>
-              <span>Interrupted</span>
+              <span>{isCancelled ? "Cancelled" : "Interrupted"}</span>
+            </span>
+          </div>
+        ) : queueStatus && !isQueued ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-1.5 p-3 text-center text-[var(--text-muted)]">
+            <span className="text-xs font-semibold uppercase tracking-wide">
+              {queueStatus.state === "queued" ? "In provider queue" : "Generating..."}
             </span>
+            {queueStatus.state === "queued" && queueStatus.position !== undefined ? (
+              <span className="text-[10px] font-semibold">
+                {queueStatus.position === 0 ? "Next up" : `${queueStatus.position} ahead`}
+              </span>
+            ) : null}
+            {queueStatus.logs.length > 0 ? (
+              <p
+                className="line-clamp-2 max-w-full break-words font-mono text-[9px] leading-snug opacity-80"
+                title={queueStatus.logs.join("\n")}
+              >
+                {queueStatus.logs[queueStatus.logs.length - 1]}
+              </p>
+            ) : null}
+          </div>
+        ) : !isGenerating && slot?.status === "pending" && onCancelSlot ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-[var(--text-muted)]">
+            <span className="text-xs font-semibold uppercase tracking-wide">Generating...</span>
+            <button
+              type="button"
+              onClick={onCancelSlot}
+              className="text-[10px] font-bold uppercase tracking-wide transition-colors hover:text-red-400"
+              title="Cancel this retry"
+            >
+              Cancel
+            </button>
           </div>
         ) : (
           <div className="absolute inset-0 flex items-center justify-center text-[var(--text-muted)] text-xs font-semibold uppercase tracking-wide">
-            {isGenerating ? "Generating..." : "Loading"}
+            {isQueued ? "Queued" : isGenerating || slot?.status === "pending" ? "Generating..." : "Loading"}
           </div>
         )}
       </div>
@@ -292,6 +445,7 @@ const ImageTile = memo(function ImageTile({
       onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') onExpand(); }}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
+      style={style}
       className={`${className} relative bg-[var(--bg-app)] transition-all duration-300 hover:brightness-95 focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]/50 cursor-pointer overflow-hidden group/tile`}
       aria-label="Expand image"
     >
@@ -442,6 +596,7 @@ const DEFAULT_TILE_CLASS = "relative aspect-square overflow-hidden";
 type GalleryLayout = {
   gridClass: string;
   tileClass: string;
+  tileStyle?: CSSProperties;
   source: "preset" | "custom";
   ratio: number | null;
 };
@@ -468,66 +623,12 @@ function resolveGalleryLayout(generation: Generation): GalleryLayout {
     };
   }
 
-  const ratio = width / height;
-
-  if (!Number.isFinite(ratio) || ratio <= 0) {
-    return {
-      gridClass: DEFAULT_GRID_CLASS,
-      tileClass: DEFAULT_TILE_CLASS,
-      source: "custom",
-      ratio: null,
-    };
-  }
-
-  if (ratio >= 2.2) {
-    return {
-      gridClass: DEFAULT_GRID_CLASS,
-      tileClass: "relative aspect-[21/9] overflow-hidden",
-      source: "custom",
-      ratio,
-    };
-  }
-
-  if (ratio >= 1.7) {
-    return {
-      gridClass: DEFAULT_GRID_CLASS,
-      tileClass: "relative aspect-[16/9] overflow-hidden",
-      source: "custom",
-      ratio,
-    };
-  }
-
-  if (ratio >= 1.3) {
-    return {
-      gridClass: DEFAULT_GRID_CLASS,
-      tileClass: "relative aspect-[3/2] overflow-hidden",
-      source: "custom",
-      ratio,
-    };
-  }
-
-  if (ratio >= 0.9) {
-    return {
-      gridClass: DEFAULT_GRID_CLASS,
-      tileClass: "relative aspect-square overflow-hidden",
-      source: "custom",
-      ratio,
-    };
-  }
-
-  if (ratio >= 0.7) {
-    return {
-      gridClass: DEFAULT_GRID_CLASS,
-      tileClass: "relative aspect-[4/5] overflow-hidden",
-      source: "custom",
-      ratio,
-    };
-  }
-
+  // Custom sizes get their exact ratio rather than the nearest preset tile.
   return {
     gridClass: DEFAULT_GRID_CLASS,
-    tileClass: "relative aspect-[9/16] overflow-hidden",
+    tileClass: "relative overflow-hidden",
+    tileStyle: { aspectRatio: `${width} / ${height}` },
     source: "custom",
-    ratio,
+    ratio: width / height,
   };
 }
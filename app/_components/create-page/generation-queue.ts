@@ -0,0 +1,177 @@
+import { getOutputsPerRequest } from "../../lib/generate-seedream";
+import type { GenerationParams } from "../../lib/generation-params";
+import type { ModelId, Provider } from "../../lib/seedream-options";
+
+export const RATE_WINDOW_MS = 60_000;
+// Finished entries stay in the panel for reference; older ones fall off.
+const MAX_FINISHED_ITEMS = 20;
+
+export type QueueItemStatus = "waiting" | "running" | "succeeded" | "failed" | "cancelled";
+
+export type QueueItem = {
+  /** Same id as the pending generation the item runs. */
+  id: string;
+  prompt: string;
+  provider: Provider;
+  model?: ModelId;
+  googleSearch: boolean;
+  numImages: number;
+  sizeOverride?: { width: number; height: number };
+  params?: GenerationParams;
+  /** Provider calls the run makes; concurrency and pacing count these, not items. */
+  requests: number;
+  status: QueueItemStatus;
+  enqueuedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+};
+
+/** Limits for one provider. With a Gemini key pool they apply per key. */
+export type QueueLimits = {
+  concurrency: number;
+  requestsPerMinute: number;
+};
+
+export type QueueState = {
+  items: QueueItem[];
+  paused: boolean;
+  limits: Record<string, QueueLimits>;
+};
+
+/** A started run, kept for a minute so requests-per-minute pacing can see it. */
+export type QueueStart = {
+  provider: Provider;
+  requests: number;
+  at: number;
+};
+
+// Gemini's free and tier-1 image limits sit around 10 RPM; the others allow more.
+export const DEFAULT_QUEUE_LIMITS: Record<string, QueueLimits> = {
+  gemini: { concurrency: 4, requestsPerMinute: 10 },
+  fal: { concurrency: 2, requestsPerMinute: 30 },
+};
+
+const FALLBACK_LIMITS: QueueLimits = { concurrency: 2, requestsPerMinute: 20 };
+
+export function getQueueLimits(limits: Record<string, QueueLimits>, provider: Provider): QueueLimits {
+  return limits[provider] ?? DEFAULT_QUEUE_LIMITS[provider] ?? FALLBACK_LIMITS;
+}
+
+export function estimateRequestCount(
+  provider: Provider,
+  numImages: number,
+  model: ModelId = "gemini-3-pro-image-preview",
+  params?: GenerationParams,
+): number {
+  return Math.max(1, Math.ceil(numImages / getOutputsPerRequest(provider, model, params)));
+}
+
+export function isFinished(item: QueueItem): boolean {
+  return item.status !== "waiting" && item.status !== "running";
+}
+
+/** Drops the oldest finished entries beyond the display cap, keeping queue order. */
+export function trimFinished(items: QueueItem[]): QueueItem[] {
+  const finished = items.filter(isFinished);
+  if (finished.length <= MAX_FINISHED_ITEMS) {
+    return items;
+  }
+  const dropped = new Set(
+    finished
+      .sort((a, b) => (a.finishedAt ?? "").localeCompare(b.finishedAt ?? ""))
+      .slice(0, finished.length - MAX_FINISHED_ITEMS)
+      .map((item) => item.id),
+  );
+  return items.filter((item) => !dropped.has(item.id));
+}
+
+export type QueueSchedule = {
+  /** Waiting items to start now, in queue order. */
+  start: string[];
+  /** When pacing is what holds the next item back, the epoch ms it frees up. */
+  wakeAt: number | null;
+};
+
+/**
+ * Picks the waiting items that fit under each provider's limits. Items of one
+ * provider start strictly in queue order; a blocked head holds back the items
+ * behind it but not other providers. A run bigger than the limits themselves
+ * starts once its provider is idle, so it cannot wait forever.
+ */
+export function scheduleQueue(
+  state: QueueState,
+  recentStarts: QueueStart[],
+  isStartable: (item: QueueItem) => boolean,
+  keyCounts: Partial<Record<string, number>>,
+  now: number,
+): QueueSchedule {
+  if (state.paused) {
+    return { start: [], wakeAt: null };
+  }
+
+  const windowStart = now - RATE_WINDOW_MS;
+  const inFlight = new Map<string, number>();
+  const started = new Map<string, QueueStart[]>();
+  state.items
+    .filter((item) => item.status === "running")
+    .forEach((item) => inFlight.set(item.provider, (inFlight.get(item.provider) ?? 0) + item.requests));
+  recentStarts
+    .filter((entry) => entry.at > windowStart)
+    .forEach((entry) => started.set(entry.provider, [...(started.get(entry.provider) ?? []), entry]));
+
+  const blocked = new Set<string>();
+  const start: string[] = [];
+  let wakeAt: number | null = null;
+
+  for (const item of state.items) {
+    if (item.status !== "waiting" || blocked.has(item.provider) || !isStartable(item)) {
+      continue;
+    }
+
+    const keys = Math.max(1, keyCounts[item.provider] ?? 1);
+    const limits = getQueueLimits(state.limits, item.provider);
+    const running = inFlight.get(item.provider) ?? 0;
+    const windowStarts = started.get(item.provider) ?? [];
+    const usedThisMinute = windowStarts.reduce((total, entry) => total + entry.requests, 0);
+
+    const fitsConcurrency = running === 0 || running + item.requests <= limits.concurrency * keys;
+    const fitsRate = usedThisMinute === 0 || usedThisMinute + item.requests <= limits.requestsPerMinute * keys;
+
+    if (!fitsConcurrency || !fitsRate) {
+      blocked.add(item.provider);
+      if (fitsConcurrency && windowStarts.length > 0) {
+        // The oldest start leaving the window is the earliest anything can change.
+        const freesAt = Math.min(...windowStarts.map((entry) => entry.at)) + RATE_WINDOW_MS;
+        wakeAt = wakeAt === null ? freesAt : Math.min(wakeAt, freesAt);
+      }
+      continue;
+    }
+
+    start.push(item.id);
+    inFlight.set(item.provider, running + item.requests);
+    started.set(item.provider, [...windowStarts, { provider: item.provider, requests: item.requests, at: now }]);
+  }
+
+  return { start, wakeAt };
+}
+
+/** Moves a waiting item one place up or down among the other waiting items. */
+export function moveQueueItem(items: QueueItem[], id: string, direction: -1 | 1): QueueItem[] {
+  const waiting = items.filter((item) => item.status === "waiting");
+  const index = waiting.findIndex((item) => item.id === id);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= waiting.length) {
+    return items;
+  }
+  const swapId = waiting[target].id;
+  return items.map((item) => {
+    if (item.id === id) {
+      return waiting[target];
+    }
+    if (item.id === swapId) {
+      return waiting[index];
+    }
+    return item;
+  });
+}
@@ -1,3 +1,4 @@
+import Image from "next/image";
 import { useCallback, useEffect, useRef, useState } from "react";
 import type {
   ChangeEvent,
@@ -12,50 +13,102 @@ import {
   ASPECT_OPTIONS,
   QUALITY_OPTIONS,
   OUTPUT_FORMAT_OPTIONS,
-  PROVIDER_OPTIONS,
   MODEL_DEFINITIONS,
   getModelDefinition,
+  getProviderOptions,
+  formatResolution,
+  type CustomSizePreset,
+  type ImageSize,
   type ModelId,
   type QualityKey,
   type OutputFormat,
   type Provider,
 } from "../../lib/seedream-options";
+import { getProviderAdapter } from "../../lib/providers/registry";
+import type { ProviderSettings } from "../../lib/providers/types";
+import type { GenerationParams } from "../../lib/generation-params";
+import type { OutputEncoding } from "../../lib/image-conversion";
+import { readRecipe, type GenerationRecipe } from "../../lib/image-metadata";
+import type { TokenEstimate } from "../../lib/token-estimate";
 import { LightningIcon, PlusIcon, SettingsIcon, GlobeIcon } from "./icons";
+import { AdvancedParamsPanel } from "./advanced-params-panel";
 import { AttachmentPreviewList } from "./attachment-preview";
+import type { BackupImportReport, BackupProgress } from "./backup";
+import { BackupPanel } from "./backup-panel";
+import { CustomSizePanel } from "./custom-size-panel";
 import { KeyManager } from "./key-manager";
+import { StoragePanel } from "./storage-panel";
+import type { StoragePolicy, StoragePolicyResult } from "./storage-policy";
+import { OutputEncodingPanel } from "./output-encoding-panel";
 import type { PromptAttachment } from "./types";
-import { resizeTextarea } from "./utils";
+import { formatCents, resizeTextarea } from "./utils";
 
 type HeaderProps = {
   prompt: string;
   aspect: string;
+  /** Exact size used while the aspect is "custom". */
+  customSize: ImageSize;
+  customSizePresets: CustomSizePreset[];
   quality: QualityKey;
   outputFormat: OutputFormat;
+  /** Quality and max size used when converting results to `outputFormat`. */
+  outputEncoding: OutputEncoding;
   provider: Provider;
   model: ModelId;
   googleSearch: boolean;
   imageCount: number;
   apiKey: string;
   geminiApiKeys: string[];
+  providerSettings: ProviderSettings;
+  /** Seed, sampling and safety overrides sent with direct runs. */
+  generationParams: GenerationParams;
   isBudgetLocked: boolean;
+  /** Shown when a warn-only budget would be exceeded; the run is still allowed. */
+  budgetWarning: string | null;
   isSettingsOpen: boolean;
+  batchMode: boolean;
+  serverJobs: boolean;
+  batchEstimate: { promptCount: number; imageCount: number; costCents: number; savingsCents: number } | null;
+  /** Expansions of a `{a|b}` permutation prompt, or why it can't be expanded. */
+  matrixPreview: { prompts: string[]; imageCount: number; costCents: number } | { error: string } | null;
+  /** Input tokens and price of the run as typed; null while there is nothing to count. */
+  tokenEstimate: TokenEstimate | null;
+  isCountingTokens: boolean;
+  /** The image the next prompt refines, when an edit session is active. */
+  editSession: { turn: number; imageUrl: string } | null;
+  onEndEditSession: () => void;
   onSubmit: (event: FormEvent<HTMLFormElement>) => void;
   onPromptChange: (value: string) => void;
   onAspectSelect: (value: string) => void;
+  onCustomSizeChange: (size: ImageSize) => void;
+  onSaveCustomSizePreset: (size: ImageSize) => void;
+  onDeleteCustomSizePreset: (presetId: string) => void;
   onQualityChange: (value: QualityKey) => void;
   onOutputFormatChange: (value: OutputFormat) => void;
+  onOutputEncodingChange: (value: OutputEncoding) => void;
+  /** Applies the settings embedded in a dropped image. */
+  onRestoreRecipe: (recipe: GenerationRecipe) => void;
   onProviderChange: (value: Provider) => void;
   onModelChange: (value: ModelId) => void;
   onGoogleSearchChange: (value: boolean) => void;
+  onBatchModeChange: (value: boolean) => void;
+  onServerJobsChange: (value: boolean) => void;
   onImageCountChange: (value: number) => void;
   onApiKeyChange: (value: string) => void;
   onGeminiApiKeysChange: (keys: string[]) => void;
+  onProviderSettingsChange: (settings: ProviderSettings) => void;
+  onGenerationParamsChange: (params: GenerationParams) => void;
   onToggleSettings: Dispatch<SetStateAction<boolean>>;
   attachments: PromptAttachment[];
   onAddAttachments: (files: File[]) => void;
   onRemoveAttachment: (attachmentId: string) => void;
   onPreviewAttachment: (attachment: PromptAttachment) => void;
   isAttachmentLimitReached: boolean;
+  onExportBackup: (includeCredentials: boolean, onProgress: (progress: BackupProgress) => void) => Promise<void>;
+  onImportBackup: (file: File, onProgress: (progress: BackupProgress) => void) => Promise<BackupImportReport>;
+  storagePolicy: StoragePolicy;
+  onStoragePolicyChange: (policy: StoragePolicy) => void;
+  onApplyStoragePolicy: () => Promise<StoragePolicyResult>;
   // Cloud sync settings
   syncImages?: boolean;
   onSyncImagesChange?: (value: boolean) => void;
@@ -65,38 +118,73 @@ type HeaderProps = {
 export function Header({
   prompt,
   aspect,
+  customSize,
+  customSizePresets,
   quality,
   outputFormat,
+  outputEncoding,
   provider,
   model,
   googleSearch,
   imageCount,
   apiKey,
   geminiApiKeys,
+  providerSettings,
+  generationParams,
   isBudgetLocked,
+  budgetWarning,
   isSettingsOpen,
+  batchMode,
+  serverJobs,
+  batchEstimate,
+  matrixPreview,
+  tokenEstimate,
+  isCountingTokens,
+  editSession,
+  onEndEditSession,
   onSubmit,
   onPromptChange,
   onAspectSelect,
+  onCustomSizeChange,
+  onSaveCustomSizePreset,
+  onDeleteCustomSizePreset,
   onQualityChange,
   onOutputFormatChange,
+  onOutputEncodingChange,
+  onRestoreRecipe,
   onProviderChange,
   onModelChange,
   onGoogleSearchChange,
+  onBatchModeChange,
+  onServerJobsChange,
   onImageCountChange,
   onApiKeyChange,
   onGeminiApiKeysChange,
+  onProviderSettingsChange,
+  onGenerationParamsChange,
   onToggleSettings,
   attachments,
   onAddAttachments,
   onRemoveAttachment,
   onPreviewAttachment,
   isAttachmentLimitReached,
+  onExportBackup,
+  onImportBackup,
+  storagePolicy,
+  onStoragePolicyChange,
+  onApplyStoragePolicy,
   syncImages,
   onSyncImagesChange,
   isCloudEnabled,
 }: HeaderProps) {
   const panelRef = useRef<HTMLDivElement | null>(null);
+  const providerOptions = getProviderOptions(model);
+  const providerAdapter = getProviderAdapter(provider);
+  const providerSettingsFields = providerAdapter?.settingsFields ?? [];
+  const supportedParams = (providerAdapter?.capabilities.generationParams ?? []).filter(
+    (key) => key !== "candidateCount" || getModelDefinition(model)?.supportsCandidateCount,
+  );
+  const hasGenerationParams = Object.keys(generationParams).length > 0;
   const toggleButtonRef = useRef<HTMLButtonElement>(null);
   const promptTextareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -104,6 +192,11 @@ export function Header({
   const dragCounterRef = useRef(0);
   const [isDragOver, setIsDragOver] = useState(false);
   const [isLoadingSharedKey, setIsLoadingSharedKey] = useState(false);
+  const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
+  const [isCustomSizeOpen, setIsCustomSizeOpen] = useState(true);
+  const [isEncodingOpen, setIsEncodingOpen] = useState(false);
+  // A dropped image that carries a recipe, waiting for the user to restore it or attach it.
+  const [recipeOffer, setRecipeOffer] = useState<{ file: File; recipe: GenerationRecipe } | null>(null);
 
   const handleLoadSharedKey = useCallback(async () => {
     if (isLoadingSharedKey) return;
@@ -220,11 +313,35 @@ export function Header({
     );
     resetDragState();
 
-    if (droppedFiles.length === 0 || isAttachmentLimitReached) {
+    if (droppedFiles.length === 0) {
       return;
     }
 
-    void onAddAttachments(droppedFiles);
+    // Images exported from this app carry their recipe; offer the first one instead of attaching it.
+    void Promise.all(droppedFiles.map((file) => readRecipe(file))).then((recipes) => {
+      const offerIndex = recipes.findIndex(Boolean);
+      if (offerIndex >= 0) {
+        setRecipeOffer({ file: droppedFiles[offerIndex], recipe: recipes[offerIndex]! });
+      }
+      const attachable = droppedFiles.filter((_, index) => index !== offerIndex);
+      if (attachable.length > 0 && !isAttachmentLimitReached) {
+        void onAddAttachments(attachable);
+      }
+    });
+  };
+
+  const handleRestoreRecipe = () => {
+    if (recipeOffer) {
+      onRestoreRecipe(recipeOffer.recipe);
+      setRecipeOffer(null);
+    }
+  };
+
+  const handleAttachOfferedFile = () => {
+    if (recipeOffer && !isAttachmentLimitReached) {
+      void onAddAttachments([recipeOffer.file]);
+    }
+    setRecipeOffer(null);
   };
 
   useEffect(() => {
@@ -293,6 +410,76 @@ export function Header({
           onDragLeave={handleDragLeave}
           onDrop={handleDrop}
         >
+            {/* Edit Session */}
+            {editSession ? (
+                <div className="flex items-center gap-3 px-4 pt-3 md:px-5 animate-in fade-in slide-in-from-top-2 duration-300">
+                    <Image
+                        src={editSession.imageUrl}
+                        alt="Image being refined"
+                        width={32}
+                        height={32}
+                        unoptimized
+                        className="h-8 w-8 shrink-0 rounded-md border border-[var(--border-subtle)] object-cover"
+                        draggable={false}
+                    />
+                    <div className="flex-1 min-w-0">
+                        <p className="text-[10px] font-bold uppercase tracking-wider text-[var(--text-secondary)]">
+                            Edit Session · Turn {editSession.turn}
+                        </p>
+                        <p className="truncate text-[11px] text-[var(--text-muted)]">
+                            Follow-ups refine this image with the conversation so far.
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onEndEditSession}
+                        className="shrink-0 text-[10px] font-bold uppercase tracking-wide text-[var(--text-muted)] transition-colors hover:text-[var(--text-primary)]"
+                    >
+                        End
+                    </button>
+                </div>
+            ) : null}
+
+            {recipeOffer ? (
+                <div className="flex items-center gap-3 px-4 pt-3 md:px-5 animate-in fade-in slide-in-from-top-2 duration-300">
+                    <div className="flex-1 min-w-0">
+                        <p className="text-[10px] font-bold uppercase tracking-wider text-[var(--text-secondary)]">
+                            Recipe found in {recipeOffer.file.name}
+                        </p>
+                        <p className="truncate text-[11px] text-[var(--text-muted)]" title={recipeOffer.recipe.prompt}>
+                            {recipeOffer.recipe.prompt}
+                        </p>
+                        {recipeOffer.recipe.references.length > 0 ? (
+                            <p className="truncate text-[11px] text-[var(--text-muted)]">
+                                Used references: {recipeOffer.recipe.references.join(", ")}. Attach them again to reproduce it.
+                            </p>
+                        ) : null}
+                    </div>
+                    <button
+                        type="button"
+                        onClick={handleRestoreRecipe}
+                        className="shrink-0 text-[10px] font-bold uppercase tracking-wide text-[var(--accent-primary)] transition-colors hover:text-[var(--text-primary)]"
+                    >
+                        Restore
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleAttachOfferedFile}
+                        className="shrink-0 text-[10px] font-bold uppercase tracking-wide text-[var(--text-muted)] transition-colors hover:text-[var(--text-primary)]"
+                    >
+                        Attach
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setRecipeOffer(null)}
+                        aria-label="Dismiss recipe"
+                        className="shrink-0 text-[10px] font-bold uppercase tracking-wide text-[var(--text-muted)] transition-colors hover:text-[var(--text-primary)]"
+                    >
+                        ×
+                    </button>
+                </div>
+            ) : null}
+
             {/* Prompt Area */}
             <div className="relative flex w-full items-start gap-3 px-4 py-3 md:px-5 md:py-4">
                  <textarea
@@ -313,7 +500,13 @@ export function Header({
                     }}
                     rows={1}
                     className="flex-1 resize-none overflow-y-auto max-h-40 bg-transparent text-base md:text-lg leading-[1.6] text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none font-medium"
-                    placeholder="What are you imagining?"
+                    placeholder={
+                      batchMode
+                        ? "One prompt per line (Shift+Enter for a new line)"
+                        : editSession
+                          ? "What should change next?"
+                          : "What are you imagining?"
+                    }
                 />
                  {/* Character count */}
                  {prompt.length > 0 && (
@@ -349,6 +542,86 @@ export function Header({
                 </div>
             ) : null}
 
+            {/* Batch Estimate */}
+            {batchMode && batchEstimate ? (
+                <div className="flex items-center justify-between px-4 pb-2 text-[10px] font-medium uppercase tracking-wider text-[var(--text-muted)]">
+                    <span>
+                        {batchEstimate.promptCount} {batchEstimate.promptCount === 1 ? "prompt" : "prompts"} · {batchEstimate.imageCount} {batchEstimate.imageCount === 1 ? "image" : "images"} · est. {formatCents(batchEstimate.costCents)}
+                    </span>
+                    <span className="text-green-400">Saves {formatCents(batchEstimate.savingsCents)}</span>
+                </div>
+            ) : null}
+
+            {/* Matrix Preview */}
+            {matrixPreview ? (
+                "error" in matrixPreview ? (
+                    <div className="px-4 pb-2 text-[10px] font-medium uppercase tracking-wider text-[var(--color-warning)]">
+                        {matrixPreview.error}
+                    </div>
+                ) : (
+                    <details className="group/matrix px-4 pb-2 text-[10px] font-medium uppercase tracking-wider text-[var(--text-muted)]">
+                        <summary className="cursor-pointer list-none hover:text-[var(--text-secondary)]">
+                            Matrix · {matrixPreview.prompts.length} combinations · {matrixPreview.imageCount} {matrixPreview.imageCount === 1 ? "image" : "images"} · est. {formatCents(matrixPreview.costCents)}
+                        </summary>
+                        <ol className="mt-2 max-h-40 space-y-1 overflow-y-auto normal-case tracking-normal text-[11px] text-[var(--text-secondary)]">
+                            {matrixPreview.prompts.map((expandedPrompt, index) => (
+                                <li key={index} className="truncate" title={expandedPrompt}>
+                                    <span className="mr-2 font-mono text-[var(--text-muted)]">{index + 1}.</span>
+                                    {expandedPrompt}
+                                </li>
+                            ))}
+                        </ol>
+                    </details>
+                )
+            ) : null}
+
+            {/* Token Estimate */}
+            {tokenEstimate ? (
+                <div
+                    className={`flex items-center justify-between px-4 pb-2 text-[10px] font-medium uppercase tracking-wider text-[var(--text-muted)] transition-opacity ${isCountingTokens ? "opacity-60" : ""}`}
+                    title={tokenEstimate.approximate ? "Approximate: add a Gemini key to count exactly" : "Counted with the Gemini countTokens API"}
+                >
+                    <span>
+                        {tokenEstimate.approximate ? "~" : ""}{tokenEstimate.inputTokens.toLocaleString()} input tokens · {imageCount} × {tokenEstimate.outputTokensPerImage.toLocaleString()} output
+                    </span>
+                    {tokenEstimate.costCents !== null ? <span>est. {formatCents(tokenEstimate.costCents)}</span> : null}
+                </div>
+            ) : null}
+
+            {/* Budget Warning */}
+            {budgetWarning ? (
+                <div className="px-4 pb-2 text-[10px] font-medium uppercase tracking-wider text-[var(--color-warning)]">
+                    {budgetWarning}
+                </div>
+            ) : null}
+
+            {/* Advanced Parameters */}
+            {isAdvancedOpen ? (
+                <AdvancedParamsPanel
+                    params={generationParams}
+                    supported={supportedParams}
+                    providerLabel={providerAdapter?.label ?? provider}
+                    onChange={onGenerationParamsChange}
+                />
+            ) : null}
+
+            {/* Custom Size Editor */}
+            {aspect === "custom" && isCustomSizeOpen ? (
+                <CustomSizePanel
+                    size={customSize}
+                    model={model}
+                    presets={customSizePresets}
+                    onChange={onCustomSizeChange}
+                    onSavePreset={onSaveCustomSizePreset}
+                    onDeletePreset={onDeleteCustomSizePreset}
+                />
+            ) : null}
+
+            {/* Output Encoding */}
+            {isEncodingOpen ? (
+                <OutputEncodingPanel encoding={outputEncoding} format={outputFormat} onChange={onOutputEncodingChange} />
+            ) : null}
+
             {/* Control Bar (Integrated) */}
             <div className="flex flex-wrap items-center justify-between gap-3 rounded-b-[20px] bg-[var(--bg-subtle)] px-4 py-3 border-t border-[var(--border-subtle)]">
                  <div className="flex flex-wrap items-center gap-2">
@@ -388,11 +661,46 @@ export function Header({
                       </button>
                     ) : null}
 
+                    {/* Batch Mode Toggle (Gemini Batch API, half price) */}
+                    {provider === "gemini" ? (
+                      <button
+                        type="button"
+                        onClick={() => onBatchModeChange(!batchMode)}
+                        title={batchMode ? "Batch Mode enabled: prompts run as a half-price batch job" : "Enable Batch Mode (50% cheaper, results in minutes to hours)"}
+                        className={`flex h-7 items-center rounded-lg border px-2 text-[10px] font-bold uppercase tracking-wide transition-all ${
+                          batchMode
+                            ? "bg-green-500 text-black border-green-500"
+                            : "border-transparent text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-input)]"
+                        }`}
+                      >
+                        Batch
+                      </button>
+                    ) : null}
+
+                    {/* Advanced Parameters Toggle */}
+                    <button
+                      type="button"
+                      onClick={() => setIsAdvancedOpen((value) => !value)}
+                      title={hasGenerationParams ? "Advanced parameters set" : "Seed, sampling, and safety settings"}
+                      className={`flex h-7 items-center rounded-lg border px-2 text-[10px] font-bold uppercase tracking-wide transition-all ${
+                        isAdvancedOpen
+                          ? "bg-[var(--bg-input)] text-[var(--text-primary)] border-[var(--border-subtle)]"
+                          : "border-transparent text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-input)]"
+                      }`}
+                    >
+                      Adv{hasGenerationParams ? <span className="ml-1 h-1.5 w-1.5 rounded-full bg-[var(--accent-primary)]" /> : null}
+                    </button>
+
                     {/* Aspect Selector */}
                      <div className="relative group/select">
                         <select
                             value={aspect}
-                            onChange={(event) => onAspectSelect(event.target.value)}
+                            onChange={(event) => {
+                              if (event.target.value === "custom") {
+                                setIsCustomSizeOpen(true);
+                              }
+                              onAspectSelect(event.target.value);
+                            }}
                             className="appearance-none cursor-pointer rounded-lg bg-[var(--bg-input)] border border-[var(--border-subtle)] pl-3 pr-8 py-1.5 text-xs font-semibold uppercase tracking-wide text-[var(--text-secondary)] hover:text-white hover:border-[var(--text-muted)] focus:outline-none focus:ring-1 focus:ring-white/20 transition-colors"
                         >
                              {ASPECT_OPTIONS.map((option) => (
@@ -400,6 +708,7 @@ export function Header({
                                 {option.label} ({option.description})
                                 </option>
                             ))}
+                            <option value="custom">Custom…</option>
                         </select>
                         <div className="pointer-events-none absolute right-2.5 top-1/2 -translate-y-1/2 text-[var(--text-muted)]">
                              <svg width="8" height="5" viewBox="0 0 8 5" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -408,6 +717,21 @@ export function Header({
                         </div>
                      </div>
 
+                     {aspect === "custom" ? (
+                      <button
+                        type="button"
+                        onClick={() => setIsCustomSizeOpen((value) => !value)}
+                        title={isCustomSizeOpen ? "Hide the size editor" : "Edit the custom size"}
+                        className={`flex h-7 items-center rounded-lg border px-2 text-[10px] font-bold uppercase tracking-wide transition-all ${
+                          isCustomSizeOpen
+                            ? "bg-[var(--bg-input)] text-[var(--text-primary)] border-[var(--border-subtle)]"
+                            : "border-transparent text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-input)]"
+                        }`}
+                      >
+                        {formatResolution(customSize)}
+                      </button>
+                     ) : null}
+
                      {/* Quality Selector (Integrated) */}
                      <div className="relative group/select">
                         <select
@@ -448,6 +772,20 @@ export function Header({
                         </div>
                      </div>
 
+                     <button
+                       type="button"
+                       onClick={() => setIsEncodingOpen((value) => !value)}
+                       title="Output quality and max size"
+                       className={`flex h-7 items-center rounded-lg border px-2 text-[10px] font-bold uppercase tracking-wide transition-all ${
+                         isEncodingOpen
+                           ? "bg-[var(--bg-input)] text-[var(--text-primary)] border-[var(--border-subtle)]"
+                           : "border-transparent text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-input)]"
+                       }`}
+                     >
+                       {outputFormat === "png" ? "Size" : `Q${outputEncoding.quality}`}
+                       {outputEncoding.maxDimension ? <span className="ml-1 h-1.5 w-1.5 rounded-full bg-[var(--accent-primary)]" /> : null}
+                     </button>
+
                      {/* Image Count Selector */}
                       <div className="flex items-center rounded-lg bg-[var(--bg-input)] border border-[var(--border-subtle)] p-0.5">
                          {[1, 2, 3, 4].map((count) => (
@@ -487,19 +825,19 @@ export function Header({
                     className="group relative flex items-center gap-2 rounded-xl bg-[var(--accent-primary)] px-6 py-2.5 text-sm font-bold text-[var(--accent-primary-text)] shadow-[0_0_24px_-6px_rgba(255,215,0,0.4)] transition-all hover:scale-[1.02] hover:bg-[var(--accent-primary-hover)] hover:shadow-[0_0_32px_-6px_rgba(255,215,0,0.6)] active:scale-[0.98] disabled:cursor-not-allowed disabled:opacity-50 disabled:shadow-none disabled:grayscale"
                  >
                      <LightningIcon className="h-4 w-4" />
-                     <span>{isBudgetLocked ? "Limit Reached" : "Generate"}</span>
+                     <span>{isBudgetLocked ? "Limit Reached" : batchMode ? "Submit Batch" : "Generate"}</span>
                  </button>
             </div>
             
              {/* Settings Panel */}
              {isSettingsOpen ? (
-                <div ref={panelRef} className="absolute bottom-[calc(100%+8px)] left-0 right-0 z-20 rounded-2xl border border-[var(--border-subtle)] bg-[var(--bg-panel)] p-4 shadow-2xl animate-in fade-in slide-in-from-bottom-1 duration-200">
+                <div ref={panelRef} className="absolute bottom-[calc(100%+8px)] left-0 right-0 z-20 max-h-[75vh] overflow-y-auto rounded-2xl border border-[var(--border-subtle)] bg-[var(--bg-panel)] p-4 shadow-2xl animate-in fade-in slide-in-from-bottom-1 duration-200">
                      <div className="flex flex-col gap-4">
-                        {getModelDefinition(model)?.supportsFal ? (
+                        {providerOptions.length > 1 ? (
                           <div className="space-y-2">
                             <span className="block text-xs font-bold uppercase tracking-wider text-[var(--text-muted)]">Provider</span>
                             <div className="flex gap-2">
-                              {PROVIDER_OPTIONS.map((opt) => (
+                              {providerOptions.map((opt) => (
                                 <button
                                   key={opt.value}
                                   type="button"
@@ -517,7 +855,7 @@ export function Header({
                           </div>
                         ) : null}
 
-                        {provider === "fal" && getModelDefinition(model)?.supportsFal ? (
+                        {provider === "fal" ? (
                           <div className="space-y-2">
                               <span className="block text-xs font-bold uppercase tracking-wider text-[var(--text-muted)]">FAL API Key</span>
                               <input
@@ -530,8 +868,43 @@ export function Header({
                           </div>
                         ) : null}
 
+                        {providerSettingsFields.map((field) => (
+                          <div key={field.key} className="space-y-2">
+                              <span className="block text-xs font-bold uppercase tracking-wider text-[var(--text-muted)]">{field.label}</span>
+                              <input
+                                  value={providerSettings[field.key] ?? ""}
+                                  onChange={(e) => onProviderSettingsChange({ ...providerSettings, [field.key]: e.target.value })}
+                                  type={field.secret ? "password" : "text"}
+                                  placeholder={field.placeholder}
+                                  className="w-full rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-3 py-2 text-sm text-[var(--text-secondary)] focus:border-white focus:text-white focus:outline-none transition-all"
+                              />
+                          </div>
+                        ))}
+
                         <KeyManager keys={geminiApiKeys} onChange={onGeminiApiKeysChange} />
 
+                        <label className="flex items-center justify-between gap-3 cursor-pointer">
+                          <div className="flex flex-col">
+                            <span className="text-sm text-[var(--text-primary)]">Run on Server</span>
+                            <span className="text-[10px] text-[var(--text-muted)]">Generations keep running if you close or reload the tab (self-hosted only)</span>
+                          </div>
+                          <button
+                            type="button"
+                            role="switch"
+                            aria-checked={serverJobs}
+                            onClick={() => onServerJobsChange(!serverJobs)}
+                            className={`relative h-6 w-11 shrink-0 rounded-full transition-colors ${
+                              serverJobs ? "bg-[var(--accent-primary)]" : "bg-[var(--bg-input)] border border-[var(--border-subtle)]"
+                            }`}
+                          >
+                            <span
+                              className={`absolute top-0.5 left-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform ${
+                                serverJobs ? "translate-x-5" : "translate-x-0"
+                              }`}
+                            />
+                          </button>
+                        </label>
+
                         <p className="text-[10px] font-bold text-orange-400 mt-1 text-center">
                           API calls may fail or incur charges; you are fully responsible for any usage.
                         </p>
@@ -571,6 +944,14 @@ export function Header({
                             </label>
                           </div>
                         )}
+
+                        <BackupPanel onExport={onExportBackup} onImport={onImportBackup} />
+
+                        <StoragePanel
+                          policy={storagePolicy}
+                          onPolicyChange={onStoragePolicyChange}
+                          onApply={onApplyStoragePolicy}
+                        />
                      </div>
                 </div>
             ) : null}
@@ -1,12 +1,15 @@
 "use client";
 
-import { useCallback, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
   buildGeminiEndpoint,
-  getGeminiApiKey,
+  getGeminiAuthHeaders,
   parseGeminiKeyTarget,
   VERTEX_KEY_FORMAT,
+  VERTEX_SERVICE_ACCOUNT_FORMAT,
+  VERTEX_TOKEN_FORMAT,
 } from "../../lib/gemini-key-target";
+import { getKeyCooldownRemaining, subscribeKeyCooldowns } from "../../lib/gemini-key-pool";
 import { SpinnerIcon } from "./icons";
 
 type KeyStatus = "alive" | "dead" | "unknown" | "testing";
@@ -19,14 +22,13 @@ function maskKey(key: string): string {
 async function testSingleKey(key: string): Promise<KeyStatus> {
   try {
     const target = parseGeminiKeyTarget(key);
-    const apiKey = getGeminiApiKey(target);
     const endpoint = buildGeminiEndpoint(target, "gemini-3-pro-image-preview", "countTokens");
 
     const response = await fetch(endpoint, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "x-goog-api-key": apiKey,
+        ...(await getGeminiAuthHeaders(target)),
       },
       body: JSON.stringify({
         contents: [{ role: "user", parts: [{ text: "test" }] }],
@@ -54,6 +56,16 @@ export function KeyManager({ keys, onChange }: KeyManagerProps) {
   const [pasteText, setPasteText] = useState("");
   const [showPaste, setShowPaste] = useState(false);
   const abortRef = useRef(false);
+  const [, setCooldownTick] = useState(0);
+
+  // Re-render when a key starts cooling down, and once a second while any key is cooling.
+  useEffect(() => subscribeKeyCooldowns(() => setCooldownTick((tick) => tick + 1)), []);
+  const hasCoolingKeys = keys.some((key) => getKeyCooldownRemaining(key) > 0);
+  useEffect(() => {
+    if (!hasCoolingKeys) return;
+    const id = window.setInterval(() => setCooldownTick((tick) => tick + 1), 1000);
+    return () => window.clearInterval(id);
+  }, [hasCoolingKeys]);
 
   const hasDeadKeys = Array.from(statuses.entries()).some(
     ([key, status]) => status === "dead" && keys.includes(key),
@@ -186,14 +198,22 @@ export function KeyManager({ keys, onChange }: KeyManagerProps) {
                   ? "border-[var(--accent-primary)]/30 bg-[var(--accent-primary)]/5 text-[var(--text-primary)]"
                   : "border-[var(--border-subtle)] bg-[var(--bg-input)] text-[var(--text-secondary)] cursor-pointer hover:border-[var(--text-muted)]"
               }`}
-              title={index === 0 ? "Active key" : "Click to set as active"}
+              title={index === 0 ? "Primary key (requests rotate across all keys)" : "Click to make primary"}
             >
               {index === 0 ? (
                 <span className="text-[8px] font-bold uppercase tracking-wider text-[var(--accent-primary)] shrink-0">
-                  Active
+                  Primary
                 </span>
               ) : null}
               <span className="flex-1 truncate">{maskKey(key)}</span>
+              {getKeyCooldownRemaining(key) > 0 && statuses.get(key) !== "testing" ? (
+                <span
+                  className="inline-flex items-center rounded-full bg-sky-950/40 px-1.5 py-0.5 text-[9px] font-bold text-sky-400 border border-sky-800/50"
+                  title="Rate-limited; skipped until the cooldown ends"
+                >
+                  {Math.ceil(getKeyCooldownRemaining(key) / 1000)}s
+                </span>
+              ) : null}
               {statusBadge(statuses.get(key))}
               <button
                 type="button"
@@ -250,7 +270,7 @@ export function KeyManager({ keys, onChange }: KeyManagerProps) {
           <textarea
             value={pasteText}
             onChange={(e) => setPasteText(e.target.value)}
-            placeholder={`Paste API keys, one per line...\nAIzaSy...\n${VERTEX_KEY_FORMAT}`}
+            placeholder={`Paste API keys, one per line...\nAIzaSy...\n${VERTEX_KEY_FORMAT}\n${VERTEX_SERVICE_ACCOUNT_FORMAT}`}
             rows={4}
             className="w-full rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-3 py-2 text-xs font-mono text-[var(--text-secondary)] placeholder:text-[var(--text-muted)]/50 focus:border-white focus:text-white focus:outline-none transition-all resize-none"
           />
@@ -266,7 +286,7 @@ export function KeyManager({ keys, onChange }: KeyManagerProps) {
       )}
 
       <p className="text-[9px] text-[var(--text-muted)]">
-        Keys are stored locally on your device. Use {VERTEX_KEY_FORMAT} for Vertex AI billing keys.
+        Keys are stored locally on your device. Requests rotate across keys and skip rate-limited ones. Use {VERTEX_KEY_FORMAT} for Vertex AI billing keys, {VERTEX_TOKEN_FORMAT} for an OAuth access token, or {VERTEX_SERVICE_ACCOUNT_FORMAT} to use the server&apos;s service account.
       </p>
     </div>
   );
@@ -2,11 +2,21 @@ import Image from "next/image";
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { WheelEvent } from "react";
 
-import { getAspectDescription, getQualityLabel, type QualityKey } from "../../lib/seedream-options";
+import {
+  ASPECT_OPTIONS,
+  formatResolution,
+  getAspectDescription,
+  getOutputFormatLabel,
+  getQualityLabel,
+  type AspectKey,
+  type QualityKey,
+} from "../../lib/seedream-options";
 import { CompareSlider } from "./compare-slider";
+import { MarkupCanvas, type MarkupExport } from "./markup-canvas";
+import { OUTPAINT_ANCHORS, type OutpaintAnchor } from "./outpaint";
 import { ArrowLeftIcon, ArrowRightIcon, DownloadIcon, PlusIcon, SpinnerIcon, HeartIcon, HeartFilledIcon, CopyIcon, CheckIcon, UpscaleIcon, KeyboardIcon } from "./icons";
 import type { GalleryEntry } from "./types";
-import { generateSmartFilename } from "./utils";
+import { formatBytes, generateSmartFilename } from "./utils";
 
 // Upscale options based on current quality
 const UPSCALE_OPTIONS: Record<QualityKey, QualityKey[]> = {
@@ -25,6 +35,10 @@ type LightboxProps = {
   canGoPrev: boolean;
   canGoNext: boolean;
   onEdit?: () => void;
+  /** Receives the mask or annotated copy drawn in mark-up mode. */
+  onMarkupEdit?: (markup: MarkupExport) => void;
+  onExtendCanvas?: (aspect: AspectKey, anchor: OutpaintAnchor) => void;
+  onContinueSession?: () => void;
   currentIndex?: number;
   totalCount?: number;
   // New props for Midjourney-style features
@@ -48,6 +62,9 @@ export function Lightbox({
   canGoPrev,
   canGoNext,
   onEdit,
+  onMarkupEdit,
+  onExtendCanvas,
+  onContinueSession,
   currentIndex = 0,
   totalCount = 1,
   isFavorite = false,
@@ -70,6 +87,10 @@ export function Lightbox({
   const [showUpscaleMenu, setShowUpscaleMenu] = useState(false);
   const [heartBurst, setHeartBurst] = useState(false);
   const [showPromptExpanded, setShowPromptExpanded] = useState(false);
+  const [isMarkupMode, setIsMarkupMode] = useState(false);
+  const [showExtendPanel, setShowExtendPanel] = useState(false);
+  const [extendAspect, setExtendAspect] = useState<AspectKey>("landscape-16-9");
+  const [extendAnchor, setExtendAnchor] = useState<OutpaintAnchor>("center");
 
   const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 });
   const isDragging = useRef(false);
@@ -158,6 +179,8 @@ export function Lightbox({
 
   useEffect(() => {
     setIsCompareMode(false);
+    setIsMarkupMode(false);
+    setShowExtendPanel(false);
     setSelectedReferenceIndex(0);
     setCompareSliderPosition(50);
     setTransform({ x: 0, y: 0, scale: 1 });
@@ -187,6 +210,15 @@ export function Lightbox({
         return;
       }
 
+      // Drawing owns the keyboard; Escape leaves mark-up mode instead of the lightbox.
+      if (isMarkupMode) {
+        if (event.key === "Escape") {
+          event.preventDefault();
+          setIsMarkupMode(false);
+        }
+        return;
+      }
+
       if (event.key === "ArrowLeft" && canGoPrev) {
         event.preventDefault();
         onPrev();
@@ -249,10 +281,11 @@ export function Lightbox({
     return () => {
       document.removeEventListener("keydown", handleKey);
     };
-  }, [onPrev, onNext, onClose, canGoPrev, canGoNext, handleFavoriteClick, isDownloading, onDownload, canUpscale, onShowShortcuts, showUpscaleMenu, handleCopyPrompt, handleCopyImage]);
+  }, [onPrev, onNext, onClose, canGoPrev, canGoNext, handleFavoriteClick, isDownloading, onDownload, canUpscale, onShowShortcuts, showUpscaleMenu, handleCopyPrompt, handleCopyImage, isMarkupMode]);
 
   const handleWheel = (event: WheelEvent<HTMLDivElement>) => {
     event.stopPropagation();
+    if (isMarkupMode) return;
     const scaleAmount = -event.deltaY * 0.001;
     const newScale = Math.min(Math.max(0.1, transform.scale * (1 + scaleAmount)), 8);
 
@@ -263,6 +296,7 @@ export function Lightbox({
   };
 
   const handleMouseDown = (event: React.MouseEvent) => {
+    if (isMarkupMode) return;
     const isLeft = event.button === 0;
     const isRight = event.button === 2;
 
@@ -413,6 +447,15 @@ export function Lightbox({
           onMouseLeave={handleMouseUp}
           onContextMenu={(e) => e.preventDefault()}
         >
+          {isMarkupMode && onMarkupEdit ? (
+            <MarkupCanvas
+              src={entry.src}
+              alt={entry.prompt}
+              onCancel={() => setIsMarkupMode(false)}
+              onApply={onMarkupEdit}
+            />
+          ) : (
+          <>
           {canGoPrev ? (
             <button
               type="button"
@@ -471,6 +514,8 @@ export function Lightbox({
               <ArrowRightIcon className="h-5 w-5" />
             </button>
           ) : null}
+          </>
+          )}
         </div>
 
         {/* Sidebar for Details */}
@@ -584,14 +629,40 @@ export function Lightbox({
             <div className="grid grid-cols-2 gap-3 text-xs text-[var(--text-secondary)] mb-3 md:mb-4">
               <div className="p-2 rounded-lg bg-[var(--bg-input)] border border-[var(--border-subtle)]">
                 <span className="block text-[10px] uppercase tracking-wide opacity-60 mb-1">Aspect</span>
-                {getAspectDescription(entry.aspect)}
+                {entry.aspect === "custom" ? `Custom · ${formatResolution(entry.size)}` : getAspectDescription(entry.aspect)}
               </div>
               <div className="p-2 rounded-lg bg-[var(--bg-input)] border border-[var(--border-subtle)]">
                 <span className="block text-[10px] uppercase tracking-wide opacity-60 mb-1">Quality</span>
                 {getQualityLabel(entry.quality)}
               </div>
+              {entry.file ? (
+                <div className="col-span-2 p-2 rounded-lg bg-[var(--bg-input)] border border-[var(--border-subtle)]">
+                  <span className="block text-[10px] uppercase tracking-wide opacity-60 mb-1">File</span>
+                  {getOutputFormatLabel(entry.file.format)} · {formatBytes(entry.file.bytes)}
+                </div>
+              ) : null}
             </div>
 
+            {/* Model Notes */}
+            {entry.note?.text || entry.note?.thoughts ? (
+              <div className="mb-4">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-[var(--text-muted)] mb-2 block">Model Notes</span>
+                <div className="rounded-lg bg-[var(--bg-input)] border border-[var(--border-subtle)] p-3 text-xs leading-relaxed max-h-48 overflow-y-auto">
+                  {entry.note.text ? (
+                    <p className="whitespace-pre-wrap text-[var(--text-secondary)]">{entry.note.text}</p>
+                  ) : null}
+                  {entry.note.thoughts ? (
+                    <details className={`text-[var(--text-muted)] ${entry.note.text ? "mt-2" : ""}`}>
+                      <summary className="cursor-pointer text-[10px] font-semibold uppercase tracking-wide hover:text-[var(--text-secondary)]">
+                        Thoughts
+                      </summary>
+                      <p className="mt-1 whitespace-pre-wrap italic">{entry.note.thoughts}</p>
+                    </details>
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+
             {/* Thumbnail Reel */}
             {allEntries.length > 1 && onNavigateToEntry && (
               <div className="mb-4">
@@ -754,6 +825,113 @@ export function Lightbox({
               </button>
             ) : null}
 
+            {onMarkupEdit ? (
+              <button
+                type="button"
+                onClick={() => setIsMarkupMode((previous) => !previous)}
+                title="Draw a mask, boxes, arrows, or notes to show where to edit"
+                className={`flex w-full items-center justify-center gap-2 rounded-lg border px-4 py-2.5 text-sm font-semibold transition-colors ${
+                  isMarkupMode
+                    ? "border-[var(--text-primary)] bg-[var(--text-primary)] text-black"
+                    : "border-[var(--border-subtle)] bg-[var(--bg-input)] text-[var(--text-secondary)] hover:bg-[var(--bg-subtle)] hover:text-white hover:border-[var(--text-muted)]"
+                }`}
+              >
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4">
+                  <path d="M12 20h9" />
+                  <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
+                </svg>
+                {isMarkupMode ? "Exit Mark-Up" : "Mark Up & Edit"}
+              </button>
+            ) : null}
+
+            {onExtendCanvas ? (
+              <div className="flex flex-col gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowExtendPanel((previous) => !previous)}
+                  title="Outpaint the image onto a wider or taller canvas"
+                  className={`flex w-full items-center justify-center gap-2 rounded-lg border border-[var(--border-subtle)] px-4 py-2.5 text-sm font-semibold transition-colors hover:text-white hover:border-[var(--text-muted)] ${showExtendPanel
+                    ? "bg-[var(--bg-subtle)] text-white border-[var(--text-muted)]"
+                    : "bg-[var(--bg-input)] text-[var(--text-secondary)]"
+                    }`}
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4">
+                    <polyline points="15 3 21 3 21 9" />
+                    <polyline points="9 21 3 21 3 15" />
+                    <line x1="21" y1="3" x2="14" y2="10" />
+                    <line x1="3" y1="21" x2="10" y2="14" />
+                  </svg>
+                  Extend Canvas
+                </button>
+
+                {showExtendPanel ? (
+                  <div className="flex items-start gap-3 rounded-lg bg-[var(--bg-subtle)] p-3">
+                    <div className="flex flex-1 flex-col gap-2">
+                      <label className="text-[10px] font-bold uppercase tracking-wider text-[var(--text-muted)]" htmlFor="extend-aspect">
+                        New aspect
+                      </label>
+                      <select
+                        id="extend-aspect"
+                        value={extendAspect}
+                        onChange={(event) => setExtendAspect(event.target.value as AspectKey)}
+                        className="rounded-md bg-[var(--bg-input)] border border-[var(--border-subtle)] px-2 py-1.5 text-xs font-semibold text-[var(--text-secondary)] focus:outline-none"
+                      >
+                        {ASPECT_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.description} · {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          onExtendCanvas(extendAspect, extendAnchor);
+                          setShowExtendPanel(false);
+                        }}
+                        className="rounded-md bg-[var(--text-primary)] px-3 py-1.5 text-xs font-bold text-black transition-opacity hover:opacity-90"
+                      >
+                        Extend
+                      </button>
+                    </div>
+                    <div className="flex flex-col gap-2">
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-[var(--text-muted)]">Anchor</span>
+                      <div className="grid grid-cols-3 gap-1" role="radiogroup" aria-label="Where the original sits">
+                        {OUTPAINT_ANCHORS.map((anchor) => (
+                          <button
+                            key={anchor}
+                            type="button"
+                            role="radio"
+                            aria-checked={extendAnchor === anchor}
+                            aria-label={anchor}
+                            title={anchor}
+                            onClick={() => setExtendAnchor(anchor)}
+                            className={`h-5 w-5 rounded-sm border transition-colors ${extendAnchor === anchor
+                              ? "border-[var(--text-primary)] bg-[var(--text-primary)]"
+                              : "border-[var(--border-subtle)] bg-[var(--bg-input)] hover:border-[var(--text-muted)]"
+                              }`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+
+            {onContinueSession ? (
+              <button
+                type="button"
+                onClick={onContinueSession}
+                title="Follow-up prompts refine this image with the conversation that produced it"
+                className="flex w-full items-center justify-center gap-2 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-4 py-2.5 text-sm font-semibold text-[var(--text-secondary)] transition-colors hover:bg-[var(--bg-subtle)] hover:text-white hover:border-[var(--text-muted)]"
+              >
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4">
+                  <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+                </svg>
+                Refine in Edit Session
+              </button>
+            ) : null}
+
             {/* Keyboard Shortcuts Hint */}
             <div className="flex items-center justify-center gap-4 pt-2 text-[10px] text-[var(--text-muted)]">
               <span className="flex items-center gap-1">
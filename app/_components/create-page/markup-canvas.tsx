@@ -0,0 +1,405 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useRef, useState } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+
+type Point = { x: number; y: number };
+
+// Coordinates are in the image's own pixels, so exports line up with the original at any zoom.
+type MarkupShape =
+  | { kind: "brush"; points: Point[]; size: number }
+  | { kind: "rect"; from: Point; to: Point }
+  | { kind: "arrow"; from: Point; to: Point }
+  | { kind: "text"; at: Point; text: string };
+
+type MarkupTool = MarkupShape["kind"];
+
+export type MarkupExport = {
+  /** PNG at the source image's resolution. */
+  dataUrl: string;
+  name: string;
+  /** Sentence for the prompt explaining how the model should read the exported image. */
+  instruction: string;
+};
+
+const TOOLS: { id: MarkupTool; label: string }[] = [
+  { id: "brush", label: "Mask Brush" },
+  { id: "rect", label: "Rectangle" },
+  { id: "arrow", label: "Arrow" },
+  { id: "text", label: "Text Note" },
+];
+
+const MARKUP_COLOR = "#ff3b30";
+const MARKUP_FILL = "rgba(255, 59, 48, 0.45)";
+
+// Brush strokes and rectangles mark a region, which a mask states exactly.
+// Arrows and notes only mean something drawn over the picture.
+function exportsAsMask(shapes: MarkupShape[]): boolean {
+  return shapes.every((shape) => shape.kind === "brush" || shape.kind === "rect");
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, from: Point, to: Point, headLength: number) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.moveTo(to.x - headLength * Math.cos(angle - Math.PI / 6), to.y - headLength * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(to.x, to.y);
+  ctx.lineTo(to.x - headLength * Math.cos(angle + Math.PI / 6), to.y - headLength * Math.sin(angle + Math.PI / 6));
+  ctx.stroke();
+}
+
+/** "mask" paints marked regions white (callers fill the background black); "overlay" draws visible red markup. */
+function drawShapes(
+  ctx: CanvasRenderingContext2D,
+  shapes: MarkupShape[],
+  mode: "mask" | "overlay",
+  size: { width: number; height: number },
+) {
+  const unit = Math.max(size.width, size.height) / 400;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  for (const shape of shapes) {
+    if (shape.kind === "brush") {
+      ctx.strokeStyle = mode === "mask" ? "#fff" : MARKUP_FILL;
+      ctx.lineWidth = shape.size;
+      ctx.beginPath();
+      shape.points.forEach((point, index) =>
+        index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y),
+      );
+      // A click without a drag still leaves a dot.
+      if (shape.points.length === 1) {
+        ctx.lineTo(shape.points[0].x + 0.01, shape.points[0].y);
+      }
+      ctx.stroke();
+    } else if (shape.kind === "rect") {
+      const x = Math.min(shape.from.x, shape.to.x);
+      const y = Math.min(shape.from.y, shape.to.y);
+      const width = Math.abs(shape.to.x - shape.from.x);
+      const height = Math.abs(shape.to.y - shape.from.y);
+      if (mode === "mask") {
+        ctx.fillStyle = "#fff";
+        ctx.fillRect(x, y, width, height);
+      } else {
+        ctx.fillStyle = "rgba(255, 59, 48, 0.15)";
+        ctx.fillRect(x, y, width, height);
+        ctx.strokeStyle = MARKUP_COLOR;
+        ctx.lineWidth = 3 * unit;
+        ctx.strokeRect(x, y, width, height);
+      }
+    } else if (mode === "overlay" && shape.kind === "arrow") {
+      ctx.strokeStyle = MARKUP_COLOR;
+      ctx.lineWidth = 3 * unit;
+      drawArrow(ctx, shape.from, shape.to, 14 * unit);
+    } else if (mode === "overlay" && shape.kind === "text") {
+      const fontSize = 14 * unit;
+      ctx.font = `600 ${fontSize}px sans-serif`;
+      ctx.textBaseline = "top";
+      const padding = fontSize * 0.35;
+      const textWidth = ctx.measureText(shape.text).width;
+      ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
+      ctx.fillRect(shape.at.x, shape.at.y, textWidth + padding * 2, fontSize + padding * 2);
+      ctx.fillStyle = MARKUP_COLOR;
+      ctx.fillText(shape.text, shape.at.x + padding, shape.at.y + padding);
+    }
+  }
+}
+
+function describeMarkup(shapes: MarkupShape[]): string {
+  if (exportsAsMask(shapes)) {
+    return "Edit only the white area of the mask (the last reference image) and keep everything outside it exactly as it is.";
+  }
+  const notes = shapes.flatMap((shape) => (shape.kind === "text" ? [`"${shape.text}"`] : []));
+  const noteList = notes.length > 0 ? ` (notes: ${notes.join(", ")})` : "";
+  return `The last reference image is a copy of the original with red markup showing what to change${noteList}. Apply those changes to the original image and leave no markup in the result.`;
+}
+
+function loadImageElement(src: string, crossOrigin: boolean): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new window.Image();
+    if (crossOrigin) {
+      image.crossOrigin = "anonymous";
+    }
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load image"));
+    image.src = src;
+  });
+}
+
+type MarkupCanvasProps = {
+  src: string;
+  alt: string;
+  onCancel: () => void;
+  onApply: (markup: MarkupExport) => void;
+};
+
+export function MarkupCanvas({ src, alt, onCancel, onApply }: MarkupCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<MarkupTool>("brush");
+  const [brushSize, setBrushSize] = useState(0);
+  const [shapes, setShapes] = useState<MarkupShape[]>([]);
+  const [draft, setDraft] = useState<MarkupShape | null>(null);
+  const [textDraft, setTextDraft] = useState<{ at: Point; left: number; top: number; value: string } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Outputs can differ from the requested size, so measure the real image.
+  useEffect(() => {
+    let cancelled = false;
+    setSize(null);
+    setShapes([]);
+    loadImageElement(src, false)
+      .then((image) => {
+        if (cancelled) {
+          return;
+        }
+        setSize({ width: image.naturalWidth, height: image.naturalHeight });
+        setBrushSize(Math.round(Math.max(image.naturalWidth, image.naturalHeight) / 25));
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setExportError("Couldn't load this image for mark-up.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !size) {
+      return;
+    }
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawShapes(ctx, draft ? [...shapes, draft] : shapes, "overlay", size);
+  }, [shapes, draft, size]);
+
+  const toImagePoint = (event: ReactPointerEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * (size?.width ?? rect.width),
+      y: ((event.clientY - rect.top) / rect.height) * (size?.height ?? rect.height),
+    };
+  };
+
+  const commitText = () => {
+    const text = textDraft?.value.trim();
+    if (textDraft && text) {
+      setShapes((previous) => [...previous, { kind: "text", at: textDraft.at, text }]);
+    }
+    setTextDraft(null);
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (event.button !== 0 || !size) {
+      return;
+    }
+    event.stopPropagation();
+    const point = toImagePoint(event);
+
+    if (tool === "text") {
+      commitText();
+      const rect = event.currentTarget.getBoundingClientRect();
+      setTextDraft({ at: point, left: event.clientX - rect.left, top: event.clientY - rect.top, value: "" });
+      return;
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft(tool === "brush" ? { kind: "brush", points: [point], size: brushSize } : { kind: tool, from: point, to: point });
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (!draft) {
+      return;
+    }
+    const point = toImagePoint(event);
+    setDraft((current) => {
+      if (!current || current.kind === "text") {
+        return current;
+      }
+      return current.kind === "brush" ? { ...current, points: [...current.points, point] } : { ...current, to: point };
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) {
+      return;
+    }
+    // Ignore rectangles and arrows that were only clicked, not dragged.
+    const isEmpty = (draft.kind === "rect" || draft.kind === "arrow") && draft.from.x === draft.to.x && draft.from.y === draft.to.y;
+    if (!isEmpty) {
+      setShapes((previous) => [...previous, draft]);
+    }
+    setDraft(null);
+  };
+
+  const handleApply = async () => {
+    if (!size || shapes.length === 0) {
+      return;
+    }
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const canvas = document.createElement("canvas");
+      canvas.width = size.width;
+      canvas.height = size.height;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        throw new Error("No canvas context");
+      }
+
+      const asMask = exportsAsMask(shapes);
+      if (asMask) {
+        ctx.fillStyle = "#000";
+        ctx.fillRect(0, 0, size.width, size.height);
+        drawShapes(ctx, shapes, "mask", size);
+      } else {
+        ctx.drawImage(await loadImageElement(src, true), 0, 0, size.width, size.height);
+        drawShapes(ctx, shapes, "overlay", size);
+      }
+
+      onApply({
+        dataUrl: canvas.toDataURL("image/png"),
+        name: asMask ? "Edit mask" : "Edit markup",
+        instruction: describeMarkup(shapes),
+      });
+    } catch (error) {
+      console.error("Failed to export markup", error);
+      setExportError("Couldn't read this image to draw on it. Try downloading and re-uploading it.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const maxDimension = size ? Math.max(size.width, size.height) : 0;
+
+  return (
+    <div className="flex h-full w-full flex-col items-center gap-3 p-3">
+      <div className="flex flex-wrap items-center justify-center gap-1.5 rounded-xl border border-[var(--border-subtle)] bg-[var(--bg-panel)] px-2 py-1.5">
+        {TOOLS.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => setTool(option.id)}
+            className={`rounded-lg px-2.5 py-1 text-[10px] font-bold uppercase tracking-wide transition-colors ${
+              tool === option.id
+                ? "bg-[var(--text-primary)] text-black"
+                : "text-[var(--text-muted)] hover:bg-[var(--bg-input)] hover:text-[var(--text-primary)]"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        {tool === "brush" && maxDimension > 0 ? (
+          <input
+            type="range"
+            min={Math.round(maxDimension / 100)}
+            max={Math.round(maxDimension / 8)}
+            value={brushSize}
+            onChange={(event) => setBrushSize(Number(event.target.value))}
+            className="w-20 accent-[var(--accent-primary)]"
+            aria-label="Brush size"
+          />
+        ) : null}
+        <span className="mx-1 h-4 w-px bg-[var(--border-subtle)]" />
+        <button
+          type="button"
+          onClick={() => setShapes((previous) => previous.slice(0, -1))}
+          disabled={shapes.length === 0}
+          className="rounded-lg px-2 py-1 text-[10px] font-bold uppercase tracking-wide text-[var(--text-muted)] hover:text-[var(--text-primary)] disabled:opacity-30"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={() => setShapes([])}
+          disabled={shapes.length === 0}
+          className="rounded-lg px-2 py-1 text-[10px] font-bold uppercase tracking-wide text-[var(--text-muted)] hover:text-[var(--text-primary)] disabled:opacity-30"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="relative flex min-h-0 flex-1 items-center justify-center">
+        {size ? (
+          <div className="relative">
+            <Image
+              src={src}
+              alt={alt}
+              width={size.width}
+              height={size.height}
+              unoptimized
+              className="block h-auto max-h-[65vh] w-auto max-w-full select-none"
+              draggable={false}
+            />
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              className={`absolute inset-0 h-full w-full touch-none ${tool === "text" ? "cursor-text" : "cursor-crosshair"}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+            {textDraft ? (
+              <input
+                autoFocus
+                value={textDraft.value}
+                onChange={(event) => setTextDraft({ ...textDraft, value: event.target.value })}
+                onBlur={commitText}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") {
+                    event.preventDefault();
+                    commitText();
+                  } else if (event.key === "Escape") {
+                    event.preventDefault();
+                    setTextDraft(null);
+                  }
+                }}
+                placeholder="Note…"
+                style={{ left: textDraft.left, top: textDraft.top }}
+                className="absolute w-40 rounded border border-[var(--border-subtle)] bg-white/90 px-1.5 py-0.5 text-xs font-semibold text-[#ff3b30] focus:outline-none"
+              />
+            ) : null}
+          </div>
+        ) : exportError ? null : (
+          <p className="text-xs text-[var(--text-muted)]">Loading image…</p>
+        )}
+      </div>
+
+      <div className="flex w-full max-w-xl flex-wrap items-center justify-between gap-2">
+        <span className="text-[10px] font-medium uppercase tracking-wider text-[var(--text-muted)]">
+          {shapes.length === 0
+            ? "Mark the area to change"
+            : exportsAsMask(shapes)
+              ? "Adds a mask to the prompt"
+              : "Adds an annotated copy to the prompt"}
+        </span>
+        {exportError ? <span className="text-[11px] text-[var(--color-error)]">{exportError}</span> : null}
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-lg px-3 py-1.5 text-xs font-semibold text-[var(--text-muted)] hover:text-[var(--text-primary)]"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleApply()}
+            disabled={shapes.length === 0 || isExporting}
+            className="rounded-lg bg-[var(--text-primary)] px-3 py-1.5 text-xs font-bold text-black transition-opacity hover:opacity-90 disabled:opacity-30"
+          >
+            {isExporting ? "Exporting…" : "Add to Prompt"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
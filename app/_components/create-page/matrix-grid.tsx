@@ -0,0 +1,121 @@
+"use client";
+
+import Image from "next/image";
+import { useMemo } from "react";
+import type { Generation, GenerationMatrix } from "./types";
+
+type MatrixGridProps = {
+  matrix: GenerationMatrix;
+  /** Every generation tagged with this matrix, newest first. */
+  generations: Generation[];
+  onExpand: (generationId: string, imageIndex: number) => void;
+};
+
+const cellKey = (values: string[]) => values.join("\u0000");
+
+/**
+ * Lays out one matrix run with the last permutation group across the columns
+ * and every combination of the earlier groups down the rows.
+ */
+export function MatrixGrid({ matrix, generations, onExpand }: MatrixGridProps) {
+  const columns = matrix.axes[matrix.axes.length - 1] ?? [];
+
+  const rows = useMemo(() => {
+    let combinations: string[][] = [[]];
+    for (const axis of matrix.axes.slice(0, -1)) {
+      combinations = combinations.flatMap((values) => axis.map((option) => [...values, option]));
+    }
+    return combinations;
+  }, [matrix.axes]);
+
+  // A retried cell shows up twice; the list is newest first, so the first one wins.
+  const cells = useMemo(() => {
+    const byValues = new Map<string, Generation>();
+    generations.forEach((generation) => {
+      const key = cellKey(generation.matrix?.values ?? []);
+      if (!byValues.has(key)) {
+        byValues.set(key, generation);
+      }
+    });
+    return byValues;
+  }, [generations]);
+
+  const hasRowLabels = matrix.axes.length > 1;
+
+  return (
+    <section className="flex flex-col gap-3">
+      <p className="text-sm text-[var(--text-secondary)]">
+        <span className="mr-2 text-[10px] font-semibold uppercase tracking-wider text-[var(--text-muted)]">Matrix</span>
+        {matrix.template}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-1">
+          <thead>
+            <tr>
+              {hasRowLabels ? <th /> : null}
+              {columns.map((column, columnIndex) => (
+                <th
+                  key={columnIndex}
+                  scope="col"
+                  className="max-w-[160px] truncate px-1 pb-1 text-left text-[11px] font-medium text-[var(--text-secondary)]"
+                >
+                  {column || "—"}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((rowValues, rowIndex) => (
+              <tr key={rowIndex}>
+                {hasRowLabels ? (
+                  <th
+                    scope="row"
+                    className="max-w-[160px] truncate pr-2 text-right text-[11px] font-medium text-[var(--text-secondary)]"
+                  >
+                    {rowValues.map((value) => value || "—").join(" · ")}
+                  </th>
+                ) : null}
+                {columns.map((column, columnIndex) => {
+                  const generation = cells.get(cellKey([...rowValues, column]));
+                  const imageIndex = generation ? generation.images.findIndex((image) => image.length > 0) : -1;
+                  const extraImages = generation ? generation.images.filter((image) => image.length > 0).length - 1 : 0;
+
+                  return (
+                    <td key={columnIndex} className="p-0 align-top">
+                      {generation && imageIndex >= 0 ? (
+                        <button
+                          type="button"
+                          onClick={() => onExpand(generation.id, imageIndex)}
+                          title={generation.prompt}
+                          className="group relative block h-40 w-40 overflow-hidden bg-[var(--bg-subtle)] focus:outline-none"
+                        >
+                          <Image
+                            src={generation.images[imageIndex]}
+                            alt={generation.prompt}
+                            width={320}
+                            height={320}
+                            className="h-full w-full object-cover transition-transform duration-500 group-hover:scale-110"
+                            unoptimized
+                          />
+                          {extraImages > 0 ? (
+                            <span className="absolute bottom-1 right-1 rounded-full bg-black/60 px-1.5 py-0.5 text-[10px] text-white">
+                              +{extraImages}
+                            </span>
+                          ) : null}
+                        </button>
+                      ) : (
+                        <div className="flex h-40 w-40 items-center justify-center bg-[var(--bg-subtle)] text-[10px] uppercase tracking-wider text-[var(--text-muted)]">
+                          {generation ? "Failed" : "Not run"}
+                        </div>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,109 @@
+import { getAspectDefinition, type AspectKey } from "../../lib/seedream-options";
+
+/** Where the original image sits on the extended canvas. */
+export type OutpaintAnchor =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+// Row by row, so it maps straight onto a 3×3 picker.
+export const OUTPAINT_ANCHORS: OutpaintAnchor[] = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+];
+
+const ANCHOR_POSITION: Record<OutpaintAnchor, { x: number; y: number }> = {
+  "top-left": { x: 0, y: 0 },
+  top: { x: 0.5, y: 0 },
+  "top-right": { x: 1, y: 0 },
+  left: { x: 0, y: 0.5 },
+  center: { x: 0.5, y: 0.5 },
+  right: { x: 1, y: 0.5 },
+  "bottom-left": { x: 0, y: 1 },
+  bottom: { x: 0.5, y: 1 },
+  "bottom-right": { x: 1, y: 1 },
+};
+
+// A flat mid-gray reads as "empty" to the model without biasing the new areas light or dark.
+const PADDING_COLOR = "#808080";
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new window.Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unable to load the image to extend."));
+    image.src = src;
+  });
+}
+
+/**
+ * Places the image on a gray canvas of the target aspect ratio, growing only
+ * the dimension that needs it so the original keeps its full resolution.
+ */
+export async function padImageToAspect(
+  src: string,
+  aspect: AspectKey,
+  anchor: OutpaintAnchor,
+): Promise<{ dataUrl: string; width: number; height: number }> {
+  const definition = getAspectDefinition(aspect);
+  if (!definition) {
+    throw new Error(`Unsupported aspect option: ${aspect}`);
+  }
+
+  const image = await loadImage(src);
+  const sourceWidth = image.naturalWidth;
+  const sourceHeight = image.naturalHeight;
+  const targetRatio = definition.widthRatio / definition.heightRatio;
+
+  let width = sourceWidth;
+  let height = sourceHeight;
+  if (targetRatio > sourceWidth / sourceHeight) {
+    width = Math.round(sourceHeight * targetRatio);
+  } else {
+    height = Math.round(sourceWidth / targetRatio);
+  }
+
+  if (width === sourceWidth && height === sourceHeight) {
+    throw new Error(`The image is already ${definition.description.replace(/\s/g, "")}. Pick another aspect ratio to extend to.`);
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Unable to prepare the extended canvas.");
+  }
+
+  const position = ANCHOR_POSITION[anchor];
+  ctx.fillStyle = PADDING_COLOR;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(
+    image,
+    Math.round((width - sourceWidth) * position.x),
+    Math.round((height - sourceHeight) * position.y),
+  );
+
+  return { dataUrl: canvas.toDataURL("image/png"), width, height };
+}
+
+export function buildOutpaintPrompt(originalPrompt: string): string {
+  const instruction =
+    "Extend this image outward to fill the flat gray areas around it. Keep the existing picture exactly as it is and continue the scene seamlessly into the new space with matching lighting, perspective, and style. No gray areas, borders, or seams should remain.";
+  const scene = originalPrompt.trim();
+  return scene ? `${instruction}\n\nOriginal scene: ${scene}` : instruction;
+}
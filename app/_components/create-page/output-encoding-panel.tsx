@@ -0,0 +1,92 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_OUTPUT_ENCODING,
+  MIN_OUTPUT_DIMENSION,
+  type OutputEncoding,
+} from "../../lib/image-conversion";
+import { getOutputFormatLabel, type OutputFormat } from "../../lib/seedream-options";
+
+type OutputEncodingPanelProps = {
+  encoding: OutputEncoding;
+  format: OutputFormat;
+  onChange: (encoding: OutputEncoding) => void;
+};
+
+const FIELD_LABEL_CLASS = "block text-[10px] font-bold uppercase tracking-wider text-[var(--text-muted)]";
+const INPUT_CLASS =
+  "w-full rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-2.5 py-1.5 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-1 focus:ring-white/20";
+
+export function OutputEncodingPanel({ encoding, format, onChange }: OutputEncodingPanelProps) {
+  // A draft lets "1" sit in the field on the way to "1024" without being rejected as too small.
+  const [maxDraft, setMaxDraft] = useState(encoding.maxDimension ? String(encoding.maxDimension) : "");
+  const isLossless = format === "png";
+  const isDefault =
+    encoding.quality === DEFAULT_OUTPUT_ENCODING.quality && encoding.maxDimension === DEFAULT_OUTPUT_ENCODING.maxDimension;
+
+  useEffect(() => {
+    setMaxDraft(encoding.maxDimension ? String(encoding.maxDimension) : "");
+  }, [encoding.maxDimension]);
+
+  const updateMaxDimension = (raw: string) => {
+    setMaxDraft(raw);
+    const value = Number(raw);
+    if (raw.trim() === "") {
+      onChange({ ...encoding, maxDimension: null });
+    } else if (Number.isInteger(value) && value >= MIN_OUTPUT_DIMENSION) {
+      onChange({ ...encoding, maxDimension: value });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 px-4 pb-3 animate-in fade-in slide-in-from-top-2 duration-300">
+      <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-wider text-[var(--text-muted)]">
+        <span>{getOutputFormatLabel(format)} output</span>
+        {isDefault ? null : (
+          <button
+            type="button"
+            onClick={() => onChange(DEFAULT_OUTPUT_ENCODING)}
+            className="transition-colors hover:text-[var(--text-primary)]"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <label className="col-span-2 space-y-1">
+          <span className={FIELD_LABEL_CLASS}>Quality · {isLossless ? "lossless" : encoding.quality}</span>
+          <input
+            type="range"
+            min={1}
+            max={100}
+            step={1}
+            value={encoding.quality}
+            disabled={isLossless}
+            onChange={(event) => onChange({ ...encoding, quality: Number(event.target.value) })}
+            className="w-full accent-[var(--accent-primary)] disabled:opacity-40 disabled:cursor-not-allowed"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className={FIELD_LABEL_CLASS}>Max size (px)</span>
+          <input
+            type="number"
+            min={MIN_OUTPUT_DIMENSION}
+            step={1}
+            placeholder="Original"
+            value={maxDraft}
+            onChange={(event) => updateMaxDimension(event.target.value)}
+            onBlur={() => setMaxDraft(encoding.maxDimension ? String(encoding.maxDimension) : "")}
+            className={INPUT_CLASS}
+          />
+        </label>
+      </div>
+
+      <p className="text-[11px] text-[var(--text-muted)]">
+        Images are converted in your browser after they arrive. A max size downscales the longest side and must be at
+        least {MIN_OUTPUT_DIMENSION}px.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+// A group needs at least one "|", so ordinary braces in a prompt stay literal.
+const GROUP_PATTERN = /\{([^{}]*\|[^{}]*)\}/g;
+
+/** Keeps an accidental `{a|b|c|d} {e|f|g|h} {i|j|k|l}` from queuing hundreds of paid requests. */
+export const MAX_PROMPT_EXPANSIONS = 64;
+
+export type PromptExpansion = {
+  prompt: string;
+  /** The option picked from each group, in prompt order. */
+  values: string[];
+};
+
+export type PromptMatrix = {
+  /** Options of every `{a|b}` group, in prompt order. */
+  axes: string[][];
+  expansions: PromptExpansion[];
+};
+
+export function parsePromptAxes(template: string): string[][] {
+  return Array.from(template.matchAll(GROUP_PATTERN), (match) => match[1].split("|").map((option) => option.trim()));
+}
+
+/**
+ * Expands `{red|blue} car in {rain|snow}` into every combination, first group
+ * varying slowest. A prompt without groups expands to itself.
+ */
+export function expandPromptMatrix(template: string): PromptMatrix {
+  const axes = parsePromptAxes(template);
+  const total = axes.reduce((count, axis) => count * axis.length, 1);
+  if (total > MAX_PROMPT_EXPANSIONS) {
+    throw new Error(`This prompt expands to ${total} combinations; the limit is ${MAX_PROMPT_EXPANSIONS}.`);
+  }
+
+  let combinations: string[][] = [[]];
+  for (const axis of axes) {
+    combinations = combinations.flatMap((values) => axis.map((option) => [...values, option]));
+  }
+
+  const expansions = combinations.map((values) => {
+    let groupIndex = 0;
+    // An empty option ("{|very} bright") would otherwise leave a double space behind.
+    const prompt = template
+      .replace(GROUP_PATTERN, () => values[groupIndex++])
+      .replace(/ {2,}/g, " ")
+      .trim();
+    return { prompt, values };
+  });
+
+  return { axes, expansions };
+}
+
+/** Batch Mode expands each line on its own, so one line can stand in for several prompts. */
+export function expandPromptLines(lines: string[]): string[] {
+  return lines.flatMap((line) => expandPromptMatrix(line).expansions.map((expansion) => expansion.prompt));
+}
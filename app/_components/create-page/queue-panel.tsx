@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import { listProviderAdapters } from "../../lib/providers/registry";
+import { getQueueLimits, isFinished, type QueueItemStatus, type QueueLimits, type QueueState } from "./generation-queue";
+import { SpinnerIcon } from "./icons";
+import { formatDisplayDate } from "./utils";
+
+type QueuePanelProps = {
+  queue: QueueState;
+  /** Keys per provider; limits apply per key. */
+  keyCounts: Partial<Record<string, number>>;
+  onPausedChange: (paused: boolean) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onCancel: (id: string) => void;
+  onClearFinished: () => void;
+  onLimitsChange: (provider: string, limits: QueueLimits) => void;
+};
+
+const STATUS_STYLES: Record<QueueItemStatus, string> = {
+  waiting: "border-[var(--border-subtle)] text-[var(--text-secondary)]",
+  running: "border-[var(--accent-primary)]/40 text-[var(--accent-primary)]",
+  succeeded: "border-green-900/50 text-green-400",
+  failed: "border-red-900/50 text-red-400",
+  cancelled: "border-[var(--border-subtle)] text-[var(--text-muted)]",
+};
+
+const CONTROL_CLASS =
+  "shrink-0 text-[10px] font-bold uppercase tracking-wide text-[var(--text-muted)] transition-colors hover:text-[var(--text-primary)] disabled:opacity-30 disabled:cursor-not-allowed";
+
+const LIMIT_INPUT_CLASS =
+  "w-14 rounded border border-[var(--border-subtle)] bg-[var(--bg-input)] px-1.5 py-0.5 text-right text-[11px] text-[var(--text-primary)] focus:outline-none focus:ring-1 focus:ring-white/20";
+
+function readLimit(value: string, fallback: number): number {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function QueuePanel({
+  queue,
+  keyCounts,
+  onPausedChange,
+  onMove,
+  onCancel,
+  onClearFinished,
+  onLimitsChange,
+}: QueuePanelProps) {
+  const [showLimits, setShowLimits] = useState(false);
+
+  if (queue.items.length === 0) {
+    return null;
+  }
+
+  const waitingIds = queue.items.filter((item) => item.status === "waiting").map((item) => item.id);
+  const runningCount = queue.items.filter((item) => item.status === "running").length;
+  const hasFinished = queue.items.some(isFinished);
+
+  return (
+    <section className="rounded-xl border border-[var(--border-subtle)] bg-[var(--bg-panel)] p-4">
+      <div className="mb-3 flex items-center justify-between text-[10px] font-bold uppercase tracking-wider text-[var(--text-muted)]">
+        <span>
+          Queue · {runningCount} running · {waitingIds.length} waiting
+          {queue.paused ? <span className="ml-2 text-[var(--color-warning)]">Paused</span> : null}
+        </span>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => setShowLimits((value) => !value)} className={CONTROL_CLASS}>
+            Limits
+          </button>
+          {hasFinished ? (
+            <button type="button" onClick={onClearFinished} className={CONTROL_CLASS}>
+              Clear finished
+            </button>
+          ) : null}
+          <button type="button" onClick={() => onPausedChange(!queue.paused)} className={CONTROL_CLASS}>
+            {queue.paused ? "Resume" : "Pause"}
+          </button>
+        </div>
+      </div>
+
+      {showLimits ? (
+        <div className="mb-3 flex flex-col gap-2 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-3 py-2">
+          <p className="text-[10px] text-[var(--text-muted)]">
+            Requests at once and requests per minute, per key. A run of several images counts once per provider call.
+          </p>
+          {listProviderAdapters().map((adapter) => {
+            const limits = getQueueLimits(queue.limits, adapter.id);
+            const keys = keyCounts[adapter.id] ?? 0;
+            return (
+              <div key={adapter.id} className="flex items-center justify-between gap-3 text-[11px] text-[var(--text-secondary)]">
+                <span className="min-w-0 flex-1 truncate">
+                  {adapter.label}
+                  {keys > 1 ? <span className="text-[var(--text-muted)]"> · ×{keys} keys</span> : null}
+                </span>
+                <label className="flex items-center gap-1.5">
+                  <span className="text-[var(--text-muted)]">Concurrent</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={limits.concurrency}
+                    onChange={(event) =>
+                      onLimitsChange(adapter.id, { ...limits, concurrency: readLimit(event.target.value, limits.concurrency) })
+                    }
+                    className={LIMIT_INPUT_CLASS}
+                  />
+                </label>
+                <label className="flex items-center gap-1.5">
+                  <span className="text-[var(--text-muted)]">Per min</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={limits.requestsPerMinute}
+                    onChange={(event) =>
+                      onLimitsChange(adapter.id, {
+                        ...limits,
+                        requestsPerMinute: readLimit(event.target.value, limits.requestsPerMinute),
+                      })
+                    }
+                    className={LIMIT_INPUT_CLASS}
+                  />
+                </label>
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+
+      <ul className="flex flex-col gap-2">
+        {queue.items.map((item) => {
+          const waitingIndex = waitingIds.indexOf(item.id);
+          const isActive = !isFinished(item);
+
+          return (
+            <li
+              key={item.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-3 py-2"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-xs text-[var(--text-primary)]">{item.prompt}</p>
+                <p className="mt-0.5 text-[10px] text-[var(--text-muted)]">
+                  {item.provider} · {item.numImages} {item.numImages === 1 ? "image" : "images"} · {item.requests}{" "}
+                  {item.requests === 1 ? "request" : "requests"} · {formatDisplayDate(item.finishedAt ?? item.startedAt ?? item.enqueuedAt)}
+                </p>
+                {item.error ? <p className="mt-1 truncate text-[10px] text-red-400">{item.error}</p> : null}
+              </div>
+
+              <span
+                className={`flex shrink-0 items-center gap-1.5 rounded border px-2 py-0.5 text-[9px] font-bold uppercase tracking-wide ${STATUS_STYLES[item.status]}`}
+              >
+                {item.status === "running" ? <SpinnerIcon className="h-2.5 w-2.5 animate-spin" /> : null}
+                {item.status}
+              </span>
+
+              {item.status === "waiting" ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => onMove(item.id, -1)}
+                    disabled={waitingIndex <= 0}
+                    aria-label="Move up"
+                    className={CONTROL_CLASS}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onMove(item.id, 1)}
+                    disabled={waitingIndex === waitingIds.length - 1}
+                    aria-label="Move down"
+                    className={CONTROL_CLASS}
+                  >
+                    ↓
+                  </button>
+                </>
+              ) : null}
+
+              {isActive ? (
+                <button type="button" onClick={() => onCancel(item.id)} className={CONTROL_CLASS}>
+                  Cancel
+                </button>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  DOWNSCALED_DIMENSION,
+  hasStoragePolicyRules,
+  measureGalleryUsage,
+  type GenerationUsage,
+  type StoragePolicy,
+  type StoragePolicyResult,
+} from "./storage-policy";
+import { formatBytes, formatDisplayDate } from "./utils";
+
+type StoragePanelProps = {
+  policy: StoragePolicy;
+  onPolicyChange: (policy: StoragePolicy) => void;
+  onApply: () => Promise<StoragePolicyResult>;
+};
+
+const GB = 1024 * 1024 * 1024;
+const LISTED_GENERATIONS = 5;
+const INPUT_CLASS =
+  "w-16 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-2 py-1 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-1 focus:ring-white/20";
+
+function formatGb(bytes: number | null): string {
+  return bytes === null ? "" : String(Number((bytes / GB).toFixed(2)));
+}
+
+export function StoragePanel({ policy, onPolicyChange, onApply }: StoragePanelProps) {
+  const [usage, setUsage] = useState<GenerationUsage[] | null>(null);
+  const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [isPersisted, setIsPersisted] = useState<boolean | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // Drafts let "0." sit in the field on the way to "0.5" without switching the rule off.
+  const [maxGbDraft, setMaxGbDraft] = useState(formatGb(policy.maxGalleryBytes));
+  const [daysDraft, setDaysDraft] = useState(policy.downscaleAfterDays ? String(policy.downscaleAfterDays) : "");
+
+  useEffect(() => {
+    setMaxGbDraft(formatGb(policy.maxGalleryBytes));
+  }, [policy.maxGalleryBytes]);
+
+  useEffect(() => {
+    setDaysDraft(policy.downscaleAfterDays ? String(policy.downscaleAfterDays) : "");
+  }, [policy.downscaleAfterDays]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setUsage(await measureGalleryUsage());
+      // Both APIs are missing in some browsers (and outside secure contexts); the panel just shows less.
+      const storageManager = typeof navigator !== "undefined" ? navigator.storage : undefined;
+      if (storageManager?.estimate) {
+        const { usage: used = 0, quota = 0 } = await storageManager.estimate();
+        setEstimate({ usage: used, quota });
+      }
+      if (storageManager?.persisted) {
+        setIsPersisted(await storageManager.persisted());
+      }
+    } catch (error) {
+      console.error("Failed to measure storage", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const updateMaxGb = (raw: string) => {
+    setMaxGbDraft(raw);
+    const value = Number(raw);
+    if (raw.trim() === "") {
+      onPolicyChange({ ...policy, maxGalleryBytes: null });
+    } else if (Number.isFinite(value) && value > 0) {
+      onPolicyChange({ ...policy, maxGalleryBytes: Math.round(value * GB) });
+    }
+  };
+
+  const updateDays = (raw: string) => {
+    setDaysDraft(raw);
+    const value = Number(raw);
+    if (raw.trim() === "") {
+      onPolicyChange({ ...policy, downscaleAfterDays: null });
+    } else if (Number.isInteger(value) && value >= 1) {
+      onPolicyChange({ ...policy, downscaleAfterDays: value });
+    }
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setMessage(null);
+    try {
+      const result = await onApply();
+      setMessage(
+        result.evicted === 0 && result.downscaled === 0
+          ? "Nothing to clean up."
+          : `Deleted ${result.evicted} generation${result.evicted === 1 ? "" : "s"}, downscaled ${result.downscaled}.`,
+      );
+      await refresh();
+    } catch (error) {
+      console.error("Failed to apply storage policy", error);
+      setMessage(error instanceof Error ? error.message : "Cleanup failed.");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handlePersist = async () => {
+    try {
+      setIsPersisted(await navigator.storage.persist());
+    } catch (error) {
+      console.error("Persistent storage request failed", error);
+    }
+  };
+
+  const galleryBytes = usage?.reduce((total, entry) => total + entry.bytes, 0) ?? 0;
+  const largest = usage ? [...usage].sort((a, b) => b.bytes - a.bytes) : [];
+  const listed = showAll ? largest : largest.slice(0, LISTED_GENERATIONS);
+  const usedShare = estimate && estimate.quota > 0 ? Math.min(1, estimate.usage / estimate.quota) : 0;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-[var(--border-subtle)] space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="block text-xs font-bold uppercase tracking-wider text-[var(--text-muted)]">Storage</span>
+        {isPersisted === null ? null : isPersisted ? (
+          <span className="text-[10px] font-bold uppercase tracking-wide text-[var(--color-success)]">Persistent</span>
+        ) : (
+          <button
+            type="button"
+            onClick={handlePersist}
+            title="Ask the browser not to clear the gallery when disk space runs low"
+            className="text-[10px] font-bold uppercase tracking-wide text-[var(--text-muted)] transition-colors hover:text-[var(--accent-primary)]"
+          >
+            Make persistent
+          </button>
+        )}
+      </div>
+
+      {estimate ? (
+        <div className="space-y-1">
+          <div className="h-1.5 w-full overflow-hidden rounded-full bg-[var(--bg-input)]">
+            <div className="h-full rounded-full bg-[var(--accent-primary)]" style={{ width: `${usedShare * 100}%` }} />
+          </div>
+          <p className="text-[10px] text-[var(--text-muted)]">
+            {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} used by this site
+            {usage ? ` · gallery ${formatBytes(galleryBytes)} in ${usage.length} generations` : ""}
+          </p>
+        </div>
+      ) : usage ? (
+        <p className="text-[10px] text-[var(--text-muted)]">
+          Gallery {formatBytes(galleryBytes)} in {usage.length} generations
+        </p>
+      ) : null}
+
+      {listed.length > 0 ? (
+        <ul className="max-h-48 space-y-0.5 overflow-y-auto text-[11px] text-[var(--text-secondary)]">
+          {listed.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-2">
+              <span className="min-w-0 flex-1 truncate" title={entry.prompt}>
+                {entry.prompt || entry.id}
+              </span>
+              <span className="shrink-0 text-[var(--text-muted)]">{formatDisplayDate(entry.createdAt)}</span>
+              <span className="w-16 shrink-0 text-right tabular-nums">{formatBytes(entry.bytes)}</span>
+            </li>
+          ))}
+          {largest.length > LISTED_GENERATIONS ? (
+            <li>
+              <button
+                type="button"
+                onClick={() => setShowAll((prev) => !prev)}
+                className="text-[10px] text-[var(--accent-primary)] hover:underline"
+              >
+                {showAll ? "Show largest only" : `Show all ${largest.length}`}
+              </button>
+            </li>
+          ) : null}
+        </ul>
+      ) : null}
+
+      <div className="space-y-2 text-xs text-[var(--text-secondary)]">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={policy.keepFavorites}
+            onChange={(event) => onPolicyChange({ ...policy, keepFavorites: event.target.checked })}
+            className="accent-[var(--accent-primary)]"
+          />
+          Always keep favorites
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="flex-1">Delete oldest generations above</span>
+          <input
+            type="number"
+            min={0.1}
+            step={0.5}
+            placeholder="Off"
+            value={maxGbDraft}
+            onChange={(event) => updateMaxGb(event.target.value)}
+            onBlur={() => setMaxGbDraft(formatGb(policy.maxGalleryBytes))}
+            className={INPUT_CLASS}
+          />
+          <span className="w-8">GB</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="flex-1">Downscale 4K originals to {DOWNSCALED_DIMENSION}px after</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            placeholder="Off"
+            value={daysDraft}
+            onChange={(event) => updateDays(event.target.value)}
+            onBlur={() => setDaysDraft(policy.downscaleAfterDays ? String(policy.downscaleAfterDays) : "")}
+            className={INPUT_CLASS}
+          />
+          <span className="w-8">days</span>
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={isApplying || !hasStoragePolicyRules(policy)}
+          className="rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-input)] px-3 py-2 text-xs font-medium text-[var(--text-secondary)] transition-all hover:border-[var(--text-muted)] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isApplying ? "Cleaning up…" : "Apply now"}
+        </button>
+        <span className="text-[10px] text-[var(--text-muted)]">{message ?? "Rules also run each time the app loads."}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { convertImage, type ImageFileInfo, type OutputEncoding } from "../../lib/image-conversion";
+import { readStoredGenerations, readStoredImage, storedImageKey } from "./storage";
+import type { Generation } from "./types";
+
+/** How the gallery frees space. Each rule is off when its value is null. */
+export type StoragePolicy = {
+  /** Generations with a favorited image are never evicted or downscaled. */
+  keepFavorites: boolean;
+  /** Once the gallery's images take more than this, the oldest generations are deleted until they fit. */
+  maxGalleryBytes: number | null;
+  /** 4K images older than this many days are replaced by 2K copies. */
+  downscaleAfterDays: number | null;
+};
+
+/** Stored size of one generation: its images and the references saved with it. */
+export type GenerationUsage = {
+  id: string;
+  prompt: string;
+  createdAt: string;
+  bytes: number;
+  imageCount: number;
+};
+
+export type StoragePolicyResult = {
+  evicted: number;
+  downscaled: number;
+};
+
+export const DEFAULT_STORAGE_POLICY: StoragePolicy = {
+  keepFavorites: true,
+  maxGalleryBytes: null,
+  downscaleAfterDays: null,
+};
+
+/** Longest side of the copies that replace downscaled 4K images. */
+export const DOWNSCALED_DIMENSION = 2048;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Drops out-of-range values so a hand-edited setting can't evict everything. */
+export function normalizeStoragePolicy(value: unknown): StoragePolicy {
+  const candidate = (value ?? {}) as Partial<StoragePolicy>;
+  return {
+    keepFavorites: typeof candidate.keepFavorites === "boolean" ? candidate.keepFavorites : true,
+    maxGalleryBytes:
+      typeof candidate.maxGalleryBytes === "number" && candidate.maxGalleryBytes > 0
+        ? Math.round(candidate.maxGalleryBytes)
+        : null,
+    downscaleAfterDays:
+      typeof candidate.downscaleAfterDays === "number" && candidate.downscaleAfterDays >= 1
+        ? Math.round(candidate.downscaleAfterDays)
+        : null,
+  };
+}
+
+export function hasStoragePolicyRules(policy: StoragePolicy): boolean {
+  return policy.maxGalleryBytes !== null || policy.downscaleAfterDays !== null;
+}
+
+function isFavoriteGeneration(generation: Generation, favorites: Set<string>): boolean {
+  return generation.images.some((_, index) => favorites.has(`${generation.id}:${index}`));
+}
+
+/**
+ * Sums what each stored generation takes in IndexedDB. Blob sizes are known
+ * without reading the blobs, so this stays cheap for large galleries.
+ */
+export async function measureGalleryUsage(): Promise<GenerationUsage[]> {
+  const generations = await readStoredGenerations();
+  return Promise.all(
+    generations.map(async (generation) => {
+      const values = [...generation.images, ...(generation.inputImages ?? []).map((image) => image.url)];
+      const sizes = await Promise.all(
+        values.map(async (value) => {
+          const key = storedImageKey(value);
+          // Images that couldn't be moved into a blob are still stored inline as data URLs.
+          return key ? ((await readStoredImage(key))?.size ?? 0) : value.length;
+        }),
+      );
+      return {
+        id: generation.id,
+        prompt: generation.prompt,
+        createdAt: generation.createdAt,
+        bytes: sizes.reduce((total, size) => total + size, 0),
+        imageCount: generation.images.filter(Boolean).length,
+      };
+    }),
+  );
+}
+
+/** Ids of the generations to delete, oldest first, until the gallery fits under the size limit. */
+export function planEviction(
+  generations: Generation[],
+  usage: GenerationUsage[],
+  favorites: Set<string>,
+  policy: StoragePolicy,
+): string[] {
+  if (policy.maxGalleryBytes === null) {
+    return [];
+  }
+
+  const sizes = new Map(usage.map((entry) => [entry.id, entry.bytes]));
+  let total = usage.reduce((sum, entry) => sum + entry.bytes, 0);
+  const evicted: string[] = [];
+  const candidates = generations
+    .filter((generation) => !(policy.keepFavorites && isFavoriteGeneration(generation, favorites)))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  for (const generation of candidates) {
+    if (total <= policy.maxGalleryBytes) {
+      break;
+    }
+    evicted.push(generation.id);
+    total -= sizes.get(generation.id) ?? 0;
+  }
+  return evicted;
+}
+
+/** 4K generations past the age limit that still hold their originals. */
+export function planDownscale(
+  generations: Generation[],
+  favorites: Set<string>,
+  policy: StoragePolicy,
+  now: Date = new Date(),
+): Generation[] {
+  if (policy.downscaleAfterDays === null) {
+    return [];
+  }
+
+  const cutoff = now.getTime() - policy.downscaleAfterDays * DAY_MS;
+  return generations.filter(
+    (generation) =>
+      generation.quality === "4k" &&
+      !generation.downscaledAt &&
+      new Date(generation.createdAt).getTime() < cutoff &&
+      generation.images.some(Boolean) &&
+      !(policy.keepFavorites && isFavoriteGeneration(generation, favorites)),
+  );
+}
+
+/**
+ * Replaces a generation's images with copies no larger than
+ * DOWNSCALED_DIMENSION, in the same format. Images that fail to convert are
+ * kept as they were. Images are converted one at a time so several 4K
+ * decodes never sit in memory together. Browser only.
+ */
+export async function downscaleGeneration(generation: Generation, encoding: OutputEncoding): Promise<Generation> {
+  const images: string[] = [];
+  const imageFiles: (ImageFileInfo | null)[] = [];
+
+  for (const [index, image] of generation.images.entries()) {
+    const previousFile = generation.imageFiles?.[index] ?? null;
+    if (!image) {
+      images.push(image);
+      imageFiles.push(previousFile);
+      continue;
+    }
+    try {
+      const converted = await convertImage(image, generation.outputFormat, {
+        quality: encoding.quality,
+        maxDimension: DOWNSCALED_DIMENSION,
+      });
+      images.push(converted.src);
+      imageFiles.push(converted.file);
+    } catch (error) {
+      console.error("Failed to downscale image", error);
+      images.push(image);
+      imageFiles.push(previousFile);
+    }
+  }
+
+  return { ...generation, images, imageFiles, downscaledAt: new Date().toISOString() };
+}
@@ -1,11 +1,15 @@
 import localforage from "localforage";
-import type { Generation } from "./types";
+import { fingerprintKey } from "@/app/lib/gemini-key-pool";
+import type { QueueState } from "./generation-queue";
+import type { BatchJob, Generation } from "./types";
 
 const DB_NAME = "nano-banana-pro";
 const STORE_NAME = "state";
 const GENERATIONS_KEY = "seedream:generations";
 const PENDING_KEY = "seedream:pending_generations";
+const BATCH_JOBS_KEY = "seedream:batch_jobs";
 const FAVORITES_KEY = "seedream:favorites";
+const QUEUE_KEY = "seedream:generation_queue";
 
 // Initialize localforage
 const store = typeof window !== "undefined" 
@@ -155,6 +159,105 @@ export async function persistGenerations(generations: Generation[]) {
   await store.setItem(GENERATIONS_KEY, persistedGenerations);
 }
 
+/**
+ * Turns a stored generation's `ref:` strings into ObjectURLs for display.
+ * Images still embedded as data (the old format) are moved into their own
+ * blobs on the way.
+ */
+async function hydrateGeneration(gen: Generation): Promise<Generation> {
+  if (!store) return gen;
+
+  // Hydrate Output Images
+  const images = await Promise.all(
+    gen.images.map(async (img, index) => {
+      if (!img) return "";
+
+      if (isRef(img)) {
+        // It's a reference, load the blob
+        const key = getRefKey(img);
+        try {
+            const blob = await store.getItem<Blob>(key);
+            if (blob) {
+                return URL.createObjectURL(blob);
+            } else {
+                // Blob missing?
+                console.warn(`Missing blob for key ${key}`);
+                return "";
+            }
+        } catch (e) {
+            console.error(`Failed to load blob ${key}`, e);
+            return "";
+        }
+      } else {
+        // It's NOT a reference (Old format migration)
+        // Save it as blob immediately
+        const key = getImageKey(gen.id, index, "output");
+        try {
+            const blob = await urlToBlob(img);
+            await store.setItem(key, blob);
+            // We return the ObjectURL for display
+            return URL.createObjectURL(blob);
+        } catch (e) {
+            console.error(`Failed to migrate image ${key}`, e);
+            return img;
+        }
+      }
+    })
+  );
+
+  // Hydrate Input Images
+  const inputImages = await Promise.all(
+    (gen.inputImages || []).map(async (inputImg) => {
+        if (!inputImg.url) return inputImg;
+
+        if (isRef(inputImg.url)) {
+            const key = getRefKey(inputImg.url);
+            try {
+                const blob = await store.getItem<Blob>(key);
+                if (blob) {
+                    return { ...inputImg, url: URL.createObjectURL(blob) };
+                }
+                return { ...inputImg, url: "" };
+            } catch {
+                return inputImg;
+            }
+        } else {
+             // Migration
+             const key = getImageKey(gen.id, 0, "input", inputImg.id);
+             try {
+                 const blob = await urlToBlob(inputImg.url);
+                 await store.setItem(key, blob);
+                 return { ...inputImg, url: URL.createObjectURL(blob) };
+             } catch {
+                 return inputImg;
+             }
+        }
+    })
+  );
+  
+  const hydratedGen = { ...gen, images, inputImages };
+
+  // If we did migration on the fly, we should probably save the updated ref structure
+  // BUT: calling persistGenerations here might be race-condition prone if the app is also saving.
+  // Better to let the app state settle and save naturally, OR return a flag.
+  // Since `restoreGenerations` is called on mount, and we set state, 
+  // and `useEffect` watches state to save, it might trigger a save.
+  // However, the state will contain ObjectURLs (blob:...), which `persistGenerations`
+  // recognizes as "already saved" and converts to refs.
+  // So the migration flow is:
+  // 1. Load (Old Data) -> Convert to Blobs -> Save Blobs -> Return ObjectURLs.
+  // 2. App sets state with ObjectURLs.
+  // 3. App Effect triggers `persistGenerations`.
+  // 4. `persistGenerations` sees ObjectURLs, assumes they are backed by DB (ref checks needed?).
+  
+  // WAIT. `persistGenerations` assumes `blob:` URL means "already in DB". 
+  // In the migration case above, we DID put it in DB (`store.setItem`).
+  // So when `persistGenerations` runs later, it will see `blob:` and return `ref:`.
+  // This works perfectly.
+
+  return hydratedGen;
+}
+
 /**
  * Loads generations from storage.
  * Resolves references by loading Blobs and creating ObjectURLs.
@@ -181,101 +284,62 @@ export async function restoreGenerations(): Promise<Generation[] | null> {
 
   if (!Array.isArray(storedData)) return null;
 
-  const hydratedGenerations = await Promise.all(
-    storedData.map(async (gen) => {
-      // Hydrate Output Images
-      const images = await Promise.all(
-        gen.images.map(async (img, index) => {
-          if (!img) return "";
+  return Promise.all(storedData.map(hydrateGeneration));
+}
 
-          if (isRef(img)) {
-            // It's a reference, load the blob
-            const key = getRefKey(img);
-            try {
-                const blob = await store!.getItem<Blob>(key);
-                if (blob) {
-                    return URL.createObjectURL(blob);
-                } else {
-                    // Blob missing?
-                    console.warn(`Missing blob for key ${key}`);
-                    return "";
-                }
-            } catch (e) {
-                console.error(`Failed to load blob ${key}`, e);
-                return "";
-            }
-          } else {
-            // It's NOT a reference (Old format migration)
-            // Save it as blob immediately
-            const key = getImageKey(gen.id, index, "output");
-            try {
-                const blob = await urlToBlob(img);
-                await store!.setItem(key, blob);
-                // We return the ObjectURL for display
-                return URL.createObjectURL(blob);
-            } catch (e) {
-                console.error(`Failed to migrate image ${key}`, e);
-                return img;
-            }
-          }
-        })
-      );
+/** Generations exactly as stored, with `ref:` strings where images are, for writing a backup. */
+export async function readStoredGenerations(): Promise<Generation[]> {
+  if (!store) return [];
+  const stored = await store.getItem<Generation[]>(GENERATIONS_KEY);
+  return Array.isArray(stored) ? stored : [];
+}
 
-      // Hydrate Input Images
-      const inputImages = await Promise.all(
-        (gen.inputImages || []).map(async (inputImg) => {
-            if (!inputImg.url) return inputImg;
-
-            if (isRef(inputImg.url)) {
-                const key = getRefKey(inputImg.url);
-                try {
-                    const blob = await store!.getItem<Blob>(key);
-                    if (blob) {
-                        return { ...inputImg, url: URL.createObjectURL(blob) };
-                    }
-                    return { ...inputImg, url: "" };
-                } catch {
-                    return inputImg;
-                }
-            } else {
-                 // Migration
-                 const key = getImageKey(gen.id, 0, "input", inputImg.id);
-                 try {
-                     const blob = await urlToBlob(inputImg.url);
-                     await store!.setItem(key, blob);
-                     return { ...inputImg, url: URL.createObjectURL(blob) };
-                 } catch {
-                     return inputImg;
-                 }
-            }
-        })
-      );
-      
-      const hydratedGen = { ...gen, images, inputImages };
-
-      // If we did migration on the fly, we should probably save the updated ref structure
-      // BUT: calling persistGenerations here might be race-condition prone if the app is also saving.
-      // Better to let the app state settle and save naturally, OR return a flag.
-      // Since `restoreGenerations` is called on mount, and we set state, 
-      // and `useEffect` watches state to save, it might trigger a save.
-      // However, the state will contain ObjectURLs (blob:...), which `persistGenerations`
-      // recognizes as "already saved" and converts to refs.
-      // So the migration flow is:
-      // 1. Load (Old Data) -> Convert to Blobs -> Save Blobs -> Return ObjectURLs.
-      // 2. App sets state with ObjectURLs.
-      // 3. App Effect triggers `persistGenerations`.
-      // 4. `persistGenerations` sees ObjectURLs, assumes they are backed by DB (ref checks needed?).
-      
-      // WAIT. `persistGenerations` assumes `blob:` URL means "already in DB". 
-      // In the migration case above, we DID put it in DB (`store.setItem`).
-      // So when `persistGenerations` runs later, it will see `blob:` and return `ref:`.
-      // This works perfectly.
-
-      return hydratedGen;
-    })
+/** The storage key a stored image string points to, or null for empty or inline images. */
+export function storedImageKey(value: string): string | null {
+  return value && isRef(value) ? getRefKey(value) : null;
+}
+
+export async function readStoredImage(key: string): Promise<Blob | null> {
+  if (!store) return null;
+  return store.getItem<Blob>(key);
+}
+
+/**
+ * Saves a generation read from a backup. Its images are loaded through
+ * `loadImage` (by the key they had in the browser that made the backup) and
+ * stored under this browser's keys; the generation comes back hydrated,
+ * ready for app state. Images the backup lacks are left empty and counted.
+ */
+export async function storeImportedGeneration(
+  gen: Generation,
+  loadImage: (key: string) => Promise<Blob | null>,
+): Promise<{ generation: Generation; missing: number }> {
+  if (!store) return { generation: gen, missing: 0 };
+
+  let missing = 0;
+  const saveImage = async (value: string, key: string): Promise<string> => {
+    const sourceKey = storedImageKey(value);
+    if (!sourceKey) return value;
+    const blob = await loadImage(sourceKey);
+    if (!blob) {
+      missing += 1;
+      return "";
+    }
+    await store.setItem(key, blob);
+    return makeRef(key);
+  };
+
+  const images = await Promise.all(
+    gen.images.map((img, index) => saveImage(img, getImageKey(gen.id, index, "output"))),
+  );
+  const inputImages = await Promise.all(
+    (gen.inputImages || []).map(async (img) => ({
+      ...img,
+      url: await saveImage(img.url, getImageKey(gen.id, 0, "input", img.id)),
+    })),
   );
 
-  return hydratedGenerations;
+  return { generation: await hydrateGeneration({ ...gen, images, inputImages }), missing };
 }
 
 export async function clearPending() {
@@ -340,6 +404,76 @@ export async function loadPending(): Promise<Generation[]> {
     }));
 }
 
+/**
+ * Saves Batch Mode jobs. Reference images are stored as blobs under the job id
+ * so they survive reloads while the job is still running server-side.
+ */
+export async function saveBatchJobs(jobs: BatchJob[]) {
+  if (!store) return;
+
+  const persistedJobs = await Promise.all(
+    jobs.map(async (job) => {
+      const inputImages = await Promise.all(
+        job.inputImages.map(async (img) => {
+          if (!img.url || isRef(img.url)) return img;
+          const key = getImageKey(job.id, 0, "input", img.id);
+
+          try {
+            const blob = await urlToBlob(img.url);
+            await store.setItem(key, blob);
+            return { ...img, url: makeRef(key) };
+          } catch {
+            // A revoked blob: URL made by loadBatchJobs still has its copy under the key.
+            if (img.url.startsWith("blob:") && (await store.getItem(key))) {
+              return { ...img, url: makeRef(key) };
+            }
+            return img;
+          }
+        }),
+      );
+      return { ...job, inputImages };
+    }),
+  );
+
+  await store.setItem(BATCH_JOBS_KEY, persistedJobs);
+}
+
+export async function loadBatchJobs(): Promise<BatchJob[]> {
+  if (!store) return [];
+  // Jobs saved before fingerprints carried the raw key; the next save drops it.
+  const stored = await store.getItem<(BatchJob & { apiKey?: string })[]>(BATCH_JOBS_KEY);
+  if (!Array.isArray(stored)) return [];
+
+  return Promise.all(
+    stored.map(async ({ apiKey, ...job }) => {
+      const inputImages = await Promise.all(
+        (job.inputImages || []).map(async (img) => {
+          if (!isRef(img.url)) return img;
+          const blob = await store.getItem<Blob>(getRefKey(img.url));
+          return blob ? { ...img, url: URL.createObjectURL(blob) } : img;
+        }),
+      );
+      return {
+        ...job,
+        keyFingerprint: job.keyFingerprint ?? (apiKey ? fingerprintKey(apiKey) : ""),
+        inputImages,
+      };
+    }),
+  );
+}
+
+/** Saves the generation queue. Inputs live on the pending generations, so items are plain metadata. */
+export async function saveGenerationQueue(state: QueueState) {
+  if (!store) return;
+  await store.setItem(QUEUE_KEY, state);
+}
+
+export async function loadGenerationQueue(): Promise<QueueState | null> {
+  if (!store) return null;
+  const stored = await store.getItem<QueueState>(QUEUE_KEY);
+  return stored && Array.isArray(stored.items) ? stored : null;
+}
+
 export async function deleteGenerationData(generationId: string, generation?: Generation) {
   if (!store) return;
 
@@ -381,9 +515,10 @@ export async function cleanOrphanedImages(
 ) {
   if (!store) return;
 
-  const [storedGenerations, storedPending] = await Promise.all([
+  const [storedGenerations, storedPending, storedBatchJobs] = await Promise.all([
     generations ?? store.getItem<Generation[]>(GENERATIONS_KEY),
     pending ?? store.getItem<Generation[]>(PENDING_KEY),
+    store.getItem<BatchJob[]>(BATCH_JOBS_KEY),
   ]);
 
   const referencedKeys = new Set<string>();
@@ -402,6 +537,12 @@ export async function cleanOrphanedImages(
 
   (storedGenerations ?? []).forEach(collectKeys);
   (storedPending ?? []).forEach(collectKeys);
+  (storedBatchJobs ?? []).forEach((job) => {
+    (job.inputImages || []).forEach((img) => {
+      if (!img.url) return;
+      referencedKeys.add(isRef(img.url) ? getRefKey(img.url) : getImageKey(job.id, 0, "input", img.id));
+    });
+  });
 
   const keys = await store.keys();
   const removals = keys
@@ -1,5 +1,8 @@
-import type { SeedreamGeneration } from "../../lib/generate-seedream";
-import type { AspectKey, ModelId, QualityKey, Provider, OutputFormat } from "../../lib/seedream-options";
+import type { BatchJobState } from "../../lib/batch-api";
+import type { GenerationParams } from "../../lib/generation-params";
+import type { ImageFileInfo } from "../../lib/image-conversion";
+import type { GenerationImageNote, GenerationProgress, QueuedCall, SeedreamGeneration } from "../../lib/generate-seedream";
+import type { AspectChoice, ModelId, QualityKey, Provider, OutputFormat } from "../../lib/seedream-options";
 
 export type PromptAttachment = {
   id: string;
@@ -10,18 +13,102 @@ export type PromptAttachment = {
   height?: number | null;
 };
 
-export type Generation = SeedreamGeneration & { id: string };
+/**
+ * Links a follow-up turn of a conversational edit session to the turn before
+ * it. The generation a session starts from is turn 1 and carries no link.
+ */
+export type GenerationSession = {
+  /** Id of the generation the session started from. */
+  id: string;
+  turn: number;
+  /** The previous turn and which of its images this turn refined. */
+  parentId: string;
+  parentImageIndex: number;
+};
+
+/** The image a derived generation was made from, e.g. the one an outpaint extended. */
+export type GenerationOrigin = {
+  generationId: string;
+  imageIndex: number;
+  action: "outpaint";
+};
+
+/** Tags one expansion of a `{a|b}` permutation prompt so its siblings can be shown as a grid. */
+export type GenerationMatrix = {
+  /** Shared by every expansion of the same submit. */
+  id: string;
+  /** The prompt as typed, permutation groups included. */
+  template: string;
+  /** Options of every group, in prompt order. */
+  axes: string[][];
+  /** The option this generation used from each axis. */
+  values: string[];
+};
+
+/** The image the next prompt refines while an edit session is active. */
+export type EditSessionTarget = {
+  generationId: string;
+  imageIndex: number;
+};
+
+export type Generation = SeedreamGeneration & {
+  id: string;
+  /** Set on pending generations that run as a server job, so a reload can reconnect to them. */
+  serverJobId?: string;
+  /** Set on pending generations whose calls a queued provider (FAL) accepted, so a reload can poll them again. */
+  queuedCalls?: QueuedCall[];
+  session?: GenerationSession;
+  origin?: GenerationOrigin;
+  matrix?: GenerationMatrix;
+  /** Parallel to `images`: the format and byte size each image was stored in. Null where unknown or empty. */
+  imageFiles?: (ImageFileInfo | null)[];
+  /** When the storage policy replaced this generation's 4K images with smaller copies. */
+  downscaledAt?: string;
+};
+
+/** Live streaming state for a pending generation, keyed by image slot. */
+export type PendingProgress = Record<number, Omit<GenerationProgress, "slot">>;
 
 export type GalleryEntry = {
   generationId: string;
   imageIndex: number;
   src: string;
   prompt: string;
-  aspect: AspectKey | "custom";
+  aspect: AspectChoice;
   quality: QualityKey;
   provider?: Provider;
   model?: ModelId;
   outputFormat?: OutputFormat;
+  /** Advanced parameters of the source run, so upscales and extensions reuse them. */
+  params?: GenerationParams;
+  file?: ImageFileInfo | null;
+  size: { width: number; height: number };
+  inputImages: Generation["inputImages"];
+  note?: GenerationImageNote;
+};
+
+export type BatchJob = {
+  id: string;
+  /** Server-side job name, e.g. "batches/abc123". */
+  name: string;
+  state: BatchJobState;
+  /**
+   * Fingerprint of the key the job was submitted with. Status calls must use the
+   * same project, so polling looks the key up in the pool; the key itself is never saved.
+   */
+  keyFingerprint: string;
+  prompts: string[];
+  imagesPerPrompt: number;
+  aspect: AspectChoice;
+  quality: QualityKey;
+  outputFormat: OutputFormat;
+  model: ModelId;
   size: { width: number; height: number };
   inputImages: Generation["inputImages"];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  error?: string;
+  estimatedCostCents: number;
+  estimatedSavingsCents: number;
 };
@@ -0,0 +1,287 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { estimateBatchCost, getBatchJob, submitBatchJob, type BatchJobResult } from "@/app/lib/batch-api";
+import { fingerprintKey } from "@/app/lib/gemini-key-pool";
+import { resolveReferenceImages } from "@/app/lib/reference-images";
+import type { GenerationSlot } from "@/app/lib/generate-seedream";
+import type { AspectChoice, ModelId, OutputFormat, QualityKey } from "@/app/lib/seedream-options";
+import { debugLog } from "./logger";
+import { loadBatchJobs, saveBatchJobs } from "./storage";
+import type { BatchJob, Generation } from "./types";
+import { createId } from "./utils";
+
+// Batch jobs take minutes to hours; there is no point polling more often than this.
+const POLL_INTERVAL_MS = 30_000;
+const MISSING_KEY_MESSAGE = "The Gemini key this job was submitted with is no longer saved. Add it back to keep checking on the job.";
+
+type UseBatchJobsOptions = {
+  /** Keys to find each job's submitting key among, by fingerprint. */
+  geminiApiKeys: string[];
+  onGenerationsReady: (generations: Generation[]) => void;
+};
+
+export type SubmitBatchArgs = {
+  apiKey: string;
+  prompts: string[];
+  imagesPerPrompt: number;
+  aspect: AspectChoice;
+  quality: QualityKey;
+  outputFormat: OutputFormat;
+  model: ModelId;
+  size: { width: number; height: number };
+  googleSearch: boolean;
+  inputImages: Generation["inputImages"];
+};
+
+function isActive(job: BatchJob): boolean {
+  return job.state === "PENDING" || job.state === "RUNNING";
+}
+
+/**
+ * Turns batch results back into one Generation per prompt. Ids are derived
+ * from the job id so a result delivered twice (e.g. two tabs) deduplicates.
+ */
+function buildGenerations(job: BatchJob, results: BatchJobResult[], completedAt: string): Generation[] {
+  return job.prompts
+    .map((prompt, promptIndex): Generation => {
+      // One slot per requested image so missing outputs can be retried individually.
+      const slotResults = Array.from({ length: job.imagesPerPrompt }, (_, imageIndex) =>
+        results.find((result) => result.key === `${promptIndex}:${imageIndex}`),
+      );
+      const images = slotResults.map((result) => result?.image ?? "");
+      const imageNotes = slotResults.map((result) => ({ text: result?.text, thoughts: result?.thoughts }));
+      const slots = slotResults.map((result): GenerationSlot =>
+        result?.image
+          ? { status: "succeeded", attempts: 1 }
+          : {
+              status: "failed",
+              attempts: 1,
+              error: result?.error ?? result?.text ?? "No image returned from Gemini API.",
+            },
+      );
+      const succeededCount = images.filter(Boolean).length;
+      return {
+        id: `${job.id}-${promptIndex}`,
+        prompt,
+        aspect: job.aspect,
+        quality: job.quality,
+        outputFormat: job.outputFormat,
+        provider: "gemini",
+        model: job.model,
+        createdAt: completedAt,
+        size: job.size,
+        images,
+        inputImages: job.inputImages,
+        ...(imageNotes.some((note) => note.text || note.thoughts) ? { imageNotes } : {}),
+        ...(slots.some((slot) => slot.status === "failed") ? { slots } : {}),
+        costCents: estimateBatchCost(job.model, job.quality, succeededCount).batchCents,
+      };
+    })
+    .filter((generation) => generation.images.some(Boolean));
+}
+
+/**
+ * Tracks Gemini Batch Mode jobs: persists them alongside pending generations,
+ * polls active jobs in the background, and hands finished images back as Generations.
+ */
+export function useBatchJobs({ geminiApiKeys, onGenerationsReady }: UseBatchJobsOptions) {
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const hydratedRef = useRef(false);
+  const pollingRef = useRef(false);
+  const jobsRef = useRef<BatchJob[]>([]);
+  const onGenerationsReadyRef = useRef(onGenerationsReady);
+  const geminiApiKeysRef = useRef(geminiApiKeys);
+
+  useEffect(() => {
+    jobsRef.current = batchJobs;
+  }, [batchJobs]);
+
+  useEffect(() => {
+    geminiApiKeysRef.current = geminiApiKeys;
+  }, [geminiApiKeys]);
+
+  useEffect(() => {
+    onGenerationsReadyRef.current = onGenerationsReady;
+  }, [onGenerationsReady]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadBatchJobs()
+      .then((jobs) => {
+        if (!cancelled) {
+          setBatchJobs(jobs);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to restore batch jobs", error);
+      })
+      .finally(() => {
+        hydratedRef.current = true;
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!hydratedRef.current) {
+      return;
+    }
+
+    void saveBatchJobs(batchJobs);
+  }, [batchJobs]);
+
+  const updateJob = useCallback((jobId: string, patch: Partial<BatchJob>) => {
+    setBatchJobs((previous) => previous.map((job) => (job.id === jobId ? { ...job, ...patch } : job)));
+  }, []);
+
+  const pollJobs = useCallback(async () => {
+    if (pollingRef.current) {
+      return;
+    }
+
+    const activeJobs = jobsRef.current.filter(isActive);
+    if (activeJobs.length === 0) {
+      return;
+    }
+
+    pollingRef.current = true;
+    try {
+      for (const job of activeJobs) {
+        const apiKey = geminiApiKeysRef.current.find((key) => fingerprintKey(key) === job.keyFingerprint);
+        if (!apiKey) {
+          // Keep the job active; it resumes once the key is added again.
+          if (job.error !== MISSING_KEY_MESSAGE) {
+            debugLog("batch:missing-key", { jobId: job.id });
+            updateJob(job.id, { error: MISSING_KEY_MESSAGE, updatedAt: new Date().toISOString() });
+          }
+          continue;
+        }
+
+        try {
+          const snapshot = await getBatchJob(apiKey, job.name);
+          const now = new Date().toISOString();
+
+          if (snapshot.state === "SUCCEEDED") {
+            const results = snapshot.results ?? [];
+            const generations = buildGenerations(job, results, now);
+            const imageCount = generations.reduce(
+              (total, generation) => total + generation.images.filter(Boolean).length,
+              0,
+            );
+            const expectedCount = job.prompts.length * job.imagesPerPrompt;
+
+            debugLog("batch:succeeded", { jobId: job.id, imageCount, expectedCount });
+
+            if (generations.length > 0) {
+              onGenerationsReadyRef.current(generations);
+            }
+
+            updateJob(job.id, {
+              state: imageCount > 0 ? "SUCCEEDED" : "FAILED",
+              updatedAt: now,
+              completedAt: now,
+              error:
+                imageCount === 0
+                  ? results.find((result) => result.error)?.error ??
+                    results.find((result) => result.text)?.text ??
+                    "No images returned from Gemini API."
+                  : imageCount < expectedCount
+                    ? `${expectedCount - imageCount} of ${expectedCount} images were not returned; retry them from their tiles.`
+                    : undefined,
+            });
+          } else if (snapshot.state === "FAILED") {
+            debugLog("batch:failed", { jobId: job.id, error: snapshot.error });
+            updateJob(job.id, { state: "FAILED", updatedAt: now, completedAt: now, error: snapshot.error });
+          } else if (snapshot.state !== job.state || job.error === MISSING_KEY_MESSAGE) {
+            updateJob(job.id, { state: snapshot.state, updatedAt: now, error: undefined });
+          }
+        } catch (error) {
+          // Network hiccups and rate limits are expected on long jobs; try again next tick.
+          debugLog("batch:poll-error", { jobId: job.id, error });
+        }
+      }
+    } finally {
+      pollingRef.current = false;
+    }
+  }, [updateJob]);
+
+  const hasActiveJobs = batchJobs.some(isActive);
+
+  useEffect(() => {
+    if (!hasActiveJobs || typeof window === "undefined") {
+      return;
+    }
+
+    void pollJobs();
+    const intervalId = window.setInterval(() => {
+      void pollJobs();
+    }, POLL_INTERVAL_MS);
+
+    return () => window.clearInterval(intervalId);
+  }, [hasActiveJobs, pollJobs]);
+
+  const submitBatch = useCallback(async (args: SubmitBatchArgs): Promise<BatchJob> => {
+    const jobId = createId("batch");
+    const entries = args.prompts.flatMap((prompt, promptIndex) =>
+      Array.from({ length: args.imagesPerPrompt }, (_, imageIndex) => ({
+        key: `${promptIndex}:${imageIndex}`,
+        prompt,
+      })),
+    );
+    const estimate = estimateBatchCost(args.model, args.quality, entries.length);
+    // Batch requests carry images inline, so links must be fetched before submitting.
+    const inlineInputImages = await resolveReferenceImages(args.inputImages);
+
+    const { name, state } = await submitBatchJob({
+      apiKey: args.apiKey,
+      model: args.model,
+      displayName: jobId,
+      entries,
+      aspect: args.aspect,
+      quality: args.quality,
+      outputFormat: args.outputFormat,
+      size: args.size,
+      googleSearch: args.googleSearch,
+      inputImages: inlineInputImages,
+    });
+
+    const now = new Date().toISOString();
+    const job: BatchJob = {
+      id: jobId,
+      name,
+      state,
+      keyFingerprint: fingerprintKey(args.apiKey),
+      prompts: args.prompts,
+      imagesPerPrompt: args.imagesPerPrompt,
+      aspect: args.aspect,
+      quality: args.quality,
+      outputFormat: args.outputFormat,
+      model: args.model,
+      size: args.size,
+      inputImages: args.inputImages,
+      createdAt: now,
+      updatedAt: now,
+      estimatedCostCents: estimate.batchCents,
+      estimatedSavingsCents: estimate.savingsCents,
+    };
+
+    debugLog("batch:submitted", { jobId, name, requests: entries.length });
+    setBatchJobs((previous) => [job, ...previous]);
+    return job;
+  }, []);
+
+  const dismissBatchJob = useCallback((jobId: string) => {
+    setBatchJobs((previous) => previous.filter((job) => job.id !== jobId));
+  }, []);
+
+  return {
+    batchJobs,
+    submitBatch,
+    dismissBatchJob,
+    refreshBatchJobs: pollJobs,
+  };
+}
@@ -11,13 +11,19 @@ import {
   loadSettingsFromCloud,
   saveSettingsToCloud,
 } from "@/app/lib/supabase/cloud-storage";
+import { normalizeBudget, normalizeLedger, type Budget, type CostLedger } from "./cost-ledger";
 import type { Generation } from "./types";
 
 type UseCloudSyncOptions = {
   generations: Generation[];
   favorites: Set<string>;
+  /** Kept in cloud settings so the same budget and spend apply on every device. */
+  budget: Budget | null;
+  costLedger: CostLedger;
   onGenerationsLoaded: (generations: Generation[]) => void;
   onFavoritesLoaded: (favorites: Set<string>) => void;
+  onBudgetLoaded: (budget: Budget | null) => void;
+  onLedgerLoaded: (ledger: CostLedger) => void;
 };
 
 const SYNC_IMAGES_KEY = "nano-banana-sync-images";
@@ -28,8 +34,12 @@ const SYNC_IMAGES_KEY = "nano-banana-sync-images";
 export function useCloudSync({
   generations,
   favorites,
+  budget,
+  costLedger,
   onGenerationsLoaded,
   onFavoritesLoaded,
+  onBudgetLoaded,
+  onLedgerLoaded,
 }: UseCloudSyncOptions) {
   const { user } = useAuth();
   const prevUserIdRef = useRef<string | null>(null);
@@ -66,6 +76,14 @@ export function useCloudSync({
           if (cloudSettings?.syncImages !== undefined) {
             handleSetSyncImages(cloudSettings.syncImages as boolean);
           }
+          // The cloud budget wins; ledgers are merged so spend from every device counts.
+          if (cloudSettings && "budget" in cloudSettings) {
+            onBudgetLoaded(normalizeBudget(cloudSettings.budget));
+          }
+          const cloudLedger = normalizeLedger(cloudSettings?.costLedger);
+          if (cloudLedger) {
+            onLedgerLoaded(cloudLedger);
+          }
 
           // First, load what's in the cloud
           const [cloudGenerations, cloudFavorites] = await Promise.all([
@@ -138,7 +156,7 @@ export function useCloudSync({
     }
 
     prevUserIdRef.current = currentUserId;
-  }, [user, generations, favorites, onGenerationsLoaded, onFavoritesLoaded, syncImages, handleSetSyncImages]);
+  }, [user, generations, favorites, onGenerationsLoaded, onFavoritesLoaded, onBudgetLoaded, onLedgerLoaded, syncImages, handleSetSyncImages]);
 
   // Sync generations to cloud when they change (after initial sync)
   useEffect(() => {
@@ -194,20 +212,22 @@ export function useCloudSync({
     return () => clearTimeout(timeoutId);
   }, [user, favorites]);
 
-  // Save sync images setting to cloud when it changes
+  // Save settings to cloud when they change; the whole object is sent so no key is dropped
   useEffect(() => {
     if (!user || !initialSyncDoneRef.current) return;
 
-    const saveSyncSetting = async () => {
+    const saveSettings = async () => {
       try {
-        await saveSettingsToCloud({ syncImages });
+        await saveSettingsToCloud({ syncImages, budget, costLedger });
       } catch (error) {
-        console.error("Failed to save sync setting:", error);
+        console.error("Failed to save settings to cloud:", error);
       }
     };
 
-    saveSyncSetting();
-  }, [user, syncImages]);
+    // Debounce sync; the ledger changes with every finished generation
+    const timeoutId = setTimeout(saveSettings, 1000);
+    return () => clearTimeout(timeoutId);
+  }, [user, syncImages, budget, costLedger]);
 
   // Delete from cloud
   const deleteFromCloud = useCallback(async (generationId: string) => {
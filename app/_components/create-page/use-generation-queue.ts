@@ -0,0 +1,220 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { GENERATION_CANCELLED_MESSAGE } from "@/app/lib/providers/shared";
+import {
+  RATE_WINDOW_MS,
+  estimateRequestCount,
+  isFinished,
+  moveQueueItem,
+  scheduleQueue,
+  trimFinished,
+  type QueueItem,
+  type QueueItemStatus,
+  type QueueLimits,
+  type QueueStart,
+  type QueueState,
+} from "./generation-queue";
+import { debugLog } from "./logger";
+import { loadGenerationQueue, saveGenerationQueue } from "./storage";
+
+type UseGenerationQueueOptions = {
+  /** Keys available per provider; a provider's limits are multiplied by its key count. */
+  keyCounts: Partial<Record<string, number>>;
+};
+
+export type EnqueueArgs = Pick<
+  QueueItem,
+  "id" | "prompt" | "provider" | "model" | "googleSearch" | "numImages" | "sizeOverride" | "params"
+>;
+
+function finishItem(items: QueueItem[], id: string, status: QueueItemStatus, error?: string): QueueItem[] {
+  const finishedAt = new Date().toISOString();
+  return trimFinished(
+    items.map((item) =>
+      item.id === id && !isFinished(item) ? { ...item, status, finishedAt, ...(error ? { error } : {}) } : item,
+    ),
+  );
+}
+
+/**
+ * Holds generations until their provider has room under its concurrency and
+ * requests-per-minute limits. The queue is persisted; a waiting item restored
+ * after a reload starts once the page reattaches its run with `enqueue`.
+ */
+export function useGenerationQueue({ keyCounts }: UseGenerationQueueOptions) {
+  const [queue, setQueue] = useState<QueueState>({ items: [], paused: false, limits: {} });
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [wakeTick, setWakeTick] = useState(0);
+  // Runs waiting for their turn, by item id. Restored items have none until they are reattached.
+  const startersRef = useRef(new Map<string, () => void>());
+  const recentStartsRef = useRef<QueueStart[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadGenerationQueue()
+      .then((stored) => {
+        if (cancelled || !stored) {
+          return;
+        }
+        // Items that were running when the tab closed are recovered with their pending generations.
+        const restored = stored.items.filter((item) => item.status !== "running");
+        setQueue((previous) => {
+          const restoredIds = new Set(restored.map((item) => item.id));
+          return {
+            paused: stored.paused,
+            limits: stored.limits ?? {},
+            items: [...restored, ...previous.items.filter((item) => !restoredIds.has(item.id))],
+          };
+        });
+      })
+      .catch((error) => {
+        console.error("Failed to restore the generation queue", error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsHydrated(true);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated) {
+      return;
+    }
+    void saveGenerationQueue(queue);
+  }, [queue, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated || typeof window === "undefined") {
+      return;
+    }
+
+    const now = Date.now();
+    recentStartsRef.current = recentStartsRef.current.filter((entry) => entry.at > now - RATE_WINDOW_MS);
+    const { start, wakeAt } = scheduleQueue(
+      queue,
+      recentStartsRef.current,
+      (item) => startersRef.current.has(item.id),
+      keyCounts,
+      now,
+    );
+
+    if (start.length > 0) {
+      const startIds = new Set(start);
+      const startedAt = new Date(now).toISOString();
+      setQueue((previous) => ({
+        ...previous,
+        items: previous.items.map((item) =>
+          startIds.has(item.id) && item.status === "waiting" ? { ...item, status: "running", startedAt } : item,
+        ),
+      }));
+
+      queue.items
+        .filter((item) => startIds.has(item.id))
+        .forEach((item) => {
+          const startRun = startersRef.current.get(item.id);
+          startersRef.current.delete(item.id);
+          recentStartsRef.current.push({ provider: item.provider, requests: item.requests, at: now });
+          debugLog("queue:start", { id: item.id, provider: item.provider, requests: item.requests });
+          startRun?.();
+        });
+      return;
+    }
+
+    if (wakeAt !== null) {
+      const timeoutId = window.setTimeout(() => setWakeTick((tick) => tick + 1), Math.max(0, wakeAt - now));
+      return () => window.clearTimeout(timeoutId);
+    }
+  }, [queue, isHydrated, keyCounts, wakeTick]);
+
+  /**
+   * Adds a run to the end of the queue and resolves with its result once it
+   * has run. Reusing the id of a restored waiting item keeps its place instead.
+   * Aborting `signal` before the run starts takes it out of the queue.
+   */
+  const enqueue = useCallback(
+    <T>(args: EnqueueArgs, run: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+      new Promise<T>((resolve, reject) => {
+        const cancelWaiting = () => {
+          startersRef.current.delete(args.id);
+          setQueue((previous) => ({ ...previous, items: finishItem(previous.items, args.id, "cancelled") }));
+          reject(new Error(GENERATION_CANCELLED_MESSAGE));
+        };
+
+        if (signal?.aborted) {
+          reject(new Error(GENERATION_CANCELLED_MESSAGE));
+          return;
+        }
+        signal?.addEventListener("abort", cancelWaiting, { once: true });
+
+        startersRef.current.set(args.id, () => {
+          signal?.removeEventListener("abort", cancelWaiting);
+          run().then(
+            (result) => {
+              setQueue((previous) => ({ ...previous, items: finishItem(previous.items, args.id, "succeeded") }));
+              resolve(result);
+            },
+            (error: unknown) => {
+              const status = signal?.aborted ? "cancelled" : "failed";
+              const message = error instanceof Error ? error.message : "Generation failed.";
+              setQueue((previous) => ({
+                ...previous,
+                items: finishItem(previous.items, args.id, status, status === "failed" ? message : undefined),
+              }));
+              reject(error);
+            },
+          );
+        });
+
+        setQueue((previous) => {
+          // Always hand back a new state so the scheduler notices the attached run.
+          if (previous.items.some((item) => item.id === args.id)) {
+            return { ...previous };
+          }
+          const item: QueueItem = {
+            ...args,
+            requests: estimateRequestCount(args.provider, args.numImages, args.model, args.params),
+            status: "waiting",
+            enqueuedAt: new Date().toISOString(),
+          };
+          return { ...previous, items: trimFinished([...previous.items, item]) };
+        });
+      }),
+    [],
+  );
+
+  const setPaused = useCallback((paused: boolean) => {
+    debugLog("queue:paused", { paused });
+    setQueue((previous) => ({ ...previous, paused }));
+  }, []);
+
+  const moveItem = useCallback((id: string, direction: -1 | 1) => {
+    setQueue((previous) => ({ ...previous, items: moveQueueItem(previous.items, id, direction) }));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setQueue((previous) => ({ ...previous, items: previous.items.filter((item) => !isFinished(item)) }));
+  }, []);
+
+  const setLimits = useCallback((provider: string, limits: QueueLimits) => {
+    setQueue((previous) => ({ ...previous, limits: { ...previous.limits, [provider]: limits } }));
+  }, []);
+
+  /** Drops waiting items that will never be reattached, e.g. when their pending generation is gone. */
+  const forgetItems = useCallback((ids: string[]) => {
+    const forgotten = new Set(ids);
+    ids.forEach((id) => startersRef.current.delete(id));
+    setQueue((previous) => ({
+      ...previous,
+      items: previous.items.filter((item) => !(forgotten.has(item.id) && item.status === "waiting")),
+    }));
+  }, []);
+
+  return { queue, isHydrated, enqueue, setPaused, moveItem, clearFinished, setLimits, forgetItems };
+}
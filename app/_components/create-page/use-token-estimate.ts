@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { orderKeysByHealth } from "@/app/lib/gemini-key-pool";
+import type { GenerationParams } from "@/app/lib/generation-params";
+import type { ConversationTurn, ProviderInputImage } from "@/app/lib/providers/types";
+import { resolveReferenceImages } from "@/app/lib/reference-images";
+import type { ModelId, Provider, QualityKey } from "@/app/lib/seedream-options";
+import {
+  APPROXIMATE_IMAGE_TOKENS,
+  approximateInputTokens,
+  approximateTextTokens,
+  countGeminiTokens,
+  estimateRunCost,
+  imageOutputTokens,
+  type TokenEstimate,
+} from "@/app/lib/token-estimate";
+import { estimateRequestCount } from "./generation-queue";
+import { debugLog } from "./logger";
+
+// Long enough that typing doesn't fire a request per keystroke.
+const ESTIMATE_DEBOUNCE_MS = 700;
+const MAX_CACHED_COUNTS = 200;
+
+// Kept at module level so counts survive view switches; images are counted once per model.
+const tokenCountCache = new Map<string, number>();
+
+function rememberCount(key: string, tokens: number) {
+  if (tokenCountCache.size >= MAX_CACHED_COUNTS) {
+    const oldest = tokenCountCache.keys().next().value;
+    if (oldest !== undefined) {
+      tokenCountCache.delete(oldest);
+    }
+  }
+  tokenCountCache.set(key, tokens);
+}
+
+// Data URLs can be megabytes long; their length and tail tell them apart well enough.
+function imageCacheKey(model: ModelId, url: string): string {
+  const identity = url.startsWith("data:") ? `${url.length}:${url.slice(-64)}` : url;
+  return `${model}:image:${identity}`;
+}
+
+type UseTokenEstimateOptions = {
+  prompt: string;
+  inputImages: ProviderInputImage[];
+  /** Earlier edit-session turns; their text and images are sent with every call. */
+  history?: ConversationTurn[];
+  provider: Provider;
+  model: ModelId;
+  quality: QualityKey;
+  imageCount: number;
+  params?: GenerationParams;
+  geminiApiKeys: string[];
+  enabled: boolean;
+};
+
+type CountedInput = { tokens: number; approximate: boolean };
+
+/**
+ * Counts the input tokens of the prompt as it is typed and prices the run for
+ * the current provider, model, quality and image count. Text and each image
+ * are counted separately, so editing the prompt never re-sends the images.
+ * Only Gemini runs are counted with countTokens; other providers, and Gemini
+ * without a key, are approximated locally so their prompts never reach Google.
+ */
+export function useTokenEstimate({
+  prompt,
+  inputImages,
+  history,
+  provider,
+  model,
+  quality,
+  imageCount,
+  params,
+  geminiApiKeys,
+  enabled,
+}: UseTokenEstimateOptions) {
+  const [counted, setCounted] = useState<CountedInput | null>(null);
+  const [isCounting, setIsCounting] = useState(false);
+  const countingKey = provider === "gemini" ? (orderKeysByHealth(geminiApiKeys)[0] ?? "") : "";
+
+  useEffect(() => {
+    if (!enabled || !prompt.trim() || typeof window === "undefined") {
+      setCounted(null);
+      setIsCounting(false);
+      return;
+    }
+
+    const text = [...(history ?? []).map((turn) => turn.text ?? ""), prompt]
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .join("\n\n");
+    const images = [...(history ?? []).flatMap((turn) => turn.images), ...inputImages];
+    const abortController = new AbortController();
+    const { signal } = abortController;
+
+    const countText = async (): Promise<CountedInput> => {
+      const cacheKey = `${model}:text:${text}`;
+      const cached = tokenCountCache.get(cacheKey);
+      if (cached !== undefined) {
+        return { tokens: cached, approximate: false };
+      }
+      if (!countingKey) {
+        return { tokens: approximateTextTokens(text), approximate: true };
+      }
+      const tokens = await countGeminiTokens({ apiKey: countingKey, model, prompt: text, inputImages: [], signal });
+      rememberCount(cacheKey, tokens);
+      return { tokens, approximate: false };
+    };
+
+    const countImage = async (image: ProviderInputImage): Promise<CountedInput> => {
+      const cacheKey = imageCacheKey(model, image.url);
+      const cached = tokenCountCache.get(cacheKey);
+      if (cached !== undefined) {
+        return { tokens: cached, approximate: false };
+      }
+      if (!countingKey) {
+        return { tokens: APPROXIMATE_IMAGE_TOKENS, approximate: true };
+      }
+      try {
+        const [inline] = await resolveReferenceImages([image], undefined, signal);
+        const tokens = await countGeminiTokens({ apiKey: countingKey, model, prompt: "", inputImages: [inline], signal });
+        rememberCount(cacheKey, tokens);
+        return { tokens, approximate: false };
+      } catch (imageError) {
+        if (signal.aborted) {
+          throw imageError;
+        }
+        // An unreadable reference fails the run anyway; don't let it blank the estimate.
+        return { tokens: APPROXIMATE_IMAGE_TOKENS, approximate: true };
+      }
+    };
+
+    const timeoutId = window.setTimeout(() => {
+      setIsCounting(true);
+      Promise.all([countText(), ...images.map(countImage)])
+        .then((counts) => {
+          if (signal.aborted) {
+            return;
+          }
+          setCounted({
+            tokens: counts.reduce((total, count) => total + count.tokens, 0),
+            approximate: counts.some((count) => count.approximate),
+          });
+        })
+        .catch((countError: unknown) => {
+          if (signal.aborted) {
+            return;
+          }
+          debugLog("estimate:count-error", { error: countError });
+          setCounted({
+            tokens: approximateInputTokens(prompt, inputImages.length, history),
+            approximate: true,
+          });
+        })
+        .finally(() => {
+          if (!signal.aborted) {
+            setIsCounting(false);
+          }
+        });
+    }, ESTIMATE_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+      abortController.abort();
+    };
+  }, [enabled, prompt, inputImages, history, model, countingKey]);
+
+  // Pricing is cheap and local, so changing the image count or quality doesn't count again.
+  const estimate = useMemo<TokenEstimate | null>(() => {
+    if (!enabled || !counted) {
+      return null;
+    }
+    return {
+      inputTokens: counted.tokens,
+      outputTokensPerImage: imageOutputTokens(model, quality),
+      costCents: estimateRunCost({
+        provider,
+        model,
+        quality,
+        imageCount,
+        requests: estimateRequestCount(provider, imageCount, model, params),
+        inputTokens: counted.tokens,
+      }),
+      approximate: counted.approximate,
+    };
+  }, [enabled, counted, provider, model, quality, imageCount, params]);
+
+  return { estimate, isCounting };
+}
@@ -1,4 +1,8 @@
-import type { Generation } from "./types";
+import { priceSucceededSlots, type GenerationSlot, type GenerationSlotUpdate } from "../../lib/generate-seedream";
+import type { ImageFileInfo } from "../../lib/image-conversion";
+import type { ConversationTurn } from "../../lib/providers/types";
+import { approximateInputTokens } from "../../lib/token-estimate";
+import type { EditSessionTarget, Generation, GenerationSession } from "./types";
 
 export function resizeTextarea(element: HTMLTextAreaElement | null) {
   if (!element) {
@@ -13,6 +17,145 @@ export function normalizeImages(images: string[]): string[] {
   return images.filter((src) => src && src.length > 0);
 }
 
+// Empty slots with a slot record are failed or being retried on their own; any other gap means the run never finished.
+export function hasUnfinishedImages(generation: Generation): boolean {
+  return generation.images.some((img, index) => !img && !generation.slots?.[index]);
+}
+
+// A reload drops in-flight requests, so slots still pending at startup become retryable failures.
+export function settleInterruptedSlots(generation: Generation): Generation {
+  if (!generation.slots?.some((slot) => slot.status === "pending")) {
+    return generation;
+  }
+  return {
+    ...generation,
+    slots: generation.slots.map((slot) =>
+      slot.status === "pending"
+        ? { ...slot, status: "failed", error: "Interrupted before the image finished." }
+        : slot,
+    ),
+  };
+}
+
+/**
+ * The feed entry for a run cancelled from its pending card. Images that
+ * already came back stay, with their slots; only the slots still running are
+ * marked cancelled so they can be retried one by one. A run cancelled before
+ * any image finished keeps no slots and reads as a whole cancelled request.
+ * The finished images were paid for, so they are priced like any other.
+ */
+export function settleCancelledSlots(generation: Generation): Generation {
+  const finishedSlots = generation.images.flatMap((img, index) => (img ? [index] : []));
+  const cancelled: Generation = {
+    ...generation,
+    status: "cancelled",
+    serverJobId: undefined,
+    queuedCalls: undefined,
+    // A retried generation's pending card still carries the cost of the run it replaces.
+    costCents: priceSucceededSlots(
+      generation,
+      generation.model ?? "gemini-3-pro-image-preview",
+      finishedSlots,
+      approximateInputTokens(generation.prompt, generation.inputImages.length),
+    ),
+  };
+  if (!generation.images.some(Boolean)) {
+    return { ...cancelled, slots: undefined };
+  }
+  return {
+    ...cancelled,
+    slots: generation.images.map((img, index): GenerationSlot => {
+      const slot = generation.slots?.[index];
+      if (img) {
+        return slot ?? { status: "succeeded", attempts: 1 };
+      }
+      return slot?.status === "failed" ? slot : { status: "cancelled", attempts: slot?.attempts ?? 0 };
+    }),
+  };
+}
+
+/** Writes one slot's outcome into a generation, keeping images, notes, files, and slots aligned. */
+export function applySlotUpdate(
+  generation: Generation,
+  update: GenerationSlotUpdate & { file?: ImageFileInfo | null },
+): Generation {
+  const images = [...generation.images];
+  images[update.slot] = update.image;
+
+  const slots = generation.images.map(
+    (img, index): GenerationSlot => generation.slots?.[index] ?? { status: img ? "succeeded" : "pending", attempts: img ? 1 : 0 },
+  );
+  slots[update.slot] = update.error
+    ? { status: update.status, attempts: update.attempts, error: update.error }
+    : { status: update.status, attempts: update.attempts };
+
+  const needsNotes = Boolean(generation.imageNotes || update.note);
+  const imageNotes = needsNotes ? generation.images.map((_, index) => generation.imageNotes?.[index] ?? {}) : undefined;
+  if (imageNotes && update.status !== "pending") {
+    imageNotes[update.slot] = update.note ?? {};
+  }
+
+  const imageFiles =
+    generation.imageFiles || update.file ? generation.images.map((_, index) => generation.imageFiles?.[index] ?? null) : undefined;
+  if (imageFiles) {
+    imageFiles[update.slot] = update.file ?? null;
+  }
+
+  return { ...generation, images, slots, ...(imageNotes ? { imageNotes } : {}), ...(imageFiles ? { imageFiles } : {}) };
+}
+
+/** The session link for a new turn that refines `target`. */
+export function nextSessionTurn(parent: Generation, target: EditSessionTarget): GenerationSession {
+  return {
+    id: parent.session?.id ?? parent.id,
+    turn: (parent.session?.turn ?? 1) + 1,
+    parentId: parent.id,
+    parentImageIndex: target.imageIndex,
+  };
+}
+
+/**
+ * Rebuilds the conversation leading up to `target` from linked generations,
+ * oldest turn first. A deleted turn ends the walk, so the session carries on
+ * from whatever history is left.
+ */
+export function buildSessionHistory(generations: Generation[], target: EditSessionTarget): ConversationTurn[] {
+  const history: ConversationTurn[] = [];
+  let current = generations.find((generation) => generation.id === target.generationId);
+  let imageIndex = target.imageIndex;
+
+  while (current) {
+    const image = current.images[imageIndex];
+    const note = current.imageNotes?.[imageIndex];
+    history.unshift(
+      { role: "user", text: current.prompt, images: current.inputImages.map((input) => ({ ...input })) },
+      {
+        role: "model",
+        text: note?.text,
+        images: image ? [{ id: `${current.id}-${imageIndex}`, name: `Turn ${current.session?.turn ?? 1} result`, url: image }] : [],
+        signatures: note?.signatures,
+      },
+    );
+
+    const link = current.session;
+    if (!link) {
+      break;
+    }
+    imageIndex = link.parentImageIndex;
+    current = generations.find((generation) => generation.id === link.parentId);
+  }
+
+  return history;
+}
+
+/** The history a session turn was generated with, for retrying it; empty outside sessions. */
+export function sessionHistoryFor(generations: Generation[], generation: Generation): ConversationTurn[] {
+  const link = generation.session;
+  return link
+    ? buildSessionHistory(generations, { generationId: link.parentId, imageIndex: link.parentImageIndex })
+    : [];
+}
+
 export function parseSeed(value: string): number | null {
   if (!value) {
     return null;
@@ -26,6 +169,28 @@ export function createId(prefix: string): string {
   return `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
 }
 
+export function formatCents(amount: number): string {
+  return `$${(amount / 100).toFixed(2)}`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+/** Batch Mode takes one prompt per non-empty line. */
+export function splitBatchPrompts(prompt: string): string[] {
+  return prompt
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
 export function groupByDate(generations: Generation[]): {
   key: string;
   label: string;
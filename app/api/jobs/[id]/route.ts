@@ -0,0 +1,50 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { checkAccessSession } from "@/app/actions/access-control";
+import { cancelGenerationJob, getGenerationJob } from "@/app/lib/jobs/runner";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Jobs hold prompts and generated images, so reading or cancelling one needs the same unlock as starting it.
+async function unauthorized() {
+  const access = await checkAccessSession();
+  return access.valid ? null : NextResponse.json({ error: "Unlock the app before managing jobs." }, { status: 401 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const denied = await unauthorized();
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+  const after = Number.parseInt(request.nextUrl.searchParams.get("after") ?? "0", 10);
+
+  try {
+    const job = await getGenerationJob(id, Number.isFinite(after) ? after : 0);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error(`Failed to load job ${id}:`, error);
+    return NextResponse.json({ error: "Failed to load job" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const denied = await unauthorized();
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+
+  if (!cancelGenerationJob(id)) {
+    return NextResponse.json({ error: "Job is not running" }, { status: 409 });
+  }
+
+  return NextResponse.json({ success: true }, { status: 202 });
+}
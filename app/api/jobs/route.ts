@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { checkAccessSession } from "@/app/actions/access-control";
+import { startGenerationJob } from "@/app/lib/jobs/runner";
+import type { GenerationJobRequest } from "@/app/lib/jobs/types";
+
+// Jobs keep running after the response is sent, which needs a long-lived Node process.
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const access = await checkAccessSession();
+  if (!access.valid) {
+    return NextResponse.json({ error: "Unlock the app before starting jobs." }, { status: 401 });
+  }
+
+  let body: GenerationJobRequest;
+  try {
+    body = (await request.json()) as GenerationJobRequest;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!body || typeof body.prompt !== "string" || typeof body.provider !== "string") {
+    return NextResponse.json({ error: "prompt and provider are required" }, { status: 400 });
+  }
+
+  // Only data: and http(s) URLs mean anything on the server; blob: URLs belong to the browser tab.
+  const images = [...(body.inputImages ?? []), ...(body.history ?? []).flatMap((turn) => turn?.images ?? [])];
+  if (images.some((image) => typeof image?.url !== "string" || image.url.startsWith("blob:"))) {
+    return NextResponse.json({ error: "Input images must be data: or http(s) URLs" }, { status: 400 });
+  }
+
+  try {
+    // The caller passed the access gate, so vertex-sa: keys may use the server's service account.
+    const job = await startGenerationJob(body, { allowServiceAccount: true });
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error("Failed to start generation job:", error);
+    return NextResponse.json({ error: "Failed to start generation job" }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { checkAccessSession } from "@/app/actions/access-control";
+import { RemoteImageError, fetchRemoteImageAsDataUrl } from "@/app/lib/remote-image";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Fetches a remote reference image for the browser, which usually cannot read it directly because of CORS.
+export async function POST(request: Request) {
+  // Without the access gate anyone could use the server as an open proxy.
+  const access = await checkAccessSession();
+  if (!access.valid) {
+    return NextResponse.json({ error: "Unlock the app before fetching remote images." }, { status: 401 });
+  }
+
+  let url: unknown;
+  try {
+    ({ url } = (await request.json()) as { url?: unknown });
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (typeof url !== "string" || url.length === 0) {
+    return NextResponse.json({ error: "url is required" }, { status: 400 });
+  }
+
+  try {
+    const dataUrl = await fetchRemoteImageAsDataUrl(url, request.signal);
+    return NextResponse.json({ dataUrl });
+  } catch (error) {
+    if (error instanceof RemoteImageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to proxy reference image:", error);
+    return NextResponse.json({ error: "Failed to fetch image" }, { status: 502 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { checkAccessSession } from "@/app/actions/access-control";
+import { VertexCredentialsError, mintVertexAccessToken } from "@/app/lib/vertex-service-account";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Hands the browser a short-lived Vertex token; the service-account key itself stays on the server.
+export async function POST() {
+  // The token spends on the server's Vertex project, so it is only handed out behind the access gate.
+  const access = await checkAccessSession();
+  if (!access.valid) {
+    return NextResponse.json({ error: "Unlock the app before using the Vertex service account." }, { status: 401 });
+  }
+
+  try {
+    const token = await mintVertexAccessToken();
+    return NextResponse.json(token);
+  } catch (error) {
+    if (error instanceof VertexCredentialsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to mint Vertex access token:", error);
+    return NextResponse.json({ error: "Failed to mint Vertex access token" }, { status: 502 });
+  }
+}
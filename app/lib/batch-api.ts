@@ -0,0 +1,245 @@
+"use client";
+
+import { parseGeminiKeyTarget } from "./gemini-key-target";
+import {
+  buildGeminiPayload,
+  extractImageFromParts,
+  extractTextFromParts,
+  type GeminiPart,
+} from "./providers/gemini";
+import { ASPECT_RATIO_MAP, RESOLUTION_MAP, fetchWithTimeout } from "./providers/shared";
+import type { ProviderInputImage } from "./providers/types";
+import { getQualityForSize, snapAspectRatio, type AspectChoice, type ModelId, type OutputFormat, type QualityKey } from "./seedream-options";
+import { getImagePriceCents } from "./pricing";
+
+const BATCH_API_BASE = "https://generativelanguage.googleapis.com/v1beta";
+// Submission and status calls return quickly; the work itself happens server-side.
+const BATCH_REQUEST_TIMEOUT_MS = 60_000;
+
+// Batch Mode is billed at 50% of the interactive price.
+export const BATCH_DISCOUNT = 0.5;
+
+export type BatchJobState = "PENDING" | "RUNNING" | "SUCCEEDED" | "FAILED";
+
+export type BatchRequestEntry = {
+  /** Echoed back in the results so each output can be matched to its prompt. */
+  key: string;
+  prompt: string;
+};
+
+export type SubmitBatchJobArgs = {
+  apiKey: string;
+  model: ModelId;
+  displayName: string;
+  entries: BatchRequestEntry[];
+  aspect: AspectChoice;
+  quality: QualityKey;
+  outputFormat: OutputFormat;
+  size: { width: number; height: number };
+  googleSearch: boolean;
+  inputImages: ProviderInputImage[];
+};
+
+export type BatchJobResult = {
+  key: string;
+  image: string | null;
+  text?: string;
+  thoughts?: string;
+  error?: string;
+};
+
+export type BatchJobSnapshot = {
+  state: BatchJobState;
+  error?: string;
+  /** Only present once the job has SUCCEEDED. */
+  results?: BatchJobResult[];
+};
+
+type BatchOperation = {
+  name?: string;
+  error?: { message?: string };
+  metadata?: { state?: string };
+  response?: BatchOutput & { output?: BatchOutput };
+};
+
+type BatchOutput = {
+  inlinedResponses?: InlinedResponses | InlinedResponse[];
+};
+
+type InlinedResponses = { inlinedResponses?: InlinedResponse[] };
+
+type InlinedResponse = {
+  metadata?: { key?: string };
+  response?: { candidates?: { content?: { parts?: GeminiPart[] } }[] };
+  error?: { message?: string };
+};
+
+export function estimateBatchCost(
+  model: ModelId,
+  quality: QualityKey,
+  imageCount: number,
+): { standardCents: number; batchCents: number; savingsCents: number } {
+  const standardCents = (getImagePriceCents("gemini", model, quality) ?? 0) * imageCount;
+  const batchCents = standardCents * BATCH_DISCOUNT;
+  return { standardCents, batchCents, savingsCents: standardCents - batchCents };
+}
+
+// The Developer API and Vertex report states as BATCH_STATE_* or JOB_STATE_*; collapse both.
+function normalizeBatchState(rawState: string | undefined): BatchJobState {
+  const state = (rawState ?? "").replace(/^(BATCH|JOB)_STATE_/, "");
+  switch (state) {
+    case "RUNNING":
+      return "RUNNING";
+    case "SUCCEEDED":
+      return "SUCCEEDED";
+    case "FAILED":
+    case "CANCELLED":
+    case "EXPIRED":
+      return "FAILED";
+    default:
+      return "PENDING";
+  }
+}
+
+function resolveDeveloperKey(apiKey: string): string {
+  const target = parseGeminiKeyTarget(apiKey);
+  if (target.kind !== "developer") {
+    throw new Error("Batch Mode requires a Gemini Developer API key; Vertex keys are not supported.");
+  }
+  return target.key;
+}
+
+async function readBatchError(response: Response): Promise<Error> {
+  const body = await response.text();
+  try {
+    const errJson = JSON.parse(body) as { error?: { message?: string } };
+    if (errJson.error?.message) {
+      return new Error(`Gemini Batch API Error: ${errJson.error.message}`);
+    }
+  } catch {
+    // Not JSON; fall through to the raw body.
+  }
+  return new Error(`Gemini Batch API Error (${response.status}): ${body}`);
+}
+
+/**
+ * Submits every entry as one inline batch job and returns the job name
+ * (e.g. "batches/abc123") used for polling.
+ */
+export async function submitBatchJob({
+  apiKey,
+  model,
+  displayName,
+  entries,
+  aspect,
+  quality,
+  outputFormat,
+  size,
+  googleSearch,
+  inputImages,
+}: SubmitBatchJobArgs): Promise<{ name: string; state: BatchJobState }> {
+  if (entries.length === 0) {
+    throw new Error("Add at least one prompt to the batch.");
+  }
+
+  const key = resolveDeveloperKey(apiKey);
+
+  const requests = entries.map((entry) => ({
+    request: buildGeminiPayload({
+      prompt: entry.prompt,
+      quality,
+      outputFormat,
+      numImages: 1,
+      model,
+      googleSearch,
+      size,
+      aspectRatio: ASPECT_RATIO_MAP[aspect] || snapAspectRatio(size, model),
+      resolution: RESOLUTION_MAP[aspect === "custom" ? getQualityForSize(size) : quality] || "1K",
+      inputImages,
+      credentials: {},
+    }),
+    metadata: { key: entry.key },
+  }));
+
+  const response = await fetchWithTimeout(
+    `${BATCH_API_BASE}/models/${encodeURIComponent(model)}:batchGenerateContent`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": key,
+      },
+      body: JSON.stringify({
+        batch: {
+          display_name: displayName,
+          input_config: { requests: { requests } },
+        },
+      }),
+      cache: "no-store",
+    },
+    BATCH_REQUEST_TIMEOUT_MS,
+  );
+
+  if (!response.ok) {
+    throw await readBatchError(response);
+  }
+
+  const operation = (await response.json()) as BatchOperation;
+  if (!operation.name) {
+    throw new Error("Gemini Batch API did not return a job name.");
+  }
+
+  return { name: operation.name, state: normalizeBatchState(operation.metadata?.state) };
+}
+
+function collectInlinedResponses(operation: BatchOperation): InlinedResponse[] {
+  const output = operation.response?.output ?? operation.response;
+  const inlined = output?.inlinedResponses;
+  if (Array.isArray(inlined)) {
+    return inlined;
+  }
+  return inlined?.inlinedResponses ?? [];
+}
+
+export async function getBatchJob(apiKey: string, name: string): Promise<BatchJobSnapshot> {
+  const key = resolveDeveloperKey(apiKey);
+
+  const response = await fetchWithTimeout(
+    `${BATCH_API_BASE}/${name}`,
+    {
+      method: "GET",
+      headers: { "x-goog-api-key": key },
+      cache: "no-store",
+    },
+    BATCH_REQUEST_TIMEOUT_MS,
+  );
+
+  if (!response.ok) {
+    throw await readBatchError(response);
+  }
+
+  const operation = (await response.json()) as BatchOperation;
+  const state = operation.error ? "FAILED" : normalizeBatchState(operation.metadata?.state);
+
+  if (state === "FAILED") {
+    return { state, error: operation.error?.message ?? "Batch job failed." };
+  }
+
+  if (state !== "SUCCEEDED") {
+    return { state };
+  }
+
+  const results = collectInlinedResponses(operation).map((item, index) => {
+    const parts = item.response?.candidates?.[0]?.content?.parts;
+    const { text, thoughts } = extractTextFromParts(parts);
+    return {
+      key: item.metadata?.key ?? String(index),
+      image: extractImageFromParts(parts),
+      text: text || undefined,
+      thoughts: thoughts || undefined,
+      error: item.error?.message,
+    };
+  });
+
+  return { state, results };
+}
@@ -0,0 +1,90 @@
+// Fallback cooldowns when the API does not send a RetryInfo delay.
+const RATE_LIMIT_COOLDOWN_MS = 60_000;
+const UNAVAILABLE_COOLDOWN_MS = 30_000;
+
+// Key -> epoch ms when the key may be used again. Shared by every request in the tab.
+const cooldowns = new Map<string, number>();
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * True when a failure is tied to the key rather than the request: rate limits,
+ * exhausted quota, or the backend being overloaded for this project.
+ */
+export function isKeyExhaustedError(status: number, body: string): boolean {
+  if (status === 429 || status === 503) {
+    return true;
+  }
+  return status === 403 && /quota|RESOURCE_EXHAUSTED/i.test(body);
+}
+
+// Gemini returns google.rpc.RetryInfo with e.g. "retryDelay": "37s" on 429s.
+function parseRetryDelayMs(body: string): number | null {
+  const match = body.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (!match) {
+    return null;
+  }
+  const seconds = Number.parseFloat(match[1]);
+  return Number.isFinite(seconds) ? Math.ceil(seconds * 1000) : null;
+}
+
+export function markKeyCoolingDown(key: string, status: number, body: string): void {
+  const delay =
+    parseRetryDelayMs(body) ?? (status === 503 ? UNAVAILABLE_COOLDOWN_MS : RATE_LIMIT_COOLDOWN_MS);
+  cooldowns.set(key, Date.now() + delay);
+  notify();
+}
+
+export function getKeyCooldownRemaining(key: string, now: number = Date.now()): number {
+  const until = cooldowns.get(key);
+  if (until === undefined) {
+    return 0;
+  }
+  if (until <= now) {
+    cooldowns.delete(key);
+    return 0;
+  }
+  return until - now;
+}
+
+/**
+ * Healthy keys first (in their configured order), then cooling keys by soonest
+ * recovery so a fully throttled pool still gets a best-effort attempt.
+ */
+export function orderKeysByHealth(keys: string[]): string[] {
+  const now = Date.now();
+  const unique = Array.from(new Set(keys.map((key) => key.trim()).filter((key) => key.length > 0)));
+  const healthy = unique.filter((key) => getKeyCooldownRemaining(key, now) === 0);
+  const cooling = unique
+    .filter((key) => getKeyCooldownRemaining(key, now) > 0)
+    .sort((a, b) => getKeyCooldownRemaining(a, now) - getKeyCooldownRemaining(b, now));
+  return [...healthy, ...cooling];
+}
+
+export function subscribeKeyCooldowns(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Short, non-reversible id for a key, so a saved record can name the key it
+ * used without storing it. Only meant to tell the keys in the pool apart.
+ */
+export function fingerprintKey(key: string): string {
+  // cyrb53: two 32-bit multiply-xor lanes folded into 53 bits.
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < key.length; index++) {
+    const code = key.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
@@ -1,51 +1,109 @@
 export const VERTEX_KEY_FORMAT = "vertex:PROJECT_ID:LOCATION:API_KEY";
+export const VERTEX_TOKEN_FORMAT = "vertex-token:PROJECT_ID:LOCATION:ACCESS_TOKEN";
+export const VERTEX_SERVICE_ACCOUNT_FORMAT = "vertex-sa:PROJECT_ID:LOCATION";
+
+// Refresh a little before expiry so a token never lapses halfway through a long render.
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
 
 export type GeminiKeyTarget =
   | { kind: "developer"; key: string }
-  | { kind: "vertex"; key: string; project: string; location: string };
+  | { kind: "vertex"; key: string; project: string; location: string }
+  /** Vertex with OAuth: a pasted access token, or null to use the server's service account. */
+  | { kind: "vertex-oauth"; key: string; project: string; location: string; accessToken: string | null };
+
+export type VertexAccessToken = {
+  accessToken: string;
+  /** Epoch milliseconds. */
+  expiresAt: number;
+};
+
+/** Returns an access token for the server's Vertex service account. */
+export type VertexTokenLoader = (signal?: AbortSignal) => Promise<VertexAccessToken>;
+
+function splitDescriptor(descriptor: string, prefix: string, format: string, needsSecret: boolean) {
+  const [project = "", location = "", ...secretParts] = descriptor.slice(prefix.length).split(":");
+  const secret = secretParts.join(":").trim();
+  if (!project.trim() || !location.trim() || (needsSecret ? !secret : secret)) {
+    throw new Error(`Invalid Vertex key format. Use ${format}.`);
+  }
+  return { project: project.trim(), location: location.trim(), secret };
+}
 
 export function parseGeminiKeyTarget(rawKey: string): GeminiKeyTarget {
   const trimmed = rawKey.trim();
-  if (!trimmed.toLowerCase().startsWith("vertex:")) {
-    return { kind: "developer", key: trimmed };
+  const lowered = trimmed.toLowerCase();
+
+  if (lowered.startsWith("vertex-sa:")) {
+    const { project, location } = splitDescriptor(trimmed, "vertex-sa:", VERTEX_SERVICE_ACCOUNT_FORMAT, false);
+    return { kind: "vertex-oauth", key: trimmed, project, location, accessToken: null };
   }
 
-  const descriptor = trimmed.slice("vertex:".length);
-  const [project = "", location = "", ...keyParts] = descriptor.split(":");
-  const key = keyParts.join(":").trim();
+  if (lowered.startsWith("vertex-token:")) {
+    const { project, location, secret } = splitDescriptor(trimmed, "vertex-token:", VERTEX_TOKEN_FORMAT, true);
+    return { kind: "vertex-oauth", key: trimmed, project, location, accessToken: secret };
+  }
 
-  if (!project.trim() || !location.trim() || !key) {
-    throw new Error(`Invalid Vertex key format. Use ${VERTEX_KEY_FORMAT}.`);
+  if (!lowered.startsWith("vertex:")) {
+    return { kind: "developer", key: trimmed };
   }
 
-  return {
-    kind: "vertex",
-    project: project.trim(),
-    location: location.trim(),
-    key,
-  };
+  const { project, location, secret } = splitDescriptor(trimmed, "vertex:", VERTEX_KEY_FORMAT, true);
+  return { kind: "vertex", project, location, key: secret };
 }
 
 export function buildGeminiEndpoint(
   target: GeminiKeyTarget,
   model: string,
-  method: "generateContent" | "countTokens",
+  method: "generateContent" | "streamGenerateContent" | "countTokens",
 ): string {
-  if (target.kind === "vertex") {
-    return `https://aiplatform.googleapis.com/v1/projects/${encodeURIComponent(
-      target.project,
-    )}/locations/${encodeURIComponent(
-      target.location,
-    )}/publishers/google/models/${encodeURIComponent(model)}:${method}?key=${encodeURIComponent(
-      target.key,
-    )}`;
-  }
-
-  return `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(
-    model,
-  )}:${method}?key=${encodeURIComponent(target.key)}`;
+  // Streaming responses come back as server-sent events instead of one JSON array.
+  const streamParam = method === "streamGenerateContent" ? "alt=sse" : "";
+
+  if (target.kind === "developer") {
+    return `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(
+      model,
+    )}:${method}?key=${encodeURIComponent(target.key)}${streamParam ? `&${streamParam}` : ""}`;
+  }
+
+  const base = `https://aiplatform.googleapis.com/v1/projects/${encodeURIComponent(
+    target.project,
+  )}/locations/${encodeURIComponent(target.location)}/publishers/google/models/${encodeURIComponent(model)}:${method}`;
+
+  // OAuth callers authenticate with the Authorization header alone; Vertex rejects a key alongside it.
+  const query =
+    target.kind === "vertex"
+      ? [`key=${encodeURIComponent(target.key)}`, streamParam].filter(Boolean).join("&")
+      : streamParam;
+  return query ? `${base}?${query}` : base;
 }
 
-export function getGeminiApiKey(target: GeminiKeyTarget): string {
-  return target.key;
+let cachedRouteToken: VertexAccessToken | null = null;
+
+/** Default loader for the browser: /api/vertex-token mints the token, so the service-account key stays on the server. */
+export const loadVertexTokenViaRoute: VertexTokenLoader = async (signal) => {
+  if (cachedRouteToken && cachedRouteToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return cachedRouteToken;
+  }
+
+  const response = await fetch("/api/vertex-token", { method: "POST", cache: "no-store", signal });
+  const body = (await response.json().catch(() => ({}))) as Partial<VertexAccessToken> & { error?: string };
+  if (!response.ok || typeof body.accessToken !== "string" || typeof body.expiresAt !== "number") {
+    throw new Error(body.error ?? `Vertex token request failed (${response.status}).`);
+  }
+
+  cachedRouteToken = { accessToken: body.accessToken, expiresAt: body.expiresAt };
+  return cachedRouteToken;
+};
+
+/** Headers that authenticate a request to the target: an API key, or a bearer token for OAuth targets. */
+export async function getGeminiAuthHeaders(
+  target: GeminiKeyTarget,
+  loadVertexToken: VertexTokenLoader = loadVertexTokenViaRoute,
+  signal?: AbortSignal,
+): Promise<Record<string, string>> {
+  if (target.kind !== "vertex-oauth") {
+    return { "x-goog-api-key": target.key };
+  }
+  const accessToken = target.accessToken ?? (await loadVertexToken(signal)).accessToken;
+  return { Authorization: `Bearer ${accessToken}` };
 }
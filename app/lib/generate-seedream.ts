@@ -1,28 +1,54 @@
-"use client";
-
 import {
   calculateImageSize,
   getAspectDefinition,
   getModelDefinition,
   getQualityDefinition,
+  getQualityForSize,
+  snapAspectRatio,
+  MAX_CUSTOM_DIMENSION,
+  MIN_CUSTOM_DIMENSION,
   type AspectKey,
   type ModelId,
   type QualityKey,
   type Provider,
   type OutputFormat,
 } from "./seedream-options";
+import { getKeyCooldownRemaining, isKeyExhaustedError, markKeyCoolingDown, orderKeysByHealth } from "./gemini-key-pool";
+import type { VertexTokenLoader } from "./gemini-key-target";
+import { omitParams, pickSupportedParams, type GenerationParams } from "./generation-params";
+import { getProviderAdapter } from "./providers/registry";
+import { resolveReferenceImages, type RemoteImageLoader } from "./reference-images";
 import {
-  buildGeminiEndpoint,
-  getGeminiApiKey,
-  parseGeminiKeyTarget,
-} from "./gemini-key-target";
+  ASPECT_RATIO_MAP,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  GENERATION_CANCELLED_MESSAGE,
+  RESOLUTION_MAP,
+  fetchWithTimeout,
+  readServerSentEvents,
+  waitWithSignal,
+  withRequestSignal,
+} from "./providers/shared";
+import type {
+  ConversationTurn,
+  ProviderAdapter,
+  ProviderQueueStatus,
+  ProviderRequest,
+  ProviderRequestContext,
+  ProviderResult,
+  ProviderSettings,
+  QueuedProviderRequest,
+  ThoughtSignatures,
+} from "./providers/types";
+import { approximateInputTokens, estimateRunCost } from "./token-estimate";
 
-const MIN_IMAGE_DIMENSION = 512;
-const MAX_IMAGE_DIMENSION = 4096;
 // Gemini 3 Pro Image supports up to 14 reference images; keep the same cap here.
 const MAX_MODEL_INPUT_IMAGES = 14;
-// Gemini image gen can take up to ~3-4 minutes in some regions; use a generous timeout.
-const DEFAULT_REQUEST_TIMEOUT_MS = 480_000;
+// Each call gets this many tries on transient failures, waiting 2s, then 4s, between them.
+const MAX_SLOT_ATTEMPTS = 3;
+const SLOT_RETRY_BASE_DELAY_MS = 2_000;
+// Queued calls are polled with short requests; a few failed polls in a row give up on the call.
+const QUEUE_REQUEST_TIMEOUT_MS = 30_000;
+const MAX_QUEUE_POLL_FAILURES = 5;
 
 export type InputImage = {
   id: string;
@@ -34,6 +60,18 @@ export type InputImage = {
 
 type GenerateAspect = AspectKey | "custom";
 
+type RequestOutcome =
+  | { result: ProviderResult }
+  | { queued: QueuedProviderRequest }
+  | { status: number; errorText: string };
+
+// Server errors and dropped connections; worth another try after a pause.
+class TransientRequestError extends Error {}
+
+function isTransientStatus(status: number): boolean {
+  return status === 408 || status >= 500;
+}
+
 export type GenerateSeedreamArgs = {
   prompt: string;
   aspect: GenerateAspect;
@@ -44,11 +82,68 @@ export type GenerateSeedreamArgs = {
   model?: ModelId;
   googleSearch?: boolean;
   apiKey?: string; // FAL Key
-  geminiApiKey?: string; // Gemini API key or vertex:PROJECT_ID:LOCATION:API_KEY descriptor.
+  geminiApiKey?: string; // Gemini API key, or a vertex:, vertex-token:, or vertex-sa: descriptor.
+  geminiApiKeys?: string[]; // Key pool; calls are spread across healthy keys and fail over on 429/503.
+  providerSettings?: ProviderSettings; // Settings for registry providers such as OpenAI-compatible.
   sizeOverride?: { width: number; height: number };
   inputImages?: InputImage[];
+  history?: ConversationTurn[]; // Earlier edit-session turns, oldest first; only for providers that support conversations.
+  params?: GenerationParams; // Seed, sampling, candidates, and safety overrides; unsupported ones are dropped.
+  loadRemoteImage?: RemoteImageLoader; // Fetches http(s) references for inline-only providers; defaults to the proxy route.
+  loadVertexToken?: VertexTokenLoader; // Mints service-account tokens for vertex-sa: keys; defaults to the token route.
+  signal?: AbortSignal; // Aborts every sub-request; the promise rejects once it fires.
+  onProgress?: (progress: GenerationProgress) => void; // Live thoughts/drafts from streaming providers.
+  onSlotSettled?: (update: GenerationSlotUpdate) => void; // Fires as each image slot succeeds or gives up.
+  onRequestQueued?: (call: QueuedCall) => void; // Fires when a queued provider (FAL) accepts a call, so a reload can poll it again.
+};
+
+export type GenerationProgress = {
+  /** Index of the image slot the update belongs to. */
+  slot: number;
+  /** Thought-summary text received so far for this slot. */
+  thoughtText: string;
+  /** Latest interim image, if the model has produced one. */
+  draftImage: string | null;
+  /** Queue position and logs of a call waiting on a queued provider. */
+  queue?: ProviderQueueStatus;
+};
+
+/** A call a queued provider accepted, with the image slots it fills. */
+export type QueuedCall = {
+  /** First image slot the call fills. */
+  slot: number;
+  numImages: number;
+  request: QueuedProviderRequest;
 };
 
+/** What the model said about one output image. Text fields are optional and trimmed. */
+export type GenerationImageNote = {
+  text?: string;
+  thoughts?: string;
+  /** Needed to replay this image as a model turn in an edit session. */
+  signatures?: ThoughtSignatures;
+};
+
+/** "cancelled" is only set in the browser, on slots a cancelled run never finished. */
+export type GenerationSlotStatus = "pending" | "succeeded" | "failed" | "cancelled";
+
+export type GenerationSlot = {
+  status: GenerationSlotStatus;
+  /** Requests made for this slot, including automatic and manual retries. */
+  attempts: number;
+  error?: string;
+};
+
+export type GenerationSlotUpdate = GenerationSlot & {
+  slot: number;
+  /** Empty when the slot failed. */
+  image: string;
+  note?: GenerationImageNote;
+};
+
+// Absent means the generation completed (or predates status tracking).
+export type GenerationStatus = "cancelled";
+
 export type SeedreamGeneration = {
   prompt: string;
   aspect: GenerateAspect;
@@ -60,24 +155,202 @@ export type SeedreamGeneration = {
   size: { width: number; height: number };
   images: string[];
   inputImages: InputImage[];
+  /** Parallel to `images`; omitted when the model returned no text at all. */
+  imageNotes?: GenerationImageNote[];
+  /** Parallel to `images`; omitted when every slot succeeded. Failed slots have an empty image. */
+  slots?: GenerationSlot[];
+  /** The advanced parameters the provider was actually sent, so a retry reproduces the run. */
+  params?: GenerationParams;
+  /** Set when the run was grounded with Google Search, so a retry is too. */
+  googleSearch?: boolean;
+  /**
+   * List price of the images that came back plus the input of the calls that returned them; failed
+   * slots cost nothing. Omitted when pricing is unknown.
+   */
+  costCents?: number;
+  status?: GenerationStatus;
 };
 
-async function fetchWithTimeout(
-  url: string,
-  init: RequestInit,
-  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS,
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+/** Advanced parameters the provider and model honour, with candidates only where the model returns several. */
+function resolveParams(provider: Provider, model: ModelId, params: GenerationParams | undefined) {
+  const adapter = getProviderAdapter(provider);
+  const supported = pickSupportedParams(params, adapter?.capabilities.generationParams);
+  return getModelDefinition(model)?.supportsCandidateCount ? supported : omitParams(supported, ["candidateCount"]);
+}
+
+// Formats the provider can't encode are requested as lossless PNG; the browser converts them afterwards.
+function providerOutputFormat(adapter: ProviderAdapter, format: OutputFormat): OutputFormat {
+  return adapter.capabilities.outputFormats.includes(format) ? format : "png";
+}
+
+/** Images one provider call returns; requesting candidates lets one call return several. */
+export function getOutputsPerRequest(provider: Provider, model: ModelId, params?: GenerationParams): number {
+  const adapter = getProviderAdapter(provider);
+  const candidates = resolveParams(provider, model, params)?.candidateCount ?? 1;
+  return Math.max(1, adapter?.capabilities.maxOutputsPerRequest ?? 1, candidates);
+}
+
+/**
+ * Polls a queued call until it completes, then fetches its result. Failed
+ * polls are retried here rather than by the caller, because submitting the
+ * call again would bill it twice. A cancel also asks the provider to drop the job.
+ */
+async function followQueuedRequest(
+  adapter: ProviderAdapter,
+  queued: QueuedProviderRequest,
+  context: ProviderRequestContext,
+  signal: AbortSignal | undefined,
+  onStatus: (status: ProviderQueueStatus) => void,
+): Promise<ProviderResult> {
+  const queue = adapter.queue;
+  if (!queue) {
+    throw new Error(`${adapter.label} does not queue requests.`);
+  }
+
+  const send = async (request: ProviderRequest): Promise<Response> => {
+    for (let failures = 1; ; failures++) {
+      try {
+        const response = await fetchWithTimeout(request.url, request.init, QUEUE_REQUEST_TIMEOUT_MS, signal);
+        if (!isTransientStatus(response.status) || failures >= MAX_QUEUE_POLL_FAILURES) {
+          return response;
+        }
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new Error(GENERATION_CANCELLED_MESSAGE);
+        }
+        if (failures >= MAX_QUEUE_POLL_FAILURES) {
+          const reason = error instanceof Error ? error.message : "Network error";
+          throw new Error(`Lost contact with ${adapter.label} while waiting for the result: ${reason}`);
+        }
+      }
+      await waitWithSignal(queue.pollIntervalMs, signal);
+    }
+  };
 
   try {
-    const response = await fetch(url, { ...init, signal: controller.signal });
-    return response;
-  } finally {
-    clearTimeout(timeoutId);
+    for (;;) {
+      const response = await send(queue.buildStatusRequest(queued, context.credentials));
+      if (!response.ok) {
+        throw adapter.mapError(response.status, await response.text());
+      }
+      const status = queue.parseStatus(await response.json());
+      onStatus(status);
+      if (status.state === "completed") {
+        break;
+      }
+      await waitWithSignal(queue.pollIntervalMs, signal);
+    }
+
+    const response = await send(queue.buildResultRequest(queued, context.credentials));
+    if (!response.ok) {
+      throw adapter.mapError(response.status, await response.text());
+    }
+    return adapter.parseResponse((await response.json()) as unknown, context);
+  } catch (error) {
+    if (signal?.aborted && queue.buildCancelRequest) {
+      const cancel = queue.buildCancelRequest(queued, context.credentials);
+      void fetch(cancel.url, cancel.init).catch(() => undefined);
+    }
+    throw error;
   }
 }
 
+/**
+ * Spreads what one call returned over the slots it fills. A call's text
+ * describes every image it returned, so notes are copied per image.
+ * Signatures belong to one candidate, so they are only kept when the call
+ * made a single image.
+ */
+function toSlotUpdates(
+  adapter: ProviderAdapter,
+  results: ProviderResult[],
+  numImages: number,
+  firstSlot: number,
+  attempts: number,
+): GenerationSlotUpdate[] {
+  const returned = results.flatMap((result) =>
+    result.images
+      .filter((img): img is string => typeof img === "string" && img.length > 0)
+      .map((image) => ({
+        image,
+        note: {
+          text: result.text,
+          thoughts: result.thoughts,
+          signatures: numImages === 1 ? result.signatures : undefined,
+        },
+      })),
+  );
+  // The model usually says why it declined (safety, unclear prompt); surface that instead of a bare error.
+  const explanation = results
+    .map((result) => result.text)
+    .filter((text): text is string => Boolean(text))
+    .join(" ");
+  const emptyError = explanation
+    ? `${adapter.emptyResultMessage} Model response: ${explanation}`
+    : adapter.emptyResultMessage;
+
+  return Array.from({ length: numImages }, (_, offset) => {
+    const output = returned[offset];
+    return output
+      ? { slot: firstSlot + offset, status: "succeeded", attempts, image: output.image, note: output.note }
+      : { slot: firstSlot + offset, status: "failed", attempts, image: "", error: emptyError };
+  });
+}
+
+/**
+ * Prices the images a run returned the way the run estimate does: each image,
+ * plus the input once for every call that returned at least one. Undefined
+ * when the provider's pricing is unknown.
+ */
+export function priceSucceededSlots(
+  run: Pick<SeedreamGeneration, "provider" | "quality" | "params">,
+  model: ModelId,
+  succeededSlots: number[],
+  inputTokens: number,
+): number | undefined {
+  const perRequest = getOutputsPerRequest(run.provider, model, run.params);
+  const cost = estimateRunCost({
+    provider: run.provider,
+    model,
+    quality: run.quality,
+    imageCount: succeededSlots.length,
+    requests: new Set(succeededSlots.map((slot) => Math.floor(slot / perRequest))).size,
+    inputTokens,
+  });
+  return cost ?? undefined;
+}
+
+/**
+ * Builds the finished generation from its settled slots, pricing only the
+ * images that came back. A batch where every slot failed is returned too, at
+ * no cost, so its tiles can show the errors and be retried one by one.
+ */
+function assembleGeneration(
+  run: Omit<SeedreamGeneration, "createdAt" | "images" | "imageNotes" | "slots" | "costCents" | "status">,
+  updates: GenerationSlotUpdate[],
+  pricedModel: ModelId,
+  inputTokens: number,
+): SeedreamGeneration {
+  const images = updates.map((update) => update.image);
+  const imageNotes = updates.map((update) => update.note ?? {});
+  const slots = updates.map(({ status, attempts, error }) => (error ? { status, attempts, error } : { status, attempts }));
+  const costCents = priceSucceededSlots(
+    run,
+    pricedModel,
+    updates.filter((update) => update.status === "succeeded").map((update) => update.slot),
+    inputTokens,
+  );
+
+  return {
+    ...run,
+    createdAt: new Date().toISOString(),
+    images,
+    ...(imageNotes.some((note) => note.text || note.thoughts || note.signatures) ? { imageNotes } : {}),
+    ...(slots.some((slot) => slot.status === "failed") ? { slots } : {}),
+    ...(costCents !== undefined ? { costCents } : {}),
+  };
+}
+
 export async function generateSeedream({
   prompt,
   aspect,
@@ -89,8 +362,18 @@ export async function generateSeedream({
   googleSearch = false,
   apiKey,
   geminiApiKey,
+  geminiApiKeys,
+  providerSettings,
   sizeOverride,
   inputImages = [],
+  history = [],
+  params,
+  loadRemoteImage,
+  loadVertexToken,
+  signal,
+  onProgress,
+  onSlotSettled,
+  onRequestQueued,
 }: GenerateSeedreamArgs): Promise<SeedreamGeneration> {
   const trimmedPrompt = prompt.trim();
 
@@ -98,6 +381,11 @@ export async function generateSeedream({
     throw new Error("Prompt is required.");
   }
 
+  const adapter = getProviderAdapter(provider);
+  if (!adapter) {
+    throw new Error(`Unknown provider: ${provider}`);
+  }
+
   const validNumImages = Math.max(1, Math.min(4, Math.round(numImages)));
 
   if (aspect !== "custom") {
@@ -123,13 +411,13 @@ export async function generateSeedream({
     }
 
     if (
-      width < MIN_IMAGE_DIMENSION ||
-      width > MAX_IMAGE_DIMENSION ||
-      height < MIN_IMAGE_DIMENSION ||
-      height > MAX_IMAGE_DIMENSION
+      width < MIN_CUSTOM_DIMENSION ||
+      width > MAX_CUSTOM_DIMENSION ||
+      height < MIN_CUSTOM_DIMENSION ||
+      height > MAX_CUSTOM_DIMENSION
     ) {
       throw new Error(
-        `Custom resolution must be between ${MIN_IMAGE_DIMENSION} and ${MAX_IMAGE_DIMENSION} pixels.`,
+        `Custom resolution must be between ${MIN_CUSTOM_DIMENSION} and ${MAX_CUSTOM_DIMENSION} pixels.`,
       );
     }
 
@@ -152,290 +440,357 @@ export async function generateSeedream({
     }))
     .filter((image) => image.url.length > 0);
 
-  const effectiveInputImages = normalizedInputImages.slice(0, MAX_MODEL_INPUT_IMAGES);
-  const useEditEndpoint = effectiveInputImages.length > 0;
-
-  const aspectRatioMap: Record<string, string> = {
-    "square-1-1": "1:1",
-    "portrait-2-3": "2:3",
-    "portrait-3-4": "3:4",
-    "portrait-4-5": "4:5",
-    "portrait-9-16": "9:16",
-    "landscape-3-2": "3:2",
-    "landscape-4-3": "4:3",
-    "landscape-5-4": "5:4",
-    "landscape-16-9": "16:9",
-    "landscape-21-9": "21:9",
-  };
+  const effectiveInputImages = normalizedInputImages.slice(
+    0,
+    Math.min(MAX_MODEL_INPUT_IMAGES, adapter.capabilities.maxInputImages),
+  );
 
-  const resolutionMap: Record<string, string> = {
-    "1k": "1K",
-    "2k": "2K",
-    "4k": "4K",
-  };
+  if (history.length > 0 && !adapter.capabilities.supportsConversation) {
+    throw new Error(`${adapter.label} does not support edit sessions. Switch to the Gemini API provider.`);
+  }
 
-  const deriveAspectRatioFromSize = (dimensions: { width: number; height: number }) => {
-    const width = Math.max(1, Math.round(dimensions.width));
-    const height = Math.max(1, Math.round(dimensions.height));
-    let a = width;
-    let b = height;
+  const providerInputImages = adapter.capabilities.inlineImagesOnly
+    ? await resolveReferenceImages(effectiveInputImages, loadRemoteImage, signal)
+    : effectiveInputImages;
+  const providerHistory = adapter.capabilities.inlineImagesOnly
+    ? await Promise.all(
+        history.map(async (turn) => ({
+          ...turn,
+          images: await resolveReferenceImages(turn.images, loadRemoteImage, signal),
+        })),
+      )
+    : history;
+
+  const modelDef = getModelDefinition(model);
+  const effectiveModel = modelDef ? model : "gemini-3-pro-image-preview";
+  const useGoogleSearch =
+    googleSearch && (modelDef?.supportsGoogleSearch ?? false) && adapter.capabilities.supportsGoogleSearch;
+
+  const sentParams = resolveParams(provider, effectiveModel, params);
+  // Candidates are expressed through each call's numImages, so adapters never see the count itself.
+  const contextParams = omitParams(sentParams, ["candidateCount"]);
+
+  const context: ProviderRequestContext = {
+    prompt: trimmedPrompt,
+    quality,
+    outputFormat: providerOutputFormat(adapter, outputFormat),
+    numImages: validNumImages,
+    model: effectiveModel,
+    googleSearch: useGoogleSearch,
+    size,
+    // Custom sizes go out as the model's nearest ratio, rendered at the resolution that covers them.
+    aspectRatio: ASPECT_RATIO_MAP[aspect] || snapAspectRatio(size, effectiveModel),
+    resolution: RESOLUTION_MAP[aspect === "custom" ? getQualityForSize(size) : quality] || "1K",
+    inputImages: providerInputImages,
+    ...(providerHistory.length > 0 ? { history: providerHistory } : {}),
+    ...(contextParams ? { params: contextParams } : {}),
+    credentials: {
+      falApiKey: apiKey,
+      geminiApiKey,
+      ...(loadVertexToken ? { loadVertexToken } : {}),
+      settings: providerSettings,
+    },
+    ...(signal ? { signal } : {}),
+  };
 
-    while (b !== 0) {
-      const temp = b;
-      b = a % b;
-      a = temp;
-    }
+  // Split the batch into as many calls as the provider needs to return every output.
+  const perRequest = getOutputsPerRequest(provider, effectiveModel, params);
+  const chunkContexts: ProviderRequestContext[] = [];
+  for (let remaining = validNumImages; remaining > 0; remaining -= perRequest) {
+    const callIndex = chunkContexts.length;
+    // The same seed on every call would return the same image N times; step it per call instead.
+    const callParams =
+      context.params?.seed !== undefined ? { ...context.params, seed: context.params.seed + callIndex } : context.params;
+    chunkContexts.push({
+      ...context,
+      numImages: Math.min(perRequest, remaining),
+      ...(callParams ? { params: callParams } : {}),
+    });
+  }
 
-    const divisor = Math.max(1, a);
-    const simplifiedWidth = Math.max(1, Math.round(width / divisor));
-    const simplifiedHeight = Math.max(1, Math.round(height / divisor));
-    return `${simplifiedWidth}:${simplifiedHeight}`;
+  const keyPool = adapter.usesGeminiKeyPool
+    ? orderKeysByHealth(geminiApiKeys && geminiApiKeys.length > 0 ? geminiApiKeys : [geminiApiKey ?? ""])
+    : [];
+
+  const withGeminiKey = (chunkContext: ProviderRequestContext, key: string | undefined) =>
+    key === undefined
+      ? chunkContext
+      : { ...chunkContext, credentials: { ...chunkContext.credentials, geminiApiKey: key } };
+
+  // Round-robin across the keys that are healthy right now; other calls may have cooled some since the
+  // pool was ordered. Cooling keys are only used once none is healthy, soonest to recover first.
+  const pickKey = (offset: number, attempted: ReadonlySet<string> = new Set()): string | undefined => {
+    const candidates = orderKeysByHealth(keyPool).filter((key) => !attempted.has(key));
+    const healthy = candidates.filter((key) => getKeyCooldownRemaining(key) === 0);
+    return healthy.length > 0 ? healthy[offset % healthy.length] : candidates[0];
   };
 
-  const apiAspectRatio = aspectRatioMap[aspect] || deriveAspectRatioFromSize(size);
-  const apiResolution = resolutionMap[quality] || "1K";
+  const runRequest = async (
+    chunkContext: ProviderRequestContext,
+    request: ProviderRequest,
+    requestIndex: number,
+    callIndex: number,
+    key: string | undefined,
+  ) => {
+    // Progress is reported against the first image slot this call fills.
+    const slot = callIndex * perRequest;
+    const attempted = new Set<string>();
+    let currentKey = key;
+    let currentRequest = request;
+
+    for (;;) {
+      const callContext = withGeminiKey(chunkContext, currentKey);
+      const requestToSend = currentRequest;
+      try {
+        // The timeout and cancel signal cover the whole body, so a stalled stream is still aborted.
+        const outcome = await withRequestSignal<RequestOutcome>(DEFAULT_REQUEST_TIMEOUT_MS, signal, async (requestSignal) => {
+          const response = await fetch(requestToSend.url, { ...requestToSend.init, signal: requestSignal });
+
+          if (!response.ok) {
+            return { status: response.status, errorText: await response.text() };
+          }
 
-  const inlineImageParts = effectiveInputImages
-    .map((img) => {
-      if (!img.url.startsWith("data:")) {
-        return null;
-      }
-      const [mimePart, base64Data] = img.url.split(",");
-      const mimeType = mimePart.match(/:(.*?);/)?.[1] || "image/png";
-      return {
-        inlineData: {
-          mimeType,
-          data: base64Data,
-        },
-      };
-    })
-    .filter((item): item is { inlineData: { mimeType: string; data: string } } => Boolean(item));
+          if (adapter.queue) {
+            return { queued: adapter.queue.parseSubmission((await response.json()) as unknown) };
+          }
 
-  const baseContents = [
-    {
-      role: "user",
-      parts: [{ text: trimmedPrompt }, ...inlineImageParts],
-    },
-  ];
-
-  const extractImageFromParts = (
-    parts:
-      | Array<{
-          inlineData?: { mimeType: string; data: string };
-          inline_data?: { mime_type?: string; data?: string };
-        }>
-      | undefined,
-  ): string | null => {
-    for (const part of parts ?? []) {
-      const inline =
-        part?.inlineData ??
-        (part?.inline_data
-          ? {
-              mimeType: part.inline_data.mime_type ?? "image/png",
-              data: part.inline_data.data ?? "",
+          if (!adapter.parseStreamEvent) {
+            const json = (await response.json()) as unknown;
+            return { result: adapter.parseResponse(json, callContext) };
+          }
+
+          const parseStreamEvent = adapter.parseStreamEvent.bind(adapter);
+          const streamedImages: string[] = [];
+          let answerText = "";
+          let thoughtText = "";
+          let draftImage: string | null = null;
+          const signatures: ThoughtSignatures = {};
+
+          await readServerSentEvents(response, (data) => {
+            const event = parseStreamEvent(JSON.parse(data) as unknown, callContext);
+            streamedImages.push(...event.images);
+            answerText += event.text;
+            signatures.text ??= event.signatures.text;
+            signatures.image ??= event.signatures.image;
+            if (event.thoughtText || event.draftImages.length > 0) {
+              thoughtText += event.thoughtText;
+              draftImage = event.draftImages[event.draftImages.length - 1] ?? draftImage;
+              onProgress?.({ slot, thoughtText, draftImage });
             }
-          : undefined);
-      if (inline?.data && inline.mimeType) {
-        return `data:${inline.mimeType};base64,${inline.data}`;
-      }
-    }
-    return null;
-  };
+          });
+
+          return {
+            result: {
+              images: streamedImages.slice(0, callContext.numImages),
+              text: answerText.trim() || undefined,
+              thoughts: thoughtText.trim() || undefined,
+              ...(signatures.text || signatures.image ? { signatures } : {}),
+            },
+          };
+        });
+
+        if ("result" in outcome) {
+          return outcome.result;
+        }
 
-  // --- FAL PROVIDER LOGIC ---
-  if (provider === "fal") {
-    const resolvedApiKey = (apiKey ?? "").trim();
-    if (!resolvedApiKey) {
-      throw new Error("Missing FAL API key. Add one in settings.");
-    }
+        // Once the provider has accepted the call it is never submitted again, only polled.
+        if ("queued" in outcome) {
+          onRequestQueued?.({ slot, numImages: callContext.numImages, request: outcome.queued });
+          return await followQueuedRequest(adapter, outcome.queued, callContext, signal, (status) =>
+            onProgress?.({ slot, thoughtText: "", draftImage: null, queue: status }),
+          );
+        }
 
-    const payload: Record<string, unknown> = {
-      prompt: trimmedPrompt,
-      aspect_ratio: apiAspectRatio,
-      resolution: apiResolution,
-      num_images: validNumImages,
-      sync_mode: true,
-      enable_safety_checker: false,
-      output_format: outputFormat,
-    };
-
-    if (useEditEndpoint) {
-      // FAL Edit endpoint might handle batch size differently or same, assuming same
-      const requestedOutputs = validNumImages;
-      if (effectiveInputImages.length + requestedOutputs > 15) {
-        throw new Error("Total number of images (input + output) must not exceed 15.");
-      }
-      payload.image_urls = effectiveInputImages.map((image) => image.url);
-    }
+        const { status, errorText } = outcome;
 
-    // FAL only supports gemini-3-pro-image-preview
-    const falModel = "gemini-3-pro-image-preview";
-    const endpoint = useEditEndpoint
-      ? `https://fal.run/fal-ai/${falModel}/edit`
-      : `https://fal.run/fal-ai/${falModel}`;
-
-    const response = await fetchWithTimeout(
-      endpoint,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Key ${resolvedApiKey}`,
-        },
-        body: JSON.stringify(payload),
-        cache: "no-store",
-      },
-      DEFAULT_REQUEST_TIMEOUT_MS,
-    );
+        if (currentKey && isKeyExhaustedError(status, errorText)) {
+          markKeyCoolingDown(currentKey, status, errorText);
+          attempted.add(currentKey);
+          const nextKey = pickKey(callIndex, attempted);
+          if (nextKey) {
+            currentKey = nextKey;
+            currentRequest = (await adapter.buildRequests(withGeminiKey(chunkContext, nextKey)))[requestIndex];
+            continue;
+          }
+          if (keyPool.length > 1) {
+            const reason = adapter.mapError(status, errorText).message;
+            const message = `All ${keyPool.length} Gemini keys are rate-limited or unavailable. ${reason}`;
+            throw isTransientStatus(status) ? new TransientRequestError(message) : new Error(message);
+          }
+        }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Request failed (${response.status}): ${errorText}`);
+        const mapped = adapter.mapError(status, errorText);
+        throw isTransientStatus(status) ? new TransientRequestError(mapped.message) : mapped;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new Error(GENERATION_CANCELLED_MESSAGE);
+        }
+        if (error instanceof TransientRequestError) {
+          throw error;
+        }
+        const mapped = adapter.mapRequestFailure ? adapter.mapRequestFailure(error) : error;
+        // fetch rejects with a TypeError when the connection drops before a response.
+        if (error instanceof TypeError && mapped instanceof Error) {
+          throw new TransientRequestError(mapped.message);
+        }
+        throw mapped;
+      }
     }
+  };
 
-    const json = (await response.json()) as {
-      images?: { url?: string }[];
-    };
-
-    const images = (json.images ?? [])
-      .map((item) => item?.url)
-      .filter((url): url is string => typeof url === "string" && url.length > 0);
-
-    if (images.length === 0) {
-      throw new Error("No images returned.");
+  // One call fills `perRequest` consecutive slots. Transient failures back off and retry;
+  // anything else (or running out of attempts) fails just this call's slots.
+  const runCall = async (chunkContext: ProviderRequestContext, callIndex: number): Promise<GenerationSlotUpdate[]> => {
+    const firstSlot = callIndex * perRequest;
+
+    for (let attempt = 1; ; attempt++) {
+      // Picked per attempt so a retry after backing off doesn't go back to a key that has since cooled down.
+      const key = pickKey(callIndex);
+      try {
+        const requests = await adapter.buildRequests(withGeminiKey(chunkContext, key));
+        const results = await Promise.all(
+          requests.map((request, requestIndex) => runRequest(chunkContext, request, requestIndex, callIndex, key)),
+        );
+        return toSlotUpdates(adapter, results, chunkContext.numImages, firstSlot, attempt);
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new Error(GENERATION_CANCELLED_MESSAGE);
+        }
+        if (error instanceof TransientRequestError && attempt < MAX_SLOT_ATTEMPTS) {
+          await waitWithSignal(SLOT_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+          continue;
+        }
+        const message = error instanceof Error ? error.message : "Generation failed.";
+        return Array.from({ length: chunkContext.numImages }, (_, offset) => ({
+          slot: firstSlot + offset,
+          status: "failed" as const,
+          attempts: attempt,
+          image: "",
+          error: message,
+        }));
+      }
     }
+  };
 
-    return {
+  const updates = (
+    await Promise.all(
+      chunkContexts.map(async (chunkContext, callIndex) => {
+        const callUpdates = await runCall(chunkContext, callIndex);
+        if (!signal?.aborted) {
+          callUpdates.forEach((update) => onSlotSettled?.(update));
+        }
+        return callUpdates;
+      }),
+    )
+  ).flat();
+
+  return assembleGeneration(
+    {
       prompt: trimmedPrompt,
       aspect,
       quality,
       outputFormat,
       provider,
       model,
-      createdAt: new Date().toISOString(),
       size,
-      images,
       inputImages: effectiveInputImages,
-    };
+      ...(sentParams ? { params: sentParams } : {}),
+      ...(useGoogleSearch ? { googleSearch: true } : {}),
+    },
+    updates,
+    effectiveModel,
+    approximateInputTokens(trimmedPrompt, effectiveInputImages.length, history),
+  );
+}
+
+/**
+ * Picks up the calls a queued provider accepted before the page was closed
+ * and waits for their results. Slots that settled before the reload keep their
+ * outcome; slots whose call was never submitted fail so they can be retried.
+ */
+export async function followQueuedGeneration(
+  generation: SeedreamGeneration,
+  calls: QueuedCall[],
+  { apiKey, signal, onProgress, onSlotSettled }: Pick<GenerateSeedreamArgs, "apiKey" | "signal" | "onProgress" | "onSlotSettled">,
+): Promise<SeedreamGeneration> {
+  const adapter = getProviderAdapter(generation.provider);
+  if (!adapter?.queue) {
+    throw new Error(`${adapter?.label ?? generation.provider} runs can't be resumed after a reload.`);
   }
 
-  // --- GEMINI API (GENERATIVE LANGUAGE) LOGIC ---
-  if (provider === "gemini") {
-    const resolvedApiKey = (geminiApiKey ?? "").trim();
+  const model = generation.model && getModelDefinition(generation.model) ? generation.model : "gemini-3-pro-image-preview";
+  const context: ProviderRequestContext = {
+    prompt: generation.prompt,
+    quality: generation.quality,
+    outputFormat: providerOutputFormat(adapter, generation.outputFormat),
+    numImages: generation.images.length,
+    model,
+    googleSearch: false,
+    size: generation.size,
+    aspectRatio: ASPECT_RATIO_MAP[generation.aspect] || snapAspectRatio(generation.size, model),
+    resolution: RESOLUTION_MAP[generation.aspect === "custom" ? getQualityForSize(generation.size) : generation.quality] || "1K",
+    inputImages: generation.inputImages,
+    credentials: { falApiKey: apiKey },
+  };
 
-    if (!resolvedApiKey) {
-      throw new Error("Missing Gemini API key. Add one in settings.");
+  const updates: (GenerationSlotUpdate | null)[] = generation.images.map((image, slot) => {
+    const record = generation.slots?.[slot];
+    if (image) {
+      return { slot, status: "succeeded", attempts: record?.attempts ?? 1, image, note: generation.imageNotes?.[slot] };
     }
-
-    const keyTarget = parseGeminiKeyTarget(resolvedApiKey);
-
-    const modelDef = getModelDefinition(model);
-    const effectiveModel = modelDef ? model : "gemini-3-pro-image-preview";
-    const useGoogleSearch = googleSearch && (modelDef?.supportsGoogleSearch ?? false);
-
-    const basePayload = {
-      contents: baseContents,
-      generationConfig: {
-        responseModalities: ["TEXT", "IMAGE"],
-        imageConfig: {
-          aspectRatio: apiAspectRatio,
-          imageSize: apiResolution,
-        },
-      },
-      ...(useGoogleSearch ? { tools: [{ googleSearch: {} }] } : {}),
-    };
-
-    const endpoint = buildGeminiEndpoint(keyTarget, effectiveModel, "generateContent");
-    const requestApiKey = getGeminiApiKey(keyTarget);
-
-    const requests = Array.from({ length: validNumImages }).map(async () => {
-      const payload = {
-        ...basePayload,
-        contents: basePayload.contents.map((content) => ({
-          ...content,
-          parts: content.parts.map((part) => ({ ...part })),
-        })),
-      };
-
-      const response = await fetchWithTimeout(
-        endpoint,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "x-goog-api-key": requestApiKey,
-          },
-          body: JSON.stringify(payload),
-          cache: "no-store",
-        },
-        DEFAULT_REQUEST_TIMEOUT_MS,
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
+    return record?.status === "failed"
+      ? { slot, status: "failed", attempts: record.attempts, image: "", error: record.error }
+      : null;
+  });
+
+  await Promise.all(
+    calls
+      .filter((call) => updates.slice(call.slot, call.slot + call.numImages).some((update) => update === null))
+      .map(async (call) => {
+        let callUpdates: GenerationSlotUpdate[];
         try {
-          const errJson = JSON.parse(errorText) as { error?: { message?: string } };
-          if (errJson.error?.message) {
-            const isUnavailable = response.status === 503;
-            const suffix = isUnavailable ? " (service unavailable)" : "";
-            throw new Error(
-              `Gemini API Error${suffix}: ${errJson.error.message || "Request failed"}. Try again or switch provider.`,
-            );
-          }
+          const result = await followQueuedRequest(adapter, call.request, context, signal, (status) =>
+            onProgress?.({ slot: call.slot, thoughtText: "", draftImage: null, queue: status }),
+          );
+          callUpdates = toSlotUpdates(adapter, [result], call.numImages, call.slot, 1);
         } catch (error) {
-          if (error instanceof Error && error.message.startsWith("Gemini API Error")) {
-            throw error;
+          if (signal?.aborted) {
+            throw new Error(GENERATION_CANCELLED_MESSAGE);
           }
+          const message = error instanceof Error ? error.message : "Generation failed.";
+          callUpdates = Array.from({ length: call.numImages }, (_, offset) => ({
+            slot: call.slot + offset,
+            status: "failed" as const,
+            attempts: 1,
+            image: "",
+            error: message,
+          }));
         }
-        if (response.status === 503) {
-          throw new Error(
-            "Gemini API is temporarily unavailable (503). Please retry shortly or switch to FAL.",
-          );
-        }
-        throw new Error(`Gemini API Error (${response.status}): ${errorText}`);
-      }
-
-      const json = (await response.json()) as {
-        candidates?: { content?: { parts?: Array<{ inlineData?: { mimeType: string; data: string }; inline_data?: { mime_type?: string; data?: string } }> } }[];
-      };
-
-      const candidateParts = json.candidates?.[0]?.content?.parts;
-      const image = extractImageFromParts(candidateParts);
-      return image;
-    });
-
-    const results = await Promise.all(
-      requests.map((req) =>
-        req.catch((error) => {
-          throw new Error(
-            error instanceof Error && error.name === "AbortError"
-              ? "Gemini API request timed out. Check your connection and try again."
-              : error instanceof Error
-              ? error.message
-              : "Gemini API request failed.",
-          );
-        }),
-      ),
-    );
-    const images = results.filter((img): img is string => typeof img === "string" && img.length > 0);
-
-    if (images.length === 0) {
-      throw new Error("No images returned from Gemini API.");
-    }
-
-    return {
-      prompt: trimmedPrompt,
-      aspect,
-      quality,
-      outputFormat,
-      provider,
-      model,
-      createdAt: new Date().toISOString(),
-      size,
-      images,
-      inputImages: effectiveInputImages,
-    };
-  }
-
-  throw new Error(`Unknown provider: ${provider}`);
+        callUpdates.forEach((update) => {
+          updates[update.slot] = update;
+          onSlotSettled?.(update);
+        });
+      }),
+  );
+
+  return assembleGeneration(
+    {
+      prompt: generation.prompt,
+      aspect: generation.aspect,
+      quality: generation.quality,
+      outputFormat: generation.outputFormat,
+      provider: generation.provider,
+      model: generation.model,
+      size: generation.size,
+      inputImages: generation.inputImages,
+      ...(generation.params ? { params: generation.params } : {}),
+      ...(generation.googleSearch ? { googleSearch: true } : {}),
+    },
+    updates.map(
+      (update, slot) =>
+        update ?? { slot, status: "failed", attempts: 0, image: "", error: "Interrupted before the request was sent." },
+    ),
+    model,
+    approximateInputTokens(generation.prompt, generation.inputImages.length),
+  );
 }
@@ -0,0 +1,109 @@
+export type SafetyCategory =
+  | "HARM_CATEGORY_HARASSMENT"
+  | "HARM_CATEGORY_HATE_SPEECH"
+  | "HARM_CATEGORY_SEXUALLY_EXPLICIT"
+  | "HARM_CATEGORY_DANGEROUS_CONTENT";
+
+export type SafetyThreshold =
+  | "OFF"
+  | "BLOCK_NONE"
+  | "BLOCK_ONLY_HIGH"
+  | "BLOCK_MEDIUM_AND_ABOVE"
+  | "BLOCK_LOW_AND_ABOVE";
+
+export const SAFETY_CATEGORIES: { id: SafetyCategory; label: string }[] = [
+  { id: "HARM_CATEGORY_HARASSMENT", label: "Harassment" },
+  { id: "HARM_CATEGORY_HATE_SPEECH", label: "Hate speech" },
+  { id: "HARM_CATEGORY_SEXUALLY_EXPLICIT", label: "Sexually explicit" },
+  { id: "HARM_CATEGORY_DANGEROUS_CONTENT", label: "Dangerous content" },
+];
+
+export const SAFETY_THRESHOLDS: { id: SafetyThreshold; label: string }[] = [
+  { id: "OFF", label: "Off" },
+  { id: "BLOCK_NONE", label: "Block none" },
+  { id: "BLOCK_ONLY_HIGH", label: "Block few" },
+  { id: "BLOCK_MEDIUM_AND_ABOVE", label: "Block some" },
+  { id: "BLOCK_LOW_AND_ABOVE", label: "Block most" },
+];
+
+/** Sampling and safety overrides. Unset fields leave the provider's defaults alone. */
+export type GenerationParams = {
+  seed?: number;
+  temperature?: number;
+  topP?: number;
+  /** Images per call, where the model can return several candidates at once. */
+  candidateCount?: number;
+  safetySettings?: Partial<Record<SafetyCategory, SafetyThreshold>>;
+};
+
+export type GenerationParamKey = keyof GenerationParams;
+
+// The API takes a signed 32-bit seed.
+const MAX_SEED = 2_147_483_647;
+export const MAX_CANDIDATE_COUNT = 4;
+
+function finiteNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Clamps values into the ranges the APIs accept and drops the ones that are
+ * unset, so an empty object comes back as undefined and nothing is stored.
+ */
+export function normalizeGenerationParams(params: GenerationParams | undefined): GenerationParams | undefined {
+  if (!params) {
+    return undefined;
+  }
+
+  const seed = finiteNumber(params.seed);
+  const temperature = finiteNumber(params.temperature);
+  const topP = finiteNumber(params.topP);
+  const candidateCount = finiteNumber(params.candidateCount);
+  const safetyIds = new Set<string>(SAFETY_CATEGORIES.map((category) => category.id));
+  const thresholdIds = new Set<string>(SAFETY_THRESHOLDS.map((threshold) => threshold.id));
+  const safetyEntries = Object.entries(params.safetySettings ?? {}).filter(
+    ([category, threshold]) => safetyIds.has(category) && typeof threshold === "string" && thresholdIds.has(threshold),
+  );
+
+  const normalized: GenerationParams = {
+    ...(seed !== undefined ? { seed: clamp(Math.round(seed), 0, MAX_SEED) } : {}),
+    ...(temperature !== undefined ? { temperature: clamp(temperature, 0, 2) } : {}),
+    ...(topP !== undefined ? { topP: clamp(topP, 0, 1) } : {}),
+    ...(candidateCount !== undefined && candidateCount > 1
+      ? { candidateCount: clamp(Math.round(candidateCount), 1, MAX_CANDIDATE_COUNT) }
+      : {}),
+    ...(safetyEntries.length > 0 ? { safetySettings: Object.fromEntries(safetyEntries) } : {}),
+  };
+
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/** Keeps only the parameters a provider actually sends. */
+export function pickSupportedParams(
+  params: GenerationParams | undefined,
+  supported: GenerationParamKey[] = [],
+): GenerationParams | undefined {
+  const normalized = normalizeGenerationParams(params);
+  if (!normalized) {
+    return undefined;
+  }
+  const picked = Object.fromEntries(
+    Object.entries(normalized).filter(([key]) => supported.includes(key as GenerationParamKey)),
+  ) as GenerationParams;
+  return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
+export function omitParams(
+  params: GenerationParams | undefined,
+  omitted: GenerationParamKey[],
+): GenerationParams | undefined {
+  if (!params) {
+    return undefined;
+  }
+  const kept = Object.keys(params).filter((key) => !omitted.includes(key as GenerationParamKey)) as GenerationParamKey[];
+  return pickSupportedParams(params, kept);
+}
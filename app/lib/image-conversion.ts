@@ -0,0 +1,145 @@
+"use client";
+
+import type { OutputFormat } from "./seedream-options";
+
+/** How converted images are encoded. Quality applies to the lossy formats only. */
+export type OutputEncoding = {
+  /** 1–100. */
+  quality: number;
+  /** Longest side after conversion; larger images are downscaled. Null keeps the rendered size. */
+  maxDimension: number | null;
+};
+
+/** The format an image was actually stored in, and its encoded size. */
+export type ImageFileInfo = {
+  format: OutputFormat;
+  bytes: number;
+};
+
+export const DEFAULT_OUTPUT_ENCODING: OutputEncoding = { quality: 90, maxDimension: null };
+export const MIN_OUTPUT_DIMENSION = 256;
+
+const FORMAT_MIME_TYPES: Record<OutputFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  avif: "image/avif",
+};
+
+export function formatFromMimeType(mimeType: string): OutputFormat | null {
+  const entry = Object.entries(FORMAT_MIME_TYPES).find(([, value]) => value === mimeType.toLowerCase());
+  return entry ? (entry[0] as OutputFormat) : null;
+}
+
+export function getFileExtension(format: OutputFormat): string {
+  return format === "jpeg" ? "jpg" : format;
+}
+
+/** Drops out-of-range values so a hand-edited setting can't break conversion. */
+export function normalizeOutputEncoding(value: unknown): OutputEncoding {
+  const candidate = (value ?? {}) as Partial<OutputEncoding>;
+  const quality =
+    typeof candidate.quality === "number" && candidate.quality >= 1 && candidate.quality <= 100
+      ? Math.round(candidate.quality)
+      : DEFAULT_OUTPUT_ENCODING.quality;
+  const maxDimension =
+    typeof candidate.maxDimension === "number" && candidate.maxDimension >= MIN_OUTPUT_DIMENSION
+      ? Math.round(candidate.maxDimension)
+      : null;
+  return { quality, maxDimension };
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Unable to read the converted image."));
+    reader.readAsDataURL(blob);
+  });
+}
+
+function encodeCanvas(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("The browser could not encode the image."))),
+      mimeType,
+      quality / 100,
+    );
+  });
+}
+
+/**
+ * Re-encodes one image into `format`, downscaling it to `maxDimension` first.
+ * PNGs that are already the right size are kept byte for byte. Browsers that
+ * can't encode a format (AVIF in some) fall back to PNG, so the returned info
+ * reports what was actually written. Browser only.
+ */
+export async function convertImage(
+  src: string,
+  format: OutputFormat,
+  encoding: OutputEncoding,
+): Promise<{ src: string; file: ImageFileInfo }> {
+  const source = await (await fetch(src)).blob();
+  const bitmap = await createImageBitmap(source);
+
+  try {
+    const longSide = Math.max(bitmap.width, bitmap.height);
+    const scale = encoding.maxDimension && longSide > encoding.maxDimension ? encoding.maxDimension / longSide : 1;
+    const sourceFormat = formatFromMimeType(source.type);
+    if (scale === 1 && format === "png" && sourceFormat === "png") {
+      return { src, file: { format: "png", bytes: source.size } };
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas is not available for image conversion.");
+    }
+    // JPEG has no alpha channel; flatten onto white instead of the default black.
+    if (format === "jpeg") {
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const encoded = await encodeCanvas(canvas, FORMAT_MIME_TYPES[format], encoding.quality);
+    return {
+      src: await readAsDataUrl(encoded),
+      file: { format: formatFromMimeType(encoded.type) ?? "png", bytes: encoded.size },
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Converts every image of a finished run and records what each was stored
+ * as in `imageFiles`. An image that can't be converted is kept as the
+ * provider returned it, so a conversion failure never loses a paid result.
+ */
+export async function convertGenerationImages<T extends { images: string[]; outputFormat: OutputFormat }>(
+  generation: T,
+  encoding: OutputEncoding,
+): Promise<T & { imageFiles: (ImageFileInfo | null)[] }> {
+  const converted = await Promise.all(
+    generation.images.map(async (image) => {
+      if (!image) {
+        return { src: image, file: null };
+      }
+      try {
+        return await convertImage(image, generation.outputFormat, encoding);
+      } catch (error) {
+        console.error("Failed to convert generated image", error);
+        return { src: image, file: null };
+      }
+    }),
+  );
+
+  return {
+    ...generation,
+    images: converted.map((entry) => entry.src),
+    imageFiles: converted.map((entry) => entry.file),
+  };
+}
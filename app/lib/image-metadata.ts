@@ -0,0 +1,450 @@
+import type { SeedreamGeneration } from "./generate-seedream";
+import { normalizeGenerationParams, type GenerationParams } from "./generation-params";
+import type { AspectChoice, ModelId, OutputFormat, Provider, QualityKey } from "./seedream-options";
+
+/** Everything needed to set the composer up the way an image was made. */
+export type GenerationRecipe = {
+  version: 1;
+  prompt: string;
+  provider: Provider;
+  model?: ModelId;
+  aspect: AspectChoice;
+  quality: QualityKey;
+  outputFormat: OutputFormat;
+  size: { width: number; height: number };
+  /** Seed, sampling and safety settings, as sent. */
+  params?: GenerationParams;
+  /** File names of the reference images; the images themselves aren't embedded. */
+  references: string[];
+};
+
+const SOFTWARE_NAME = "Nano Banana Pro UI";
+const PNG_RECIPE_KEYWORD = "NanoBananaRecipe";
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const XMP_JPEG_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+const XMP_NAMESPACE = "urn:nano-banana-pro:recipe:1.0/";
+// A JPEG segment length is 16 bits and counts itself.
+const MAX_JPEG_SEGMENT_BYTES = 0xffff - 2;
+const WEBP_XMP_FLAG = 0x04;
+const WEBP_ALPHA_FLAG = 0x10;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const latin1Decoder = new TextDecoder("latin1");
+
+export function recipeFromGeneration(generation: SeedreamGeneration): GenerationRecipe {
+  return {
+    version: 1,
+    prompt: generation.prompt,
+    provider: generation.provider,
+    ...(generation.model ? { model: generation.model } : {}),
+    aspect: generation.aspect,
+    quality: generation.quality,
+    outputFormat: generation.outputFormat,
+    size: generation.size,
+    ...(generation.params ? { params: generation.params } : {}),
+    references: generation.inputImages.map((image) => image.name),
+  };
+}
+
+/** Shape checks only; the caller decides whether the model, aspect and quality are still offered. */
+export function parseRecipe(value: unknown): GenerationRecipe | null {
+  const candidate = value as Partial<GenerationRecipe> | null;
+  if (
+    candidate?.version !== 1 ||
+    typeof candidate.prompt !== "string" ||
+    typeof candidate.provider !== "string" ||
+    typeof candidate.aspect !== "string" ||
+    typeof candidate.quality !== "string" ||
+    typeof candidate.outputFormat !== "string" ||
+    typeof candidate.size?.width !== "number" ||
+    typeof candidate.size.height !== "number"
+  ) {
+    return null;
+  }
+
+  const params = normalizeGenerationParams(candidate.params);
+  return {
+    version: 1,
+    prompt: candidate.prompt,
+    provider: candidate.provider,
+    ...(typeof candidate.model === "string" ? { model: candidate.model } : {}),
+    aspect: candidate.aspect,
+    quality: candidate.quality,
+    outputFormat: candidate.outputFormat,
+    size: { width: candidate.size.width, height: candidate.size.height },
+    ...(params ? { params } : {}),
+    references: Array.isArray(candidate.references)
+      ? candidate.references.filter((name): name is string => typeof name === "string")
+      : [],
+  };
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 as PNG chunks and ZIP entries use it. */
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return latin1Decoder.decode(bytes.subarray(offset, offset + length));
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function parseRecipeJson(text: string): GenerationRecipe | null {
+  try {
+    return parseRecipe(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
+
+function buildXmpPacket(recipe: GenerationRecipe): Uint8Array {
+  return encoder.encode(
+    [
+      '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+      '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+      `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:nbp="${XMP_NAMESPACE}">`,
+      `<xmp:CreatorTool>${SOFTWARE_NAME}</xmp:CreatorTool>`,
+      `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(recipe.prompt)}</rdf:li></rdf:Alt></dc:description>`,
+      `<nbp:recipe>${escapeXml(JSON.stringify(recipe))}</nbp:recipe>`,
+      "</rdf:Description>",
+      "</rdf:RDF>",
+      "</x:xmpmeta>",
+      '<?xpacket end="w"?>',
+    ].join("\n"),
+  );
+}
+
+function readXmpRecipe(packet: Uint8Array): GenerationRecipe | null {
+  const match = /<nbp:recipe>([\s\S]*?)<\/nbp:recipe>/.exec(decoder.decode(packet));
+  return match ? parseRecipeJson(unescapeXml(match[1])) : null;
+}
+
+type PngChunk = { type: string; data: Uint8Array; bytes: Uint8Array };
+
+function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((value, index) => bytes[index] === value);
+}
+
+function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) {
+      throw new Error("Truncated PNG chunk.");
+    }
+    chunks.push({
+      type: readAscii(bytes, offset + 4, 4),
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+      bytes: bytes.subarray(offset, end),
+    });
+    offset = end;
+  }
+  return chunks;
+}
+
+function buildPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeAndData = concatBytes([latin1(type), data]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return chunk;
+}
+
+// iTXt: keyword, NUL, uncompressed flag and method, empty language and translated keyword, UTF-8 text.
+function buildITxt(keyword: string, text: string): Uint8Array {
+  return buildPngChunk("iTXt", concatBytes([latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+}
+
+function pngKeyword(chunk: PngChunk): string | null {
+  if (chunk.type !== "iTXt" && chunk.type !== "tEXt") {
+    return null;
+  }
+  const end = chunk.data.indexOf(0);
+  return end > 0 ? readAscii(chunk.data, 0, end) : null;
+}
+
+// PNG keeps the recipe in text chunks just before IEND.
+function embedInPng(bytes: Uint8Array, recipe: GenerationRecipe): Uint8Array {
+  const ownKeywords = new Set([PNG_RECIPE_KEYWORD, "Description", "Software"]);
+  const chunks = readPngChunks(bytes).filter((chunk) => !ownKeywords.has(pngKeyword(chunk) ?? ""));
+  const iend = chunks.findIndex((chunk) => chunk.type === "IEND");
+  if (iend < 0) {
+    throw new Error("PNG has no IEND chunk.");
+  }
+
+  const textChunks = [
+    buildPngChunk("tEXt", concatBytes([latin1("Software"), new Uint8Array([0]), latin1(SOFTWARE_NAME)])),
+    buildITxt("Description", recipe.prompt),
+    buildITxt(PNG_RECIPE_KEYWORD, JSON.stringify(recipe)),
+  ];
+  return concatBytes([
+    Uint8Array.from(PNG_SIGNATURE),
+    ...chunks.slice(0, iend).map((chunk) => chunk.bytes),
+    ...textChunks,
+    ...chunks.slice(iend).map((chunk) => chunk.bytes),
+  ]);
+}
+
+function readPngRecipe(bytes: Uint8Array): GenerationRecipe | null {
+  for (const chunk of readPngChunks(bytes)) {
+    if (pngKeyword(chunk) !== PNG_RECIPE_KEYWORD) {
+      continue;
+    }
+    const textStart = PNG_RECIPE_KEYWORD.length + 1;
+    if (chunk.type === "tEXt") {
+      return parseRecipeJson(readAscii(chunk.data, textStart, chunk.data.length - textStart));
+    }
+    // Skip the compression flag and method, then the language tag and translated keyword.
+    if (chunk.data[textStart] !== 0) {
+      return null;
+    }
+    const languageEnd = chunk.data.indexOf(0, textStart + 2);
+    const translatedEnd = chunk.data.indexOf(0, languageEnd + 1);
+    return parseRecipeJson(decoder.decode(chunk.data.subarray(translatedEnd + 1)));
+  }
+  return null;
+}
+
+type JpegSegment = { marker: number; data: Uint8Array; bytes: Uint8Array };
+
+function isJpeg(bytes: Uint8Array): boolean {
+  return bytes[0] === 0xff && bytes[1] === 0xd8;
+}
+
+/** Header segments up to the first scan, and the offset where the scan starts. */
+function readJpegSegments(bytes: Uint8Array): { segments: JpegSegment[]; scanStart: number } {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) {
+      break;
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) {
+      throw new Error("Truncated JPEG segment.");
+    }
+    segments.push({ marker, data: bytes.subarray(offset + 4, end), bytes: bytes.subarray(offset, end) });
+    offset = end;
+  }
+  return { segments, scanStart: offset };
+}
+
+function isXmpSegment(segment: JpegSegment): boolean {
+  return segment.marker === 0xe1 && readAscii(segment.data, 0, XMP_JPEG_HEADER.length) === XMP_JPEG_HEADER;
+}
+
+// JPEG keeps it in an XMP APP1 segment after SOI and JFIF.
+function embedInJpeg(bytes: Uint8Array, recipe: GenerationRecipe): Uint8Array {
+  const { segments, scanStart } = readJpegSegments(bytes);
+  const payload = concatBytes([latin1(XMP_JPEG_HEADER), buildXmpPacket(recipe)]);
+  if (payload.length > MAX_JPEG_SEGMENT_BYTES) {
+    throw new Error("The recipe is too large for a JPEG XMP segment.");
+  }
+
+  const xmpSegment = concatBytes([new Uint8Array([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]), payload]);
+  const kept = segments.filter((segment) => !isXmpSegment(segment));
+  // Readers expect JFIF (APP0) to come straight after SOI.
+  const jfifCount = kept.findIndex((segment) => segment.marker !== 0xe0);
+  const splitAt = jfifCount < 0 ? kept.length : jfifCount;
+  return concatBytes([
+    bytes.subarray(0, 2),
+    ...kept.slice(0, splitAt).map((segment) => segment.bytes),
+    xmpSegment,
+    ...kept.slice(splitAt).map((segment) => segment.bytes),
+    bytes.subarray(scanStart),
+  ]);
+}
+
+function readJpegRecipe(bytes: Uint8Array): GenerationRecipe | null {
+  const segment = readJpegSegments(bytes).segments.find(isXmpSegment);
+  return segment ? readXmpRecipe(segment.data.subarray(XMP_JPEG_HEADER.length)) : null;
+}
+
+type RiffChunk = { type: string; data: Uint8Array };
+
+function isWebp(bytes: Uint8Array): boolean {
+  return bytes.length >= 12 && readAscii(bytes, 0, 4) === "RIFF" && readAscii(bytes, 8, 4) === "WEBP";
+}
+
+function readRiffChunks(bytes: Uint8Array): RiffChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    if (offset + 8 + size > bytes.length) {
+      throw new Error("Truncated WEBP chunk.");
+    }
+    chunks.push({ type: readAscii(bytes, offset, 4), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    // Chunks are padded to an even length.
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function buildRiffChunk(chunk: RiffChunk): Uint8Array {
+  const padded = new Uint8Array(8 + chunk.data.length + (chunk.data.length % 2));
+  padded.set(latin1(chunk.type), 0);
+  new DataView(padded.buffer).setUint32(4, chunk.data.length, true);
+  padded.set(chunk.data, 8);
+  return padded;
+}
+
+/** A VP8X header for a simple (VP8 or VP8L) image, which carries no canvas size of its own. */
+function buildVp8xData(image: RiffChunk): Uint8Array {
+  let width: number;
+  let height: number;
+  let flags = WEBP_XMP_FLAG;
+  if (image.type === "VP8 ") {
+    width = (image.data[6] | (image.data[7] << 8)) & 0x3fff;
+    height = (image.data[8] | (image.data[9] << 8)) & 0x3fff;
+  } else if (image.type === "VP8L") {
+    const bits = image.data[1] | (image.data[2] << 8) | (image.data[3] << 16) | (image.data[4] << 24);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    if ((bits >>> 28) & 1) {
+      flags |= WEBP_ALPHA_FLAG;
+    }
+  } else {
+    throw new Error(`Unsupported WEBP image chunk: ${image.type}`);
+  }
+
+  const data = new Uint8Array(10);
+  data[0] = flags;
+  const view = new DataView(data.buffer);
+  // Canvas size minus one, as 24-bit little-endian values.
+  view.setUint16(4, (width - 1) & 0xffff, true);
+  data[6] = ((width - 1) >> 16) & 0xff;
+  view.setUint16(7, (height - 1) & 0xffff, true);
+  data[9] = ((height - 1) >> 16) & 0xff;
+  return data;
+}
+
+// WEBP keeps it in an XMP chunk, which needs the extended (VP8X) header.
+function embedInWebp(bytes: Uint8Array, recipe: GenerationRecipe): Uint8Array {
+  const chunks = readRiffChunks(bytes).filter((chunk) => chunk.type !== "XMP ");
+  if (chunks.length === 0) {
+    throw new Error("WEBP has no image data.");
+  }
+
+  if (chunks[0].type === "VP8X") {
+    const vp8x = Uint8Array.from(chunks[0].data);
+    vp8x[0] |= WEBP_XMP_FLAG;
+    chunks[0] = { type: "VP8X", data: vp8x };
+  } else {
+    chunks.unshift({ type: "VP8X", data: buildVp8xData(chunks[0]) });
+  }
+  chunks.push({ type: "XMP ", data: buildXmpPacket(recipe) });
+
+  const body = concatBytes(chunks.map(buildRiffChunk));
+  const header = new Uint8Array(12);
+  header.set(latin1("RIFF"), 0);
+  new DataView(header.buffer).setUint32(4, 4 + body.length, true);
+  header.set(latin1("WEBP"), 8);
+  return concatBytes([header, body]);
+}
+
+function readWebpRecipe(bytes: Uint8Array): GenerationRecipe | null {
+  const chunk = readRiffChunks(bytes).find((candidate) => candidate.type === "XMP ");
+  return chunk ? readXmpRecipe(chunk.data) : null;
+}
+
+/**
+ * Writes the recipe into the file's own metadata: PNG text chunks, or XMP
+ * for JPEG and WEBP. Other formats come back unchanged.
+ */
+export function embedRecipeInBytes(bytes: Uint8Array, recipe: GenerationRecipe): Uint8Array {
+  if (isPng(bytes)) {
+    return embedInPng(bytes, recipe);
+  }
+  if (isJpeg(bytes)) {
+    return embedInJpeg(bytes, recipe);
+  }
+  if (isWebp(bytes)) {
+    return embedInWebp(bytes, recipe);
+  }
+  return bytes;
+}
+
+export function readRecipeFromBytes(bytes: Uint8Array): GenerationRecipe | null {
+  if (isPng(bytes)) {
+    return readPngRecipe(bytes);
+  }
+  if (isJpeg(bytes)) {
+    return readJpegRecipe(bytes);
+  }
+  if (isWebp(bytes)) {
+    return readWebpRecipe(bytes);
+  }
+  return null;
+}
+
+/** Embeds the recipe; a file that can't be parsed is returned as it was, so the download still works. */
+export async function embedRecipe(blob: Blob, recipe: GenerationRecipe): Promise<Blob> {
+  try {
+    const embedded = embedRecipeInBytes(new Uint8Array(await blob.arrayBuffer()), recipe);
+    return new Blob([embedded as Uint8Array<ArrayBuffer>], { type: blob.type });
+  } catch (error) {
+    console.error("Failed to embed the generation recipe", error);
+    return blob;
+  }
+}
+
+export async function readRecipe(blob: Blob): Promise<GenerationRecipe | null> {
+  try {
+    return readRecipeFromBytes(new Uint8Array(await blob.arrayBuffer()));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import type { GenerateSeedreamArgs, SeedreamGeneration } from "../generate-seedream";
+import { GENERATION_CANCELLED_MESSAGE, waitWithSignal } from "../providers/shared";
+import { blobUrlToDataUrl } from "../reference-images";
+import type { GenerationJob, GenerationJobSnapshot } from "./types";
+
+const POLL_INTERVAL_MS = 2_000;
+
+type FollowJobOptions = Pick<GenerateSeedreamArgs, "signal" | "onProgress" | "onSlotSettled">;
+
+// The server cannot read this tab's blob: URLs, so send their bytes instead.
+function inlineBlobUrls<T extends { url: string }>(images: T[] = []): Promise<T[]> {
+  return Promise.all(
+    images.map(async (image) =>
+      image.url.startsWith("blob:") ? { ...image, url: await blobUrlToDataUrl(image.url) } : image,
+    ),
+  );
+}
+
+async function readJobError(response: Response): Promise<Error> {
+  try {
+    const body = (await response.json()) as { error?: string };
+    if (body.error) {
+      return new Error(`Server job error: ${body.error}`);
+    }
+  } catch {
+    // Not JSON; fall through to the status code.
+  }
+  return new Error(`Server job error (${response.status}).`);
+}
+
+/**
+ * Polls a server job until it finishes, replaying slot updates and live
+ * progress through the same callbacks `generateSeedream` uses. Aborting the
+ * signal cancels the job on the server too.
+ */
+export async function followServerJob(
+  jobId: string,
+  { signal, onProgress, onSlotSettled }: FollowJobOptions = {},
+): Promise<SeedreamGeneration> {
+  const jobUrl = `/api/jobs/${encodeURIComponent(jobId)}`;
+  const cancelOnServer = () => {
+    void fetch(jobUrl, { method: "DELETE" }).catch(() => undefined);
+  };
+  signal?.addEventListener("abort", cancelOnServer, { once: true });
+
+  let seenSlots = 0;
+  try {
+    for (;;) {
+      let response: Response;
+      try {
+        response = await fetch(`${jobUrl}?after=${seenSlots}`, { cache: "no-store", signal });
+      } catch (error) {
+        // A dropped connection or restarting server is not the job failing; ask again shortly.
+        if (error instanceof TypeError) {
+          await waitWithSignal(POLL_INTERVAL_MS, signal);
+          continue;
+        }
+        throw error;
+      }
+
+      if (response.status === 404) {
+        throw new Error("This server job no longer exists.");
+      }
+      if (!response.ok) {
+        throw await readJobError(response);
+      }
+
+      const { job } = (await response.json()) as { job: GenerationJobSnapshot };
+      job.progress?.forEach((progress) => onProgress?.(progress));
+      // Finished jobs drop slot images in favour of the result, so only replay slots while running.
+      if (job.status === "running") {
+        job.slots.forEach((update) => onSlotSettled?.(update));
+        seenSlots = job.slotCount;
+      }
+
+      if (job.status === "succeeded" && job.result) {
+        return job.result;
+      }
+      if (job.status === "cancelled") {
+        throw new Error(GENERATION_CANCELLED_MESSAGE);
+      }
+      if (job.status === "failed") {
+        throw new Error(job.error ?? "Generation failed.");
+      }
+
+      await waitWithSignal(POLL_INTERVAL_MS, signal);
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new Error(GENERATION_CANCELLED_MESSAGE);
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener("abort", cancelOnServer);
+  }
+}
+
+/**
+ * Drop-in replacement for `generateSeedream` that runs on the server so the
+ * work survives a reload. `onJobCreated` receives the id to reconnect with.
+ */
+export async function generateOnServer({
+  signal,
+  onProgress,
+  onSlotSettled,
+  onJobCreated,
+  ...request
+}: GenerateSeedreamArgs & { onJobCreated?: (jobId: string) => void }): Promise<SeedreamGeneration> {
+  if (signal?.aborted) {
+    throw new Error(GENERATION_CANCELLED_MESSAGE);
+  }
+
+  const inputImages = await inlineBlobUrls(request.inputImages);
+  const history = await Promise.all(
+    (request.history ?? []).map(async (turn) => ({ ...turn, images: await inlineBlobUrls(turn.images) })),
+  );
+
+  const response = await fetch("/api/jobs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...request, inputImages, history }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await readJobError(response);
+  }
+
+  const { job } = (await response.json()) as { job: GenerationJob };
+  onJobCreated?.(job.id);
+  return followServerJob(job.id, { signal, onProgress, onSlotSettled });
+}
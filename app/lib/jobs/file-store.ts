@@ -0,0 +1,55 @@
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { GenerationJob, JobStore } from "./types";
+
+// Ids come from randomUUID; refuse anything else so a crafted id cannot escape the directory.
+const JOB_ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+/** One JSON file per job. Writes go through a temp file so a crash never leaves half a record. */
+export function createFileJobStore(directory: string): JobStore {
+  const ready = mkdir(directory, { recursive: true });
+
+  const fileFor = (id: string) => {
+    if (!JOB_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid job id: ${id}`);
+    }
+    return path.join(directory, `${id}.json`);
+  };
+
+  return {
+    async save(job) {
+      await ready;
+      const file = fileFor(job.id);
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await writeFile(tempFile, JSON.stringify(job));
+      await rename(tempFile, file);
+    },
+
+    async get(id) {
+      await ready;
+      try {
+        return JSON.parse(await readFile(fileFor(id), "utf8")) as GenerationJob;
+      } catch {
+        return null;
+      }
+    },
+
+    async prune(cutoff) {
+      await ready;
+      const cutoffMs = Date.parse(cutoff);
+      for (const name of await readdir(directory)) {
+        if (!name.endsWith(".json")) {
+          continue;
+        }
+        const file = path.join(directory, name);
+        try {
+          if ((await stat(file)).mtimeMs < cutoffMs) {
+            await unlink(file);
+          }
+        } catch {
+          // Removed by another request in the meantime.
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { randomUUID } from "node:crypto";
+import { generateSeedream, type GenerationProgress } from "../generate-seedream";
+import { fetchRemoteImageAsDataUrl } from "../remote-image";
+import { mintVertexAccessToken } from "../vertex-service-account";
+import { getJobStore } from "./store";
+import type { GenerationJob, GenerationJobRequest, GenerationJobSnapshot } from "./types";
+
+// Finished jobs are kept long enough for a closed tab to come back and collect them.
+const JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+type RunningJob = {
+  job: GenerationJob;
+  controller: AbortController;
+  progress: Map<number, GenerationProgress>;
+  /** Serialises writes so a slow save never lands after a newer one. */
+  writes: Promise<void>;
+};
+
+// Jobs run inside the server process that accepted them; this map is how polls find them.
+const running = new Map<string, RunningJob>();
+
+function persist(entry: RunningJob) {
+  entry.job.updatedAt = new Date().toISOString();
+  const snapshot: GenerationJob = { ...entry.job, slots: [...entry.job.slots] };
+  entry.writes = entry.writes
+    .then(() => getJobStore().save(snapshot))
+    .catch((error) => console.error(`Failed to save job ${snapshot.id}:`, error));
+}
+
+/**
+ * Starts a job in this process. `allowServiceAccount` must only be set for
+ * callers with a valid access session; without it `vertex-sa:` keys fail
+ * instead of minting tokens from the server's credentials.
+ */
+export async function startGenerationJob(
+  request: GenerationJobRequest,
+  { allowServiceAccount = false }: { allowServiceAccount?: boolean } = {},
+): Promise<GenerationJob> {
+  const store = getJobStore();
+  const now = new Date().toISOString();
+  const job: GenerationJob = { id: randomUUID(), status: "running", createdAt: now, updatedAt: now, slots: [] };
+
+  await store.save(job);
+  store.prune(new Date(Date.now() - JOB_TTL_MS).toISOString()).catch((error) => {
+    console.error("Failed to prune old jobs:", error);
+  });
+
+  const entry: RunningJob = {
+    job,
+    controller: new AbortController(),
+    progress: new Map(),
+    writes: Promise.resolve(),
+  };
+  running.set(job.id, entry);
+
+  generateSeedream({
+    ...request,
+    // Already on the server, so links are fetched directly rather than through the proxy route.
+    loadRemoteImage: fetchRemoteImageAsDataUrl,
+    loadVertexToken: allowServiceAccount
+      ? mintVertexAccessToken
+      : () => Promise.reject(new Error("Unlock the app before using the server's Vertex service account.")),
+    signal: entry.controller.signal,
+    onProgress: (progress) => {
+      entry.progress.set(progress.slot, progress);
+    },
+    onSlotSettled: (update) => {
+      job.slots.push(update);
+      persist(entry);
+    },
+  })
+    .then((result) => {
+      job.status = "succeeded";
+      job.result = result;
+      // The result carries every image; keeping them on the slots too would double the record.
+      job.slots = job.slots.map((slot) => ({ ...slot, image: "" }));
+    })
+    .catch((error: unknown) => {
+      job.status = entry.controller.signal.aborted ? "cancelled" : "failed";
+      job.error = error instanceof Error ? error.message : "Generation failed.";
+    })
+    .finally(() => {
+      persist(entry);
+      void entry.writes.finally(() => running.delete(job.id));
+    });
+
+  return job;
+}
+
+/** Returns the job with slots settled after the first `after`, or null when it does not exist. */
+export async function getGenerationJob(id: string, after = 0): Promise<GenerationJobSnapshot | null> {
+  const entry = running.get(id);
+  let job = entry?.job ?? (await getJobStore().get(id));
+  if (!job) {
+    return null;
+  }
+
+  if (job.status === "running" && !entry) {
+    // Saved as running but no process owns it: the server restarted mid-run.
+    job = {
+      ...job,
+      status: "failed",
+      error: "The server restarted before this job finished.",
+      updatedAt: new Date().toISOString(),
+    };
+    await getJobStore().save(job);
+  }
+
+  return {
+    ...job,
+    slots: job.slots.slice(Math.max(0, after)),
+    slotCount: job.slots.length,
+    ...(entry ? { progress: Array.from(entry.progress.values()) } : {}),
+  };
+}
+
+/** Aborts a running job. Returns false when it is not running in this process. */
+export function cancelGenerationJob(id: string): boolean {
+  const entry = running.get(id);
+  if (!entry || entry.job.status !== "running") {
+    return false;
+  }
+  entry.controller.abort();
+  return true;
+}
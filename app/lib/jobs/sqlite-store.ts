@@ -0,0 +1,65 @@
+import { mkdir } from "node:fs/promises";
+import path from "node:path";
+import type { GenerationJob, JobStore } from "./types";
+
+// The subset of node:sqlite's DatabaseSync used here; @types/node 20 does not ship it yet.
+type SqliteStatement = {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+};
+
+type SqliteDatabase = {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+};
+
+type SqliteModule = {
+  DatabaseSync: new (file: string) => SqliteDatabase;
+};
+
+function loadSqlite(): SqliteModule {
+  const getBuiltinModule = (process as unknown as { getBuiltinModule?: (id: string) => unknown }).getBuiltinModule;
+  const sqlite = getBuiltinModule?.("node:sqlite") as SqliteModule | undefined;
+  if (!sqlite?.DatabaseSync) {
+    throw new Error("JOB_STORE=sqlite needs Node.js 22.5 or newer (node:sqlite). Use JOB_STORE=file instead.");
+  }
+  return sqlite;
+}
+
+/** A single `jobs` table with the record stored as JSON. */
+export function createSqliteJobStore(file: string): JobStore {
+  const ready = mkdir(path.dirname(file), { recursive: true }).then(() => {
+    const { DatabaseSync } = loadSqlite();
+    const db = new DatabaseSync(file);
+    db.exec(
+      "CREATE TABLE IF NOT EXISTS jobs (id TEXT PRIMARY KEY, status TEXT NOT NULL, updated_at TEXT NOT NULL, data TEXT NOT NULL)",
+    );
+    db.exec("CREATE INDEX IF NOT EXISTS idx_jobs_updated_at ON jobs(updated_at)");
+    return {
+      upsert: db.prepare(
+        "INSERT INTO jobs (id, status, updated_at, data) VALUES (?, ?, ?, ?) " +
+          "ON CONFLICT(id) DO UPDATE SET status = excluded.status, updated_at = excluded.updated_at, data = excluded.data",
+      ),
+      select: db.prepare("SELECT data FROM jobs WHERE id = ?"),
+      prune: db.prepare("DELETE FROM jobs WHERE updated_at < ?"),
+    };
+  });
+
+  return {
+    async save(job) {
+      const statements = await ready;
+      statements.upsert.run(job.id, job.status, job.updatedAt, JSON.stringify(job));
+    },
+
+    async get(id) {
+      const statements = await ready;
+      const row = statements.select.get(id) as { data?: string } | undefined;
+      return row?.data ? (JSON.parse(row.data) as GenerationJob) : null;
+    },
+
+    async prune(cutoff) {
+      const statements = await ready;
+      statements.prune.run(cutoff);
+    },
+  };
+}
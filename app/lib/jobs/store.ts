@@ -0,0 +1,34 @@
+import path from "node:path";
+import { createFileJobStore } from "./file-store";
+import { createSqliteJobStore } from "./sqlite-store";
+import type { JobStore } from "./types";
+
+let store: JobStore | null = null;
+
+/**
+ * The store picked by JOB_STORE ("file" by default, or "sqlite"). JOB_STORE_PATH
+ * overrides the location: a directory for "file", a database file for "sqlite".
+ */
+export function getJobStore(): JobStore {
+  if (store) {
+    return store;
+  }
+
+  const kind = process.env.JOB_STORE ?? "file";
+  const location = process.env.JOB_STORE_PATH;
+
+  if (kind === "file") {
+    store = createFileJobStore(location ?? path.join(process.cwd(), ".data", "jobs"));
+  } else if (kind === "sqlite") {
+    store = createSqliteJobStore(location ?? path.join(process.cwd(), ".data", "jobs.sqlite"));
+  } else {
+    throw new Error(`Unknown JOB_STORE "${kind}". Use "file" or "sqlite".`);
+  }
+
+  return store;
+}
+
+/** Replaces the configured store, e.g. with a Redis-backed one. Call before the first request. */
+export function setJobStore(custom: JobStore): void {
+  store = custom;
+}
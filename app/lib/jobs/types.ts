@@ -0,0 +1,44 @@
+import type {
+  GenerateSeedreamArgs,
+  GenerationProgress,
+  GenerationSlotUpdate,
+  SeedreamGeneration,
+} from "../generate-seedream";
+
+export type GenerationJobStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+/** What the client posts to start a job: `generateSeedream`'s arguments minus the callbacks. */
+export type GenerationJobRequest = Omit<
+  GenerateSeedreamArgs,
+  "signal" | "onProgress" | "onSlotSettled" | "onRequestQueued" | "loadRemoteImage" | "loadVertexToken"
+>;
+
+export type GenerationJob = {
+  id: string;
+  status: GenerationJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Slots in the order they settled; clients page through them with `?after=`. */
+  slots: GenerationSlotUpdate[];
+  /** Set once the job has succeeded. */
+  result?: SeedreamGeneration;
+  error?: string;
+};
+
+/** GET /api/jobs/[id] response. `progress` is live and only present while the job runs. */
+export type GenerationJobSnapshot = GenerationJob & {
+  /** Total slots settled so far, including ones skipped by `?after=`. */
+  slotCount: number;
+  progress?: GenerationProgress[];
+};
+
+/**
+ * Where jobs are kept between polls. Jobs hold generated images, so stores
+ * should expect records of several megabytes.
+ */
+export interface JobStore {
+  save(job: GenerationJob): Promise<void>;
+  get(id: string): Promise<GenerationJob | null>;
+  /** Drops jobs last updated before `cutoff` (ISO timestamp). */
+  prune(cutoff: string): Promise<void>;
+}
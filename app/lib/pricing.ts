@@ -0,0 +1,42 @@
+import type { ModelId, Provider, QualityKey } from "./seedream-options";
+
+type ModelPricing = {
+  /** List price of one output image, in cents. */
+  imageCents: Record<QualityKey, number>;
+  /** Input (text and image) price per million tokens, in cents, where input is billed. */
+  inputCentsPerMillionTokens?: number;
+};
+
+// Gemini bills output images as tokens ($120 or $60 per million); these are per-image equivalents.
+// FAL charges a flat price per image and nothing for the input.
+const PRICING: Record<string, Partial<Record<ModelId, ModelPricing>>> = {
+  gemini: {
+    "gemini-3-pro-image-preview": {
+      imageCents: { "1k": 13.44, "2k": 13.44, "4k": 24 },
+      inputCentsPerMillionTokens: 200,
+    },
+    "gemini-3.1-flash-image-preview": {
+      imageCents: { "1k": 6.72, "2k": 10.08, "4k": 15.12 },
+      inputCentsPerMillionTokens: 50,
+    },
+  },
+  fal: {
+    "gemini-3-pro-image-preview": {
+      imageCents: { "1k": 15, "2k": 15, "4k": 30 },
+    },
+  },
+};
+
+function getPricing(provider: Provider, model: ModelId): ModelPricing | null {
+  return PRICING[provider]?.[model] ?? null;
+}
+
+/** Price of one image, or null when the provider's pricing is unknown. */
+export function getImagePriceCents(provider: Provider, model: ModelId, quality: QualityKey): number | null {
+  return getPricing(provider, model)?.imageCents[quality] ?? null;
+}
+
+/** Price of the input tokens of one call; zero where the provider doesn't bill input. */
+export function getInputPriceCents(provider: Provider, model: ModelId, tokens: number): number {
+  return (tokens * (getPricing(provider, model)?.inputCentsPerMillionTokens ?? 0)) / 1_000_000;
+}
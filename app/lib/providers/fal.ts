@@ -0,0 +1,153 @@
+import type { ProviderAdapter, ProviderCredentials, ProviderRequest, QueuedProviderRequest } from "./types";
+
+// FAL only supports gemini-3-pro-image-preview
+const FAL_MODEL = "gemini-3-pro-image-preview";
+const FAL_QUEUE_BASE_URL = `https://queue.fal.run/fal-ai/${FAL_MODEL}`;
+
+type FalQueueResponse = {
+  request_id?: string;
+  status_url?: string;
+  response_url?: string;
+  cancel_url?: string;
+  status?: string;
+  queue_position?: number;
+  logs?: { message?: string }[] | null;
+};
+
+function requireFalKey(credentials: ProviderCredentials): string {
+  const resolvedApiKey = (credentials.falApiKey ?? "").trim();
+  if (!resolvedApiKey) {
+    throw new Error("Missing FAL API key. Add one in settings.");
+  }
+  return resolvedApiKey;
+}
+
+function falRequest(url: string, credentials: ProviderCredentials, method = "GET"): ProviderRequest {
+  return {
+    url,
+    init: {
+      method,
+      headers: { Authorization: `Key ${requireFalKey(credentials)}` },
+      cache: "no-store",
+    },
+  };
+}
+
+function withLogs(url: string): string {
+  return `${url}${url.includes("?") ? "&" : "?"}logs=1`;
+}
+
+export const falProvider: ProviderAdapter = {
+  id: "fal",
+  label: "FAL.ai",
+  capabilities: {
+    models: [FAL_MODEL],
+    supportsEditing: true,
+    supportsGoogleSearch: false,
+    outputFormats: ["png", "jpeg", "webp"],
+    maxInputImages: 14,
+    maxOutputsPerRequest: 4,
+  },
+  emptyResultMessage: "No images returned.",
+
+  async buildRequests(context) {
+    const resolvedApiKey = requireFalKey(context.credentials);
+
+    const useEditEndpoint = context.inputImages.length > 0;
+
+    // sync_mode keeps the images inline as data URIs, so they don't depend on FAL's CDN links.
+    const payload: Record<string, unknown> = {
+      prompt: context.prompt,
+      aspect_ratio: context.aspectRatio,
+      resolution: context.resolution,
+      num_images: context.numImages,
+      sync_mode: true,
+      enable_safety_checker: false,
+      output_format: context.outputFormat,
+    };
+
+    if (useEditEndpoint) {
+      if (context.inputImages.length + context.numImages > 15) {
+        throw new Error("Total number of images (input + output) must not exceed 15.");
+      }
+      payload.image_urls = context.inputImages.map((image) => image.url);
+    }
+
+    const endpoint = useEditEndpoint ? `${FAL_QUEUE_BASE_URL}/edit` : FAL_QUEUE_BASE_URL;
+
+    return [
+      {
+        url: endpoint,
+        init: {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Key ${resolvedApiKey}`,
+          },
+          body: JSON.stringify(payload),
+          cache: "no-store",
+        },
+      },
+    ];
+  },
+
+  queue: {
+    pollIntervalMs: 2_000,
+
+    parseSubmission(json): QueuedProviderRequest {
+      const submission = json as FalQueueResponse;
+      if (!submission.request_id) {
+        throw new Error("FAL did not return a request id.");
+      }
+      // Status and results live under the app id, without the /edit path.
+      const requestUrl = `${FAL_QUEUE_BASE_URL}/requests/${submission.request_id}`;
+      return {
+        requestId: submission.request_id,
+        statusUrl: submission.status_url ?? `${requestUrl}/status`,
+        responseUrl: submission.response_url ?? requestUrl,
+        cancelUrl: submission.cancel_url ?? `${requestUrl}/cancel`,
+      };
+    },
+
+    buildStatusRequest(request, credentials) {
+      return falRequest(withLogs(request.statusUrl), credentials);
+    },
+
+    parseStatus(json) {
+      const status = json as FalQueueResponse;
+      const logs = (status.logs ?? [])
+        .map((entry) => entry?.message?.trim() ?? "")
+        .filter((message) => message.length > 0);
+      if (status.status === "COMPLETED") {
+        return { state: "completed", logs };
+      }
+      if (status.status === "IN_PROGRESS") {
+        return { state: "running", logs };
+      }
+      return {
+        state: "queued",
+        ...(typeof status.queue_position === "number" ? { position: status.queue_position } : {}),
+        logs,
+      };
+    },
+
+    buildResultRequest(request, credentials) {
+      return falRequest(request.responseUrl, credentials);
+    },
+
+    buildCancelRequest(request, credentials) {
+      return falRequest(request.cancelUrl ?? `${FAL_QUEUE_BASE_URL}/requests/${request.requestId}/cancel`, credentials, "PUT");
+    },
+  },
+
+  parseResponse(json) {
+    const images = ((json as { images?: { url?: string }[] }).images ?? [])
+      .map((item) => item?.url)
+      .filter((url): url is string => typeof url === "string" && url.length > 0);
+    return { images };
+  },
+
+  mapError(status, body) {
+    return new Error(`Request failed (${status}): ${body}`);
+  },
+};
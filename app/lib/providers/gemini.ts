@@ -0,0 +1,297 @@
+import { buildGeminiEndpoint, getGeminiAuthHeaders, parseGeminiKeyTarget } from "../gemini-key-target";
+import { parseDataUrl } from "./shared";
+import type {
+  ConversationTurn,
+  ProviderAdapter,
+  ProviderRequestContext,
+  ProviderStreamEvent,
+  ThoughtSignatures,
+} from "./types";
+
+type GeminiInlineData = { mimeType: string; data: string };
+
+export type GeminiPart = {
+  text?: string;
+  /** Set on thought summaries and interim "thinking" images. */
+  thought?: boolean;
+  inlineData?: GeminiInlineData;
+  inline_data?: { mime_type?: string; data?: string };
+  thoughtSignature?: string;
+};
+
+// Documented placeholder for model turns that never had a signature (other providers, older generations).
+const SKIP_SIGNATURE_VALIDATION = "skip_thought_signature_validator";
+
+type GeminiResponseChunk = {
+  candidates?: { content?: { parts?: GeminiPart[] } }[];
+  error?: { message?: string };
+};
+
+function partToDataUrl(part: GeminiPart | undefined): string | null {
+  const inline =
+    part?.inlineData ??
+    (part?.inline_data
+      ? {
+          mimeType: part.inline_data.mime_type ?? "image/png",
+          data: part.inline_data.data ?? "",
+        }
+      : undefined);
+  if (inline?.data && inline.mimeType) {
+    return `data:${inline.mimeType};base64,${inline.data}`;
+  }
+  return null;
+}
+
+// Thought images are drafts, not the answer; skip them when picking the output.
+export function extractImageFromParts(parts: GeminiPart[] | undefined): string | null {
+  for (const part of parts ?? []) {
+    if (part?.thought) {
+      continue;
+    }
+    const image = partToDataUrl(part);
+    if (image) {
+      return image;
+    }
+  }
+  return null;
+}
+
+// Signatures sit on the answer's text and image parts; thought parts never carry one that must be echoed.
+export function extractSignaturesFromParts(parts: GeminiPart[] | undefined): ThoughtSignatures {
+  const signatures: ThoughtSignatures = {};
+  for (const part of parts ?? []) {
+    if (!part?.thoughtSignature || part.thought) {
+      continue;
+    }
+    const key = partToDataUrl(part) ? "image" : "text";
+    signatures[key] ??= part.thoughtSignature;
+  }
+  return signatures;
+}
+
+// With candidateCount above one, each candidate carries one of the images.
+function candidateParts(chunk: GeminiResponseChunk): GeminiPart[] {
+  return (chunk.candidates ?? []).flatMap((candidate) => candidate.content?.parts ?? []);
+}
+
+function parseStreamChunk(chunk: GeminiResponseChunk): ProviderStreamEvent {
+  if (chunk.error?.message) {
+    throw new Error(`Gemini API Error: ${chunk.error.message}. Try again or switch provider.`);
+  }
+
+  const parts = candidateParts(chunk);
+  const event: ProviderStreamEvent = {
+    images: [],
+    text: "",
+    thoughtText: "",
+    draftImages: [],
+    signatures: extractSignaturesFromParts(parts),
+  };
+  for (const part of parts) {
+    const image = partToDataUrl(part);
+    if (part.thought) {
+      if (image) {
+        event.draftImages.push(image);
+      } else if (part.text) {
+        event.thoughtText += part.text;
+      }
+    } else if (image) {
+      event.images.push(image);
+    } else if (part.text) {
+      event.text += part.text;
+    }
+  }
+  return event;
+}
+
+// Answer text explains refusals and empty results; thought summaries show the model's reasoning.
+export function extractTextFromParts(parts: GeminiPart[] | undefined): { text: string; thoughts: string } {
+  let text = "";
+  let thoughts = "";
+  for (const part of parts ?? []) {
+    if (!part?.text) {
+      continue;
+    }
+    if (part.thought) {
+      thoughts += part.text;
+    } else {
+      text += part.text;
+    }
+  }
+  return { text: text.trim(), thoughts: thoughts.trim() };
+}
+
+function toInlineImageParts(images: ProviderRequestContext["inputImages"]) {
+  return images.map((image) => {
+    const inlineData = parseDataUrl(image.url);
+    if (!inlineData) {
+      // Callers inline references first (resolveReferenceImages); anything left would be dropped silently.
+      throw new Error(`Reference image "${image.name || image.url}" is not inline image data.`);
+    }
+    return { inlineData };
+  });
+}
+
+function turnToContent(turn: ConversationTurn) {
+  const imageParts = toInlineImageParts(turn.images);
+  if (turn.role === "user") {
+    return { role: "user", parts: [...(turn.text ? [{ text: turn.text }] : []), ...imageParts] };
+  }
+  // The model's own output must go back with its signatures or the API rejects the turn.
+  const textSignature = turn.signatures?.text;
+  return {
+    role: "model",
+    parts: [
+      ...(turn.text ? [{ text: turn.text, ...(textSignature ? { thoughtSignature: textSignature } : {}) }] : []),
+      ...imageParts.map((part) => ({
+        ...part,
+        thoughtSignature: turn.signatures?.image ?? SKIP_SIGNATURE_VALIDATION,
+      })),
+    ],
+  };
+}
+
+// Also used by the token estimate, which counts exactly what a run would send.
+export function buildGeminiContents(
+  prompt: string,
+  inputImages: ProviderRequestContext["inputImages"],
+  history: ConversationTurn[] = [],
+) {
+  return [
+    ...history.map(turnToContent),
+    {
+      role: "user",
+      parts: [...(prompt ? [{ text: prompt }] : []), ...toInlineImageParts(inputImages)],
+    },
+  ];
+}
+
+// Shared with Batch Mode, which wraps the same GenerateContentRequest per entry.
+export function buildGeminiPayload(context: ProviderRequestContext) {
+  const params = context.params ?? {};
+  const safetySettings = Object.entries(params.safetySettings ?? {}).map(([category, threshold]) => ({
+    category,
+    threshold,
+  }));
+
+  return {
+    contents: buildGeminiContents(context.prompt, context.inputImages, context.history),
+    generationConfig: {
+      responseModalities: ["TEXT", "IMAGE"],
+      imageConfig: {
+        aspectRatio: context.aspectRatio,
+        imageSize: context.resolution,
+      },
+      // One call only asks for several images when candidates were requested.
+      ...(context.numImages > 1 ? { candidateCount: context.numImages } : {}),
+      ...(params.seed !== undefined ? { seed: params.seed } : {}),
+      ...(params.temperature !== undefined ? { temperature: params.temperature } : {}),
+      ...(params.topP !== undefined ? { topP: params.topP } : {}),
+    },
+    ...(safetySettings.length > 0 ? { safetySettings } : {}),
+    ...(context.googleSearch ? { tools: [{ googleSearch: {} }] } : {}),
+  };
+}
+
+export const geminiProvider: ProviderAdapter = {
+  id: "gemini",
+  label: "Gemini API",
+  capabilities: {
+    supportsEditing: true,
+    supportsGoogleSearch: true,
+    outputFormats: [],
+    maxInputImages: 14,
+    inlineImagesOnly: true,
+    supportsConversation: true,
+    // The image models return a single image per call unless candidates are requested; fan out one request per output.
+    maxOutputsPerRequest: 1,
+    generationParams: ["seed", "temperature", "topP", "candidateCount", "safetySettings"],
+  },
+  usesGeminiKeyPool: true,
+  emptyResultMessage: "No images returned from Gemini API.",
+
+  async buildRequests(context) {
+    const resolvedApiKey = (context.credentials.geminiApiKey ?? "").trim();
+
+    if (!resolvedApiKey) {
+      throw new Error("Missing Gemini API key. Add one in settings.");
+    }
+
+    const keyTarget = parseGeminiKeyTarget(resolvedApiKey);
+
+    const basePayload = buildGeminiPayload(context);
+    // Ask for thought summaries so pending tiles can show progress while the image renders.
+    const payload = {
+      ...basePayload,
+      generationConfig: {
+        ...basePayload.generationConfig,
+        thinkingConfig: { includeThoughts: true },
+      },
+    };
+
+    const endpoint = buildGeminiEndpoint(keyTarget, context.model, "streamGenerateContent");
+    const authHeaders = await getGeminiAuthHeaders(keyTarget, context.credentials.loadVertexToken, context.signal);
+
+    return [
+      {
+        url: endpoint,
+        init: {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...authHeaders,
+          },
+          body: JSON.stringify(payload),
+          cache: "no-store",
+        },
+      },
+    ];
+  },
+
+  parseResponse(json) {
+    const candidates = (json as GeminiResponseChunk).candidates ?? [];
+    const parts = candidateParts(json as GeminiResponseChunk);
+    const images = candidates
+      .map((candidate) => extractImageFromParts(candidate.content?.parts))
+      .filter((image): image is string => image !== null);
+    const { text, thoughts } = extractTextFromParts(parts);
+    const signatures = extractSignaturesFromParts(parts);
+    return {
+      images,
+      text: text || undefined,
+      thoughts: thoughts || undefined,
+      ...(signatures.text || signatures.image ? { signatures } : {}),
+    };
+  },
+
+  parseStreamEvent(json) {
+    return parseStreamChunk(json as GeminiResponseChunk);
+  },
+
+  mapError(status, body) {
+    try {
+      const errJson = JSON.parse(body) as { error?: { message?: string } };
+      if (errJson.error?.message) {
+        const suffix = status === 503 ? " (service unavailable)" : "";
+        return new Error(
+          `Gemini API Error${suffix}: ${errJson.error.message}. Try again or switch provider.`,
+        );
+      }
+    } catch {
+      // Not JSON; fall through to the generic messages below.
+    }
+    if (status === 503) {
+      return new Error(
+        "Gemini API is temporarily unavailable (503). Please retry shortly or switch to FAL.",
+      );
+    }
+    return new Error(`Gemini API Error (${status}): ${body}`);
+  },
+
+  mapRequestFailure(error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      return new Error("Gemini API request timed out. Check your connection and try again.");
+    }
+    return error instanceof Error ? error : new Error("Gemini API request failed.");
+  },
+};
@@ -0,0 +1,141 @@
+import { parseDataUrl, urlToBlob } from "./shared";
+import type { ProviderAdapter, ProviderRequestContext } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-image-1";
+
+type OpenAIImagesResponse = {
+  data?: { b64_json?: string; url?: string }[];
+};
+
+// The Images API only accepts a few fixed sizes; pick the one matching the orientation.
+function resolveImageSize(size: { width: number; height: number }): string {
+  const ratio = size.width / Math.max(1, size.height);
+  if (ratio > 1.1) {
+    return "1536x1024";
+  }
+  if (ratio < 0.9) {
+    return "1024x1536";
+  }
+  return "1024x1024";
+}
+
+function resolveSettings(context: ProviderRequestContext) {
+  const settings = context.credentials.settings ?? {};
+  const apiKey = (settings.apiKey ?? "").trim();
+  if (!apiKey) {
+    throw new Error("Missing OpenAI-compatible API key. Add one in settings.");
+  }
+  const baseUrl = (settings.baseUrl ?? "").trim().replace(/\/+$/, "") || DEFAULT_BASE_URL;
+  const model = (settings.model ?? "").trim() || DEFAULT_MODEL;
+  return { apiKey, baseUrl, model };
+}
+
+async function inputImageToBlob(url: string): Promise<Blob> {
+  const inline = parseDataUrl(url);
+  if (!inline) {
+    return urlToBlob(url);
+  }
+  const binary = atob(inline.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: inline.mimeType });
+}
+
+export const openAICompatibleProvider: ProviderAdapter = {
+  id: "openai-compatible",
+  label: "OpenAI-compatible",
+  capabilities: {
+    supportsEditing: true,
+    supportsGoogleSearch: false,
+    outputFormats: ["png", "jpeg", "webp"],
+    maxInputImages: 16,
+    inlineImagesOnly: true,
+    maxOutputsPerRequest: 10,
+  },
+  settingsFields: [
+    { key: "baseUrl", label: "Base URL", placeholder: DEFAULT_BASE_URL },
+    { key: "apiKey", label: "API Key", placeholder: "sk-...", secret: true },
+    { key: "model", label: "Model", placeholder: DEFAULT_MODEL },
+  ],
+  emptyResultMessage: "No images returned from the OpenAI-compatible endpoint.",
+
+  async buildRequests(context) {
+    const { apiKey, baseUrl, model } = resolveSettings(context);
+    const size = resolveImageSize(context.size);
+
+    if (context.inputImages.length === 0) {
+      return [
+        {
+          url: `${baseUrl}/images/generations`,
+          init: {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${apiKey}`,
+            },
+            body: JSON.stringify({
+              model,
+              prompt: context.prompt,
+              n: context.numImages,
+              size,
+              output_format: context.outputFormat,
+            }),
+            cache: "no-store",
+          },
+        },
+      ];
+    }
+
+    const form = new FormData();
+    form.append("model", model);
+    form.append("prompt", context.prompt);
+    form.append("n", String(context.numImages));
+    form.append("size", size);
+    form.append("output_format", context.outputFormat);
+
+    const blobs = await Promise.all(context.inputImages.map((image) => inputImageToBlob(image.url)));
+    blobs.forEach((blob, index) => {
+      form.append("image[]", blob, context.inputImages[index].name || `reference-${index}.png`);
+    });
+
+    return [
+      {
+        url: `${baseUrl}/images/edits`,
+        init: {
+          method: "POST",
+          headers: { Authorization: `Bearer ${apiKey}` },
+          body: form,
+          cache: "no-store",
+        },
+      },
+    ];
+  },
+
+  parseResponse(json, context) {
+    const mimeType = context.outputFormat === "jpeg" ? "image/jpeg" : `image/${context.outputFormat}`;
+    const images = ((json as OpenAIImagesResponse).data ?? [])
+      .map((item) => {
+        if (item?.b64_json) {
+          return `data:${mimeType};base64,${item.b64_json}`;
+        }
+        return item?.url ?? null;
+      })
+      .filter((url): url is string => typeof url === "string" && url.length > 0);
+    return { images };
+  },
+
+  mapError(status, body) {
+    try {
+      const errJson = JSON.parse(body) as { error?: { message?: string } };
+      if (errJson.error?.message) {
+        return new Error(`OpenAI-compatible API Error (${status}): ${errJson.error.message}`);
+      }
+    } catch {
+      // Not JSON; report the raw body.
+    }
+    return new Error(`OpenAI-compatible API Error (${status}): ${body}`);
+  },
+};
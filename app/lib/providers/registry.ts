@@ -0,0 +1,24 @@
+import { falProvider } from "./fal";
+import { geminiProvider } from "./gemini";
+import { openAICompatibleProvider } from "./openai-compatible";
+import type { ProviderAdapter, ProviderId } from "./types";
+
+const adapters = new Map<ProviderId, ProviderAdapter>(
+  [falProvider, geminiProvider, openAICompatibleProvider].map((adapter) => [adapter.id, adapter]),
+);
+
+/**
+ * Adds (or replaces) a provider adapter. Call this at module load, before
+ * the create page renders, so the provider shows up in the picker.
+ */
+export function registerProvider(adapter: ProviderAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+export function getProviderAdapter(id: ProviderId): ProviderAdapter | undefined {
+  return adapters.get(id);
+}
+
+export function listProviderAdapters(): ProviderAdapter[] {
+  return Array.from(adapters.values());
+}
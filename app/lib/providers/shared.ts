@@ -0,0 +1,144 @@
+// Gemini image gen can take up to ~3-4 minutes in some regions; use a generous timeout.
+export const DEFAULT_REQUEST_TIMEOUT_MS = 480_000;
+
+export const ASPECT_RATIO_MAP: Record<string, string> = {
+  "square-1-1": "1:1",
+  "portrait-2-3": "2:3",
+  "portrait-3-4": "3:4",
+  "portrait-4-5": "4:5",
+  "portrait-9-16": "9:16",
+  "landscape-3-2": "3:2",
+  "landscape-4-3": "4:3",
+  "landscape-5-4": "5:4",
+  "landscape-16-9": "16:9",
+  "landscape-21-9": "21:9",
+};
+
+export const RESOLUTION_MAP: Record<string, string> = {
+  "1k": "1K",
+  "2k": "2K",
+  "4k": "4K",
+};
+
+export const GENERATION_CANCELLED_MESSAGE = "Generation cancelled.";
+
+/**
+ * Aborts on whichever comes first: the timeout or the caller's signal.
+ * Check `signal.aborted` afterwards to tell a user cancel from a timeout.
+ */
+export async function withRequestSignal<T>(
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  run: (requestSignal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  if (signal?.aborted) {
+    throw new Error(GENERATION_CANCELLED_MESSAGE);
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const abortFromCaller = () => controller.abort();
+  signal?.addEventListener("abort", abortFromCaller);
+
+  try {
+    return await run(controller.signal);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", abortFromCaller);
+  }
+}
+
+/** Resolves after `ms`, or rejects with the cancel message as soon as `signal` aborts. */
+export function waitWithSignal(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(GENERATION_CANCELLED_MESSAGE));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error(GENERATION_CANCELLED_MESSAGE));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS,
+  signal?: AbortSignal,
+): Promise<Response> {
+  return withRequestSignal(timeoutMs, signal, (requestSignal) =>
+    fetch(url, { ...init, signal: requestSignal }),
+  );
+}
+
+/**
+ * Reads a text/event-stream body and hands each event's data payload to `onData`.
+ * Only `data:` lines are used; comments and event names are ignored.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onData: (data: string) => void,
+): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flushEvent = (block: string) => {
+    const data = block
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice("data:".length).trimStart())
+      .join("\n");
+    if (data) {
+      onData(data);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1) {
+      flushEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    flushEvent(buffer);
+  }
+}
+
+export function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+  if (!url.startsWith("data:")) {
+    return null;
+  }
+  const [mimePart, base64Data] = url.split(",");
+  const mimeType = mimePart.match(/:(.*?);/)?.[1] || "image/png";
+  return { mimeType, data: base64Data ?? "" };
+}
+
+export async function urlToBlob(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}`);
+  }
+  return response.blob();
+}
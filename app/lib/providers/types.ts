@@ -0,0 +1,179 @@
+import type { VertexTokenLoader } from "../gemini-key-target";
+import type { GenerationParamKey, GenerationParams } from "../generation-params";
+import type { ModelId, OutputFormat, QualityKey } from "../seedream-options";
+
+export type BuiltInProvider = "fal" | "gemini" | "openai-compatible";
+
+// Third-party adapters register under their own id, so the union stays open.
+export type ProviderId = BuiltInProvider | (string & {});
+
+export type ProviderInputImage = {
+  id: string;
+  name: string;
+  url: string;
+  width?: number | null;
+  height?: number | null;
+};
+
+/**
+ * Opaque tokens Gemini attaches to the parts of its answer. Sending them back
+ * with that answer in a later turn keeps the model's reasoning for the edit.
+ */
+export type ThoughtSignatures = {
+  text?: string;
+  image?: string;
+};
+
+/** One message of an earlier exchange, replayed so a follow-up edits with context. */
+export type ConversationTurn = {
+  role: "user" | "model";
+  text?: string;
+  /** References on user turns; the output being refined on model turns. */
+  images: ProviderInputImage[];
+  signatures?: ThoughtSignatures;
+};
+
+/**
+ * Free-form per-provider settings entered in the Settings panel
+ * (e.g. base URL and key for an OpenAI-compatible server).
+ */
+export type ProviderSettings = {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+};
+
+export type ProviderSettingsField = {
+  key: keyof ProviderSettings;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+};
+
+export type ProviderCapabilities = {
+  /** Models this provider can serve. Omit to accept every model. */
+  models?: ModelId[];
+  supportsEditing: boolean;
+  supportsGoogleSearch: boolean;
+  /** Output formats the provider honours natively. */
+  outputFormats: OutputFormat[];
+  maxInputImages: number;
+  /** Reference images must arrive as data: URLs; links are downloaded and inlined first. */
+  inlineImagesOnly?: boolean;
+  /** Accepts earlier turns as conversation history (edit sessions). */
+  supportsConversation?: boolean;
+  /** How many outputs a single HTTP call can return. */
+  maxOutputsPerRequest: number;
+  /** Advanced parameters the provider sends; the rest are dropped before the request is built. */
+  generationParams?: GenerationParamKey[];
+};
+
+export type ProviderCredentials = {
+  falApiKey?: string;
+  geminiApiKey?: string;
+  /** Mints tokens for `vertex-sa:` keys; defaults to the /api/vertex-token route. */
+  loadVertexToken?: VertexTokenLoader;
+  settings?: ProviderSettings;
+};
+
+export type ProviderRequestContext = {
+  prompt: string;
+  quality: QualityKey;
+  outputFormat: OutputFormat;
+  numImages: number;
+  model: ModelId;
+  googleSearch: boolean;
+  size: { width: number; height: number };
+  /** Aspect ratio string accepted by the APIs, e.g. "16:9". */
+  aspectRatio: string;
+  /** Resolution bucket accepted by the APIs, e.g. "2K". */
+  resolution: string;
+  inputImages: ProviderInputImage[];
+  /** Earlier turns of an edit session, oldest first; the prompt is the next user turn. */
+  history?: ConversationTurn[];
+  /** Already limited to the provider's `generationParams`. */
+  params?: GenerationParams;
+  credentials: ProviderCredentials;
+  /** Cancels work done while building requests, such as minting a Vertex token. */
+  signal?: AbortSignal;
+};
+
+export type ProviderRequest = {
+  url: string;
+  init: RequestInit;
+};
+
+/** A call a provider's job queue accepted; enough to poll it again after a reload. */
+export type QueuedProviderRequest = {
+  requestId: string;
+  statusUrl: string;
+  responseUrl: string;
+  cancelUrl?: string;
+};
+
+export type ProviderQueueStatus = {
+  state: "queued" | "running" | "completed";
+  /** Requests ahead of this one while it waits. */
+  position?: number;
+  /** Log lines reported so far, oldest first. */
+  logs: string[];
+};
+
+/**
+ * Submit-and-poll support for providers that run calls as queued jobs. The
+ * request from `buildRequests` submits the job; its status is then polled
+ * until it completes and the result is fetched separately.
+ */
+export type ProviderQueue = {
+  pollIntervalMs: number;
+  parseSubmission(json: unknown): QueuedProviderRequest;
+  buildStatusRequest(request: QueuedProviderRequest, credentials: ProviderCredentials): ProviderRequest;
+  parseStatus(json: unknown): ProviderQueueStatus;
+  buildResultRequest(request: QueuedProviderRequest, credentials: ProviderCredentials): ProviderRequest;
+  /** Best-effort; sent when the run is cancelled while the job is still queued or running. */
+  buildCancelRequest?(request: QueuedProviderRequest, credentials: ProviderCredentials): ProviderRequest;
+};
+
+export type ProviderResult = {
+  images: string[];
+  /** Non-thought text the model returned alongside (or instead of) the images. */
+  text?: string;
+  /** Thought summaries, when the provider exposes them. */
+  thoughts?: string;
+  signatures?: ThoughtSignatures;
+};
+
+/** What one server-sent event adds to a streaming response. */
+export type ProviderStreamEvent = {
+  images: string[];
+  /** Answer text (captions, explanations, refusals), appended like thoughtText. */
+  text: string;
+  /** Thought-summary text, appended to whatever arrived before. */
+  thoughtText: string;
+  /** Interim images the model produced while thinking. */
+  draftImages: string[];
+  /** Signatures arriving in this event; the first one for each part wins. */
+  signatures: ThoughtSignatures;
+};
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  label: string;
+  capabilities: ProviderCapabilities;
+  settingsFields?: ProviderSettingsField[];
+  /** Authenticates with the Gemini key pool, so calls are spread across keys and fail over. */
+  usesGeminiKeyPool?: boolean;
+  /** Shown when every request succeeded but no image came back. */
+  emptyResultMessage: string;
+  /** Builds one request per HTTP call; throws on missing credentials or invalid input. */
+  buildRequests(context: ProviderRequestContext): Promise<ProviderRequest[]>;
+  parseResponse(json: unknown, context: ProviderRequestContext): ProviderResult;
+  /** Set when requests submit to a job queue; the result is polled for instead of awaited. */
+  queue?: ProviderQueue;
+  /** Set when requests return server-sent events; each event's JSON is parsed here instead. */
+  parseStreamEvent?(json: unknown, context: ProviderRequestContext): ProviderStreamEvent;
+  /** Turns a non-2xx response into a user-facing error. */
+  mapError(status: number, body: string): Error;
+  /** Turns a thrown fetch error (timeout, network) into a user-facing error. */
+  mapRequestFailure?(error: unknown): Error;
+}
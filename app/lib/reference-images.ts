@@ -0,0 +1,77 @@
+import { GENERATION_CANCELLED_MESSAGE } from "./providers/shared";
+
+/** Turns an http(s) image URL into a data URL. */
+export type RemoteImageLoader = (url: string, signal?: AbortSignal) => Promise<string>;
+
+type ReferenceImage = { name?: string; url: string };
+
+/** Reads a blob: URL from this tab into a data URL. Browser only. */
+export async function blobUrlToDataUrl(url: string): Promise<string> {
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Unable to read reference image."));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Default loader for the browser: the /api/reference-image route fetches the image without CORS limits. */
+export const loadRemoteImageViaProxy: RemoteImageLoader = async (url, signal) => {
+  const response = await fetch("/api/reference-image", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url }),
+    signal,
+  });
+  const body = (await response.json().catch(() => ({}))) as { dataUrl?: string; error?: string };
+  if (!response.ok || !body.dataUrl) {
+    throw new Error(body.error ?? `Image proxy failed (${response.status}).`);
+  }
+  return body.dataUrl;
+};
+
+/**
+ * Inlines every reference as a data URL for providers that cannot take links.
+ * Throws one error naming each image that could not be used, rather than
+ * letting the provider drop it.
+ */
+export async function resolveReferenceImages<T extends ReferenceImage>(
+  images: T[],
+  loadRemoteImage: RemoteImageLoader = loadRemoteImageViaProxy,
+  signal?: AbortSignal,
+): Promise<T[]> {
+  const failures: string[] = [];
+
+  const resolved = await Promise.all(
+    images.map(async (image, index) => {
+      const label = `"${image.name || `Reference ${index + 1}`}"`;
+      try {
+        if (image.url.startsWith("data:")) {
+          return image;
+        }
+        if (image.url.startsWith("blob:") && typeof window !== "undefined") {
+          return { ...image, url: await blobUrlToDataUrl(image.url) };
+        }
+        if (/^https?:\/\//i.test(image.url)) {
+          return { ...image, url: await loadRemoteImage(image.url, signal) };
+        }
+        failures.push(`${label} (unsupported URL)`);
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new Error(GENERATION_CANCELLED_MESSAGE);
+        }
+        failures.push(`${label} (${error instanceof Error ? error.message : "could not be loaded"})`);
+      }
+      return image;
+    }),
+  );
+
+  if (failures.length > 0) {
+    throw new Error(
+      `${failures.length === 1 ? "A reference image" : `${failures.length} reference images`} could not be used: ${failures.join("; ")}. Remove or replace ${failures.length === 1 ? "it" : "them"} and try again.`,
+    );
+  }
+
+  return resolved;
+}
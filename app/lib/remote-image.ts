@@ -0,0 +1,223 @@
+import { lookup } from "node:dns/promises";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { Readable } from "node:stream";
+import { withRequestSignal } from "./providers/shared";
+
+// Gemini rejects inline parts above ~7 MB, so anything larger is unusable anyway.
+export const MAX_REMOTE_IMAGE_BYTES = 7 * 1024 * 1024;
+const REMOTE_IMAGE_TIMEOUT_MS = 20_000;
+const MAX_REDIRECTS = 3;
+
+/** Carries the HTTP status the proxy route should answer with. */
+export class RemoteImageError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "RemoteImageError";
+  }
+}
+
+// Formats the image models accept as inline data. Detected from the bytes; Content-Type is only a hint.
+function sniffImageType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0x89 && ascii(1, 4) === "PNG") {
+    return "image/png";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (brand === "heic" || brand === "heix") {
+      return "image/heic";
+    }
+    if (brand === "mif1" || brand === "heif") {
+      return "image/heif";
+    }
+  }
+  return null;
+}
+
+// BlockList also matches IPv4-mapped IPv6 (e.g. "::ffff:7f00:1") against the IPv4 ranges.
+const PRIVATE_ADDRESSES = (() => {
+  const list = new BlockList();
+  list.addSubnet("0.0.0.0", 8, "ipv4");
+  list.addSubnet("10.0.0.0", 8, "ipv4");
+  list.addSubnet("100.64.0.0", 10, "ipv4");
+  list.addSubnet("127.0.0.0", 8, "ipv4");
+  list.addSubnet("169.254.0.0", 16, "ipv4");
+  list.addSubnet("172.16.0.0", 12, "ipv4");
+  list.addSubnet("192.168.0.0", 16, "ipv4");
+  list.addSubnet("224.0.0.0", 3, "ipv4");
+  // Unspecified, loopback and the deprecated IPv4-compatible form.
+  list.addSubnet("::", 96, "ipv6");
+  list.addSubnet("fc00::", 7, "ipv6");
+  list.addSubnet("fe80::", 10, "ipv6");
+  list.addSubnet("ff00::", 8, "ipv6");
+  return list;
+})();
+
+type ResolvedAddress = { address: string; family: 4 | 6 };
+
+function isPrivateAddress(address: string, family: 4 | 6): boolean {
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// The proxy runs on the server, so it must not become a way to reach the host's own network.
+// Returns the checked address so the request can connect to it without resolving the name again.
+async function resolvePublicAddress(url: URL): Promise<ResolvedAddress> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new RemoteImageError("Only http(s) image URLs are supported.", 400);
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const literalFamily = isIP(hostname);
+  const addresses: ResolvedAddress[] = literalFamily
+    ? [{ address: hostname, family: literalFamily as 4 | 6 }]
+    : await lookup(hostname, { all: true })
+        .then((results) => results.map(({ address, family }) => ({ address, family: family as 4 | 6 })))
+        .catch(() => []);
+  if (addresses.length === 0) {
+    throw new RemoteImageError(`Could not resolve ${url.hostname}.`, 502);
+  }
+  if (addresses.some(({ address, family }) => isPrivateAddress(address, family))) {
+    throw new RemoteImageError("Image URLs on private or local networks are not allowed.", 403);
+  }
+  return addresses[0];
+}
+
+/**
+ * Requests `url` over a connection to `target`, the address that passed the
+ * check. Going through fetch would resolve the name a second time, and a
+ * DNS answer that changed in between (rebinding) could point it at the
+ * host's own network.
+ */
+function requestPinned(url: URL, target: ResolvedAddress, signal: AbortSignal): Promise<Response> {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [target]);
+    } else {
+      callback(null, target.address, target.family);
+    }
+  };
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      url,
+      { method: "GET", signal, lookup: pinnedLookup, headers: { accept: "image/*", "accept-encoding": "identity" } },
+      (message) => {
+        const status = message.statusCode ?? 502;
+        const headers = new Headers();
+        Object.entries(message.headers).forEach(([name, value]) => {
+          if (value !== undefined) {
+            headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+          }
+        });
+        // Redirect and empty responses carry no body worth reading.
+        const hasBody = status >= 200 && status < 300 && status !== 204;
+        if (!hasBody) {
+          message.resume();
+        }
+        resolve(
+          new Response(hasBody ? (Readable.toWeb(message) as ReadableStream<Uint8Array>) : null, { status, headers }),
+        );
+      },
+    );
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+async function readCapped(response: Response): Promise<Uint8Array> {
+  const declared = Number(response.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > MAX_REMOTE_IMAGE_BYTES) {
+    throw new RemoteImageError("Image is larger than 7 MB.", 413);
+  }
+  if (!response.body) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    total += value.byteLength;
+    if (total > MAX_REMOTE_IMAGE_BYTES) {
+      await reader.cancel();
+      throw new RemoteImageError("Image is larger than 7 MB.", 413);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Downloads an http(s) image and returns it as a data URL after checking the
+ * address, size, and format. Server-only: browsers go through /api/reference-image.
+ */
+export async function fetchRemoteImageAsDataUrl(rawUrl: string, signal?: AbortSignal): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new RemoteImageError("Invalid image URL.", 400);
+  }
+
+  return withRequestSignal(REMOTE_IMAGE_TIMEOUT_MS, signal, async (requestSignal) => {
+    let response: Response | null = null;
+    // Redirects are followed by hand so every hop passes the address check.
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const target = await resolvePublicAddress(url);
+      response = await requestPinned(url, target, requestSignal);
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        url = new URL(location, url);
+        response = null;
+        continue;
+      }
+      break;
+    }
+
+    if (!response) {
+      throw new RemoteImageError("Too many redirects.", 502);
+    }
+    if (!response.ok) {
+      throw new RemoteImageError(`The image host answered ${response.status}.`, 502);
+    }
+
+    const bytes = await readCapped(response);
+    const mimeType = sniffImageType(bytes);
+    if (!mimeType) {
+      const declaredType = response.headers.get("content-type")?.split(";")[0] || "unknown";
+      throw new RemoteImageError(`Unsupported image type (${declaredType}). Use PNG, JPEG, WebP, or HEIC.`, 415);
+    }
+
+    return `data:${mimeType};base64,${Buffer.from(bytes).toString("base64")}`;
+  }).catch((error: unknown) => {
+    if (error instanceof RemoteImageError || signal?.aborted) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new RemoteImageError("Timed out downloading the image.", 504);
+    }
+    throw new RemoteImageError(error instanceof Error ? error.message : "Failed to download the image.", 502);
+  });
+}
@@ -1,5 +1,8 @@
-export type Provider = "fal" | "gemini";
-export type OutputFormat = "png" | "jpeg" | "webp";
+import { getProviderAdapter, listProviderAdapters } from "./providers/registry";
+import type { ProviderId } from "./providers/types";
+
+export type Provider = ProviderId;
+export type OutputFormat = "png" | "jpeg" | "webp" | "avif";
 
 export type ModelId =
   | "gemini-3-pro-image-preview"
@@ -11,9 +14,14 @@ export type ModelDefinition = {
   maxImages: number;
   supportsEditing: boolean;
   supportsGoogleSearch: boolean;
-  supportsFal: boolean;
+  /** Returns several candidates from one call when asked, instead of one image per call. */
+  supportsCandidateCount: boolean;
+  /** Aspect ratios the API accepts, as "W:H"; custom sizes are sent as the nearest one. */
+  aspectRatios: string[];
 };
 
+const STANDARD_ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
+
 export const MODEL_DEFINITIONS: ModelDefinition[] = [
   {
     id: "gemini-3-pro-image-preview",
@@ -21,7 +29,8 @@ export const MODEL_DEFINITIONS: ModelDefinition[] = [
     maxImages: 4,
     supportsEditing: true,
     supportsGoogleSearch: true,
-    supportsFal: true,
+    supportsCandidateCount: true,
+    aspectRatios: STANDARD_ASPECT_RATIOS,
   },
   {
     id: "gemini-3.1-flash-image-preview",
@@ -29,7 +38,8 @@ export const MODEL_DEFINITIONS: ModelDefinition[] = [
     maxImages: 4,
     supportsEditing: true,
     supportsGoogleSearch: true,
-    supportsFal: false,
+    supportsCandidateCount: true,
+    aspectRatios: [...STANDARD_ASPECT_RATIOS, "1:4", "4:1", "1:8", "8:1"],
   },
 ];
 
@@ -41,10 +51,27 @@ export function getModelLabel(id: ModelId): string {
   return getModelDefinition(id)?.label ?? id;
 }
 
-export const PROVIDER_OPTIONS: { value: Provider; label: string }[] = [
-  { value: "fal", label: "FAL.ai" },
-  { value: "gemini", label: "Gemini API" },
-];
+export function modelSupportsProvider(model: ModelId, provider: Provider): boolean {
+  const adapter = getProviderAdapter(provider);
+  if (!adapter) {
+    return false;
+  }
+  const { models } = adapter.capabilities;
+  return !models || models.includes(model);
+}
+
+export function getModelProviders(model: ModelId): Provider[] {
+  return listProviderAdapters()
+    .filter((adapter) => modelSupportsProvider(model, adapter.id))
+    .map((adapter) => adapter.id);
+}
+
+// Read from the provider registry so adapters registered at runtime show up in the picker.
+export function getProviderOptions(model?: ModelId): { value: Provider; label: string }[] {
+  return listProviderAdapters()
+    .filter((adapter) => !model || modelSupportsProvider(model, adapter.id))
+    .map((adapter) => ({ value: adapter.id, label: adapter.label }));
+}
 
 export type AspectKey =
   | "square-1-1"
@@ -60,6 +87,18 @@ export type AspectKey =
 
 export type QualityKey = "1k" | "2k" | "4k";
 
+/** The preset ratios plus "custom", which takes its exact size from a size override. */
+export type AspectChoice = AspectKey | "custom";
+
+export type ImageSize = { width: number; height: number };
+
+/** A saved custom size, offered next to the width and height inputs. */
+export type CustomSizePreset = ImageSize & { id: string };
+
+export const MIN_CUSTOM_DIMENSION = 512;
+export const MAX_CUSTOM_DIMENSION = 4096;
+export const DEFAULT_CUSTOM_SIZE: ImageSize = { width: 1920, height: 1080 };
+
 type AspectDefinition = {
   value: AspectKey;
   label: string;
@@ -189,6 +228,7 @@ export const OUTPUT_FORMAT_OPTIONS: OutputFormatDefinition[] = [
   { value: "png", label: "PNG" },
   { value: "jpeg", label: "JPEG" },
   { value: "webp", label: "WEBP" },
+  { value: "avif", label: "AVIF" },
 ];
 
 export function getAspectDefinition(value: AspectKey): AspectDefinition | undefined {
@@ -214,19 +254,33 @@ export function getOutputFormatLabel(value: OutputFormat): string {
   return OUTPUT_FORMAT_OPTIONS.find((option) => option.value === value)?.label ?? value.toUpperCase();
 }
 
-export function calculateImageSize(aspect: AspectKey, quality: QualityKey): { width: number; height: number } {
-  const aspectDefinition = getAspectDefinition(aspect);
+/**
+ * Output size for an aspect at a quality: the long side matches the quality.
+ * Custom aspects keep the ratio of `customSize`, so a custom image can be
+ * re-rendered at another quality.
+ */
+export function calculateImageSize(aspect: AspectChoice, quality: QualityKey, customSize?: ImageSize): ImageSize {
   const qualityDefinition = getQualityDefinition(quality);
 
-  if (!aspectDefinition) {
-    throw new Error(`Unknown aspect option: ${aspect}`);
-  }
-
   if (!qualityDefinition) {
     throw new Error(`Unknown quality option: ${quality}`);
   }
 
-  const { widthRatio, heightRatio } = aspectDefinition;
+  let widthRatio: number;
+  let heightRatio: number;
+  if (aspect === "custom") {
+    if (!customSize || customSize.width <= 0 || customSize.height <= 0) {
+      throw new Error("Custom aspect requires a size.");
+    }
+    ({ width: widthRatio, height: heightRatio } = customSize);
+  } else {
+    const aspectDefinition = getAspectDefinition(aspect);
+    if (!aspectDefinition) {
+      throw new Error(`Unknown aspect option: ${aspect}`);
+    }
+    ({ widthRatio, heightRatio } = aspectDefinition);
+  }
+
   const { maxDimension } = qualityDefinition;
 
   if (widthRatio === heightRatio) {
@@ -242,6 +296,44 @@ export function calculateImageSize(aspect: AspectKey, quality: QualityKey): { wi
   return { width, height: maxDimension };
 }
 
+/** The smallest quality whose long side covers the size; the API renders at that resolution. */
+export function getQualityForSize(size: ImageSize): QualityKey {
+  const longSide = Math.max(size.width, size.height);
+  return (QUALITY_OPTIONS.find((option) => option.maxDimension >= longSide) ?? QUALITY_OPTIONS[QUALITY_OPTIONS.length - 1]).value;
+}
+
+function parseRatio(ratio: string): number {
+  const [width, height] = ratio.split(":").map(Number);
+  return width / height;
+}
+
+/** The model's supported ratio closest to the size, compared on a log scale so 1:2 and 2:1 are equally far from 1:1. */
+export function snapAspectRatio(size: ImageSize, model: ModelId): string {
+  const ratios = getModelDefinition(model)?.aspectRatios ?? STANDARD_ASPECT_RATIOS;
+  const target = Math.log(size.width / size.height);
+  return ratios.reduce((best, ratio) =>
+    Math.abs(Math.log(parseRatio(ratio)) - target) < Math.abs(Math.log(parseRatio(best)) - target) ? ratio : best,
+  );
+}
+
+/** Keeps the long side and fits the short side to the nearest supported ratio, so the size is what the model returns. */
+export function snapSizeToModel(size: ImageSize, model: ModelId): ImageSize {
+  const ratio = parseRatio(snapAspectRatio(size, model));
+  return size.width >= size.height
+    ? { width: size.width, height: clampCustomDimension(size.width / ratio) }
+    : { width: clampCustomDimension(size.height * ratio), height: size.height };
+}
+
+export function clampCustomDimension(value: number): number {
+  return Math.min(MAX_CUSTOM_DIMENSION, Math.max(MIN_CUSTOM_DIMENSION, Math.round(value)));
+}
+
+export function isValidCustomSize(size: ImageSize): boolean {
+  return [size.width, size.height].every(
+    (value) => Number.isInteger(value) && value >= MIN_CUSTOM_DIMENSION && value <= MAX_CUSTOM_DIMENSION,
+  );
+}
+
 export function formatResolution(size: { width: number; height: number }): string {
   return `${size.width}×${size.height}`;
 }
@@ -21,6 +21,12 @@ function toApiFormat(generation: Generation): CreateGenerationInput {
     size_height: generation.size.height,
     images: generation.images,
     input_images: generation.inputImages,
+    image_notes: generation.imageNotes,
+    image_slots: generation.slots,
+    session: generation.session,
+    origin: generation.origin,
+    matrix: generation.matrix,
+    params: generation.params,
     created_at: generation.createdAt,
   };
 }
@@ -43,6 +49,16 @@ function fromApiFormat(row: VpsGeneration): Generation {
     },
     images: row.images,
     inputImages: (row.input_images as unknown as Generation["inputImages"]) || [],
+    ...(Array.isArray(row.image_notes)
+      ? { imageNotes: row.image_notes as Generation["imageNotes"] }
+      : {}),
+    ...(Array.isArray(row.image_slots) ? { slots: row.image_slots as Generation["slots"] } : {}),
+    ...(row.session && typeof row.session === "object"
+      ? { session: row.session as Generation["session"] }
+      : {}),
+    ...(row.origin && typeof row.origin === "object" ? { origin: row.origin as Generation["origin"] } : {}),
+    ...(row.matrix && typeof row.matrix === "object" ? { matrix: row.matrix as Generation["matrix"] } : {}),
+    ...(row.params && typeof row.params === "object" ? { params: row.params as Generation["params"] } : {}),
   };
 }
 
@@ -0,0 +1,116 @@
+import { buildGeminiEndpoint, getGeminiAuthHeaders, parseGeminiKeyTarget } from "./gemini-key-target";
+import { getImagePriceCents, getInputPriceCents } from "./pricing";
+import { buildGeminiContents } from "./providers/gemini";
+import { fetchWithTimeout } from "./providers/shared";
+import type { ConversationTurn, ProviderInputImage } from "./providers/types";
+import type { ModelId, Provider, QualityKey } from "./seedream-options";
+
+// countTokens answers in well under a second; a slow one isn't worth waiting on.
+const COUNT_TOKENS_TIMEOUT_MS = 15_000;
+
+// Tokens Gemini bills for each output image, by resolution.
+const OUTPUT_IMAGE_TOKENS: Record<ModelId, Record<QualityKey, number>> = {
+  "gemini-3-pro-image-preview": { "1k": 1120, "2k": 1120, "4k": 2000 },
+  "gemini-3.1-flash-image-preview": { "1k": 1120, "2k": 1680, "4k": 2520 },
+};
+
+// Fallbacks for when no Gemini key is available to count with.
+const APPROXIMATE_CHARS_PER_TOKEN = 4;
+export const APPROXIMATE_IMAGE_TOKENS = 1120;
+
+export type TokenEstimate = {
+  /** Prompt, reference and history tokens sent with each provider call. */
+  inputTokens: number;
+  outputTokensPerImage: number;
+  /** Null when the provider's pricing is unknown. */
+  costCents: number | null;
+  /** Counted locally instead of by countTokens. */
+  approximate: boolean;
+};
+
+export function imageOutputTokens(model: ModelId, quality: QualityKey): number {
+  return (OUTPUT_IMAGE_TOKENS[model] ?? OUTPUT_IMAGE_TOKENS["gemini-3-pro-image-preview"])[quality];
+}
+
+export function approximateTextTokens(text: string): number {
+  return Math.ceil(text.trim().length / APPROXIMATE_CHARS_PER_TOKEN);
+}
+
+/** Local count of a run's prompt, references and session history, used when countTokens isn't asked. */
+export function approximateInputTokens(prompt: string, imageCount: number, history: ConversationTurn[] = []): number {
+  const text = [...history.map((turn) => turn.text ?? ""), prompt]
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join("\n\n");
+  const historyImages = history.reduce((total, turn) => total + turn.images.length, 0);
+  return approximateTextTokens(text) + (imageCount + historyImages) * APPROXIMATE_IMAGE_TOKENS;
+}
+
+/**
+ * Prices a run from its input token count. Gemini bills the input once per
+ * provider call, so a run split into several calls pays for it several times.
+ * Null when the provider's pricing is unknown.
+ */
+export function estimateRunCost({
+  provider,
+  model,
+  quality,
+  imageCount,
+  requests,
+  inputTokens,
+}: {
+  provider: Provider;
+  model: ModelId;
+  quality: QualityKey;
+  imageCount: number;
+  requests: number;
+  inputTokens: number;
+}): number | null {
+  const imageCents = getImagePriceCents(provider, model, quality);
+  if (imageCents === null) {
+    return null;
+  }
+  return getInputPriceCents(provider, model, inputTokens) * requests + imageCents * imageCount;
+}
+
+/**
+ * Asks the countTokens endpoint how many tokens a prompt, its references and
+ * any session history come to. References must already be inline data URLs.
+ */
+export async function countGeminiTokens({
+  apiKey,
+  model,
+  prompt,
+  inputImages,
+  history,
+  signal,
+}: {
+  apiKey: string;
+  model: ModelId;
+  prompt: string;
+  inputImages: ProviderInputImage[];
+  history?: ConversationTurn[];
+  signal?: AbortSignal;
+}): Promise<number> {
+  const target = parseGeminiKeyTarget(apiKey);
+  const response = await fetchWithTimeout(
+    buildGeminiEndpoint(target, model, "countTokens"),
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getGeminiAuthHeaders(target, undefined, signal)),
+      },
+      body: JSON.stringify({ contents: buildGeminiContents(prompt, inputImages, history) }),
+      cache: "no-store",
+    },
+    COUNT_TOKENS_TIMEOUT_MS,
+    signal,
+  );
+
+  const body = (await response.json().catch(() => ({}))) as { totalTokens?: number; error?: { message?: string } };
+  if (!response.ok || typeof body.totalTokens !== "number") {
+    throw new Error(`Gemini countTokens Error: ${body.error?.message ?? response.status}`);
+  }
+  return body.totalTokens;
+}
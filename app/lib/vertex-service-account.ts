@@ -0,0 +1,136 @@
+import { createSign } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import type { VertexAccessToken } from "./gemini-key-target";
+import { withRequestSignal } from "./providers/shared";
+
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+const CLOUD_PLATFORM_SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+// Google caps service-account assertions at one hour.
+const TOKEN_LIFETIME_S = 3600;
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const TOKEN_REQUEST_TIMEOUT_MS = 15_000;
+
+type ServiceAccountKey = {
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+};
+
+/** Carries the HTTP status the token route should answer with. */
+export class VertexCredentialsError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "VertexCredentialsError";
+  }
+}
+
+let cachedToken: VertexAccessToken | null = null;
+let pendingToken: Promise<VertexAccessToken> | null = null;
+
+// The JSON key comes inline from VERTEX_SERVICE_ACCOUNT_JSON, or from the file GOOGLE_APPLICATION_CREDENTIALS names.
+async function loadServiceAccountKey(): Promise<ServiceAccountKey> {
+  const inline = process.env.VERTEX_SERVICE_ACCOUNT_JSON?.trim();
+  const path = process.env.GOOGLE_APPLICATION_CREDENTIALS?.trim();
+  if (!inline && !path) {
+    throw new VertexCredentialsError(
+      "No Vertex service account is configured on the server. Set VERTEX_SERVICE_ACCOUNT_JSON or GOOGLE_APPLICATION_CREDENTIALS.",
+      501,
+    );
+  }
+
+  let key: Partial<ServiceAccountKey>;
+  try {
+    key = JSON.parse(inline || (await readFile(path!, "utf8"))) as Partial<ServiceAccountKey>;
+  } catch {
+    throw new VertexCredentialsError("The Vertex service-account key could not be read.", 500);
+  }
+  if (typeof key.client_email !== "string" || typeof key.private_key !== "string") {
+    throw new VertexCredentialsError("The Vertex service-account key is missing client_email or private_key.", 500);
+  }
+  return { client_email: key.client_email, private_key: key.private_key, token_uri: key.token_uri };
+}
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+// A self-signed JWT assertion, exchanged for an access token at the key's token endpoint.
+function signAssertion(key: ServiceAccountKey, tokenUri: string, issuedAt: number): string {
+  const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const claims = base64Url(
+    JSON.stringify({
+      iss: key.client_email,
+      scope: CLOUD_PLATFORM_SCOPE,
+      aud: tokenUri,
+      iat: issuedAt,
+      exp: issuedAt + TOKEN_LIFETIME_S,
+    }),
+  );
+  const signer = createSign("RSA-SHA256");
+  signer.update(`${header}.${claims}`);
+  return `${header}.${claims}.${base64Url(signer.sign(key.private_key))}`;
+}
+
+async function requestToken(): Promise<VertexAccessToken> {
+  const key = await loadServiceAccountKey();
+  const tokenUri = key.token_uri || DEFAULT_TOKEN_URI;
+  const issuedAt = Math.floor(Date.now() / 1000);
+
+  let assertion: string;
+  try {
+    assertion = signAssertion(key, tokenUri, issuedAt);
+  } catch {
+    throw new VertexCredentialsError("The Vertex service-account private key is invalid.", 500);
+  }
+
+  const response = await withRequestSignal(TOKEN_REQUEST_TIMEOUT_MS, undefined, (requestSignal) =>
+    fetch(tokenUri, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer", assertion }),
+      cache: "no-store",
+      signal: requestSignal,
+    }),
+  );
+  const body = (await response.json().catch(() => ({}))) as {
+    access_token?: string;
+    expires_in?: number;
+    error_description?: string;
+  };
+  if (!response.ok || !body.access_token) {
+    throw new VertexCredentialsError(
+      `Google rejected the service account: ${body.error_description ?? response.status}`,
+      502,
+    );
+  }
+
+  return {
+    accessToken: body.access_token,
+    expiresAt: Date.now() + (body.expires_in ?? TOKEN_LIFETIME_S) * 1000,
+  };
+}
+
+/**
+ * Mints a short-lived access token for the server's Vertex service account.
+ * Tokens are reused until shortly before they expire, and concurrent callers
+ * share one request, so one caller cancelling doesn't fail the others.
+ * Server only: the key never leaves this process.
+ */
+export async function mintVertexAccessToken(): Promise<VertexAccessToken> {
+  if (cachedToken && cachedToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return cachedToken;
+  }
+
+  pendingToken ??= requestToken()
+    .then((token) => {
+      cachedToken = token;
+      return token;
+    })
+    .finally(() => {
+      pendingToken = null;
+    });
+  return pendingToken;
+}
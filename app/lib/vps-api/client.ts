@@ -273,6 +273,18 @@ export interface Generation {
   size_height: number;
   images: string[];
   input_images: unknown;
+  /** Per-image model text and thoughts; null on rows written before it existed. */
+  image_notes?: unknown;
+  /** Per-image status for partially failed runs. */
+  image_slots?: unknown;
+  /** Edit-session link to the previous turn. */
+  session?: unknown;
+  /** Source image of a derived generation such as an outpaint. */
+  origin?: unknown;
+  /** Permutation-prompt matrix this generation is one cell of. */
+  matrix?: unknown;
+  /** Seed, sampling, and safety overrides the run was sent with. */
+  params?: unknown;
 }
 
 export interface CreateGenerationInput {
@@ -286,6 +298,12 @@ export interface CreateGenerationInput {
   size_height: number;
   images: string[];
   input_images?: unknown;
+  image_notes?: unknown;
+  image_slots?: unknown;
+  session?: unknown;
+  origin?: unknown;
+  matrix?: unknown;
+  params?: unknown;
   created_at?: string;
 }
 
@@ -0,0 +1,127 @@
+/** A file found in an archive's central directory. */
+export type ZipFileEntry = {
+  path: string;
+  size: number;
+  /** The stored bytes as a slice of the archive; nothing is read until the blob is. */
+  blob: (type?: string) => Promise<Blob>;
+};
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+async function readView(file: Blob, start: number, length: number): Promise<DataView> {
+  const buffer = await file.slice(start, start + length).arrayBuffer();
+  if (buffer.byteLength < length) {
+    throw new Error("The archive is truncated.");
+  }
+  return new DataView(buffer);
+}
+
+function getUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+}
+
+/** Finds the end records, following the ZIP64 locator when the plain record is saturated. */
+async function readDirectoryLocation(file: Blob): Promise<{ count: number; size: number; offset: number }> {
+  const tailLength = Math.min(file.size, END_RECORD_SIZE + MAX_COMMENT_SIZE);
+  const tailStart = file.size - tailLength;
+  const tail = await readView(file, tailStart, tailLength);
+
+  let position = -1;
+  for (let index = tailLength - END_RECORD_SIZE; index >= 0; index -= 1) {
+    if (tail.getUint32(index, true) === 0x06054b50) {
+      position = index;
+      break;
+    }
+  }
+  if (position < 0) {
+    throw new Error("This file is not a ZIP archive.");
+  }
+
+  const count = tail.getUint16(position + 10, true);
+  const size = tail.getUint32(position + 12, true);
+  const offset = tail.getUint32(position + 16, true);
+  if (count !== MAX_16 && size !== MAX_32 && offset !== MAX_32) {
+    return { count, size, offset };
+  }
+
+  const locator = await readView(file, tailStart + position - 20, 20);
+  if (locator.getUint32(0, true) !== 0x07064b50) {
+    throw new Error("The archive's ZIP64 records are missing.");
+  }
+  const record = await readView(file, getUint64(locator, 8), 56);
+  if (record.getUint32(0, true) !== 0x06064b50) {
+    throw new Error("The archive's ZIP64 records are damaged.");
+  }
+  return { count: getUint64(record, 32), size: getUint64(record, 40), offset: getUint64(record, 48) };
+}
+
+/**
+ * Lists the files in a ZIP archive without loading it: only the central
+ * directory is read, and each entry's data is sliced from the file on
+ * demand. Supports the uncompressed (stored) entries and ZIP64 records that
+ * `createZipWriter` produces; compressed entries are rejected.
+ */
+export async function readZipEntries(file: Blob): Promise<ZipFileEntry[]> {
+  const location = await readDirectoryLocation(file);
+  const directory = await readView(file, location.offset, location.size);
+  const decoder = new TextDecoder();
+  const entries: ZipFileEntry[] = [];
+  let position = 0;
+
+  for (let index = 0; index < location.count; index += 1) {
+    if (directory.getUint32(position, true) !== 0x02014b50) {
+      throw new Error("The archive's file list is damaged.");
+    }
+    const method = directory.getUint16(position + 10, true);
+    let size = directory.getUint32(position + 24, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    let headerOffset = directory.getUint32(position + 42, true);
+    const path = decoder.decode(
+      new Uint8Array(directory.buffer, directory.byteOffset + position + 46, nameLength),
+    );
+
+    // ZIP64 values appear in the extra field in a fixed order, only for the fields that overflowed.
+    let extra = position + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directory.getUint16(extra, true);
+      const length = directory.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        if (directory.getUint32(position + 24, true) === MAX_32) {
+          size = getUint64(directory, field);
+          field += 8;
+        }
+        if (directory.getUint32(position + 20, true) === MAX_32) {
+          field += 8;
+        }
+        if (headerOffset === MAX_32) {
+          headerOffset = getUint64(directory, field);
+        }
+      }
+      extra += 4 + length;
+    }
+
+    if (method !== 0) {
+      throw new Error(`"${path}" is compressed; only archives exported by this app can be read.`);
+    }
+
+    entries.push({
+      path,
+      size,
+      blob: async (type) => {
+        const local = await readView(file, headerOffset, 30);
+        const start = headerOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        return file.slice(start, start + size, type);
+      },
+    });
+    position = extraEnd + commentLength;
+  }
+
+  return entries;
+}
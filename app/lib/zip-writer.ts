@@ -0,0 +1,194 @@
+import { crc32 } from "./image-metadata";
+
+/** One file in an archive. Paths use forward slashes; strings are written as UTF-8. */
+export type ZipEntry = {
+  path: string;
+  data: Blob | string;
+  modifiedAt?: Date;
+};
+
+/** Receives the archive's bytes in order, e.g. a file stream or a list of blob parts. */
+export type ZipSink = (chunk: Blob | Uint8Array<ArrayBuffer>) => Promise<void> | void;
+
+// Sizes and offsets at or above these limits move into ZIP64 records.
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+// Bit 11 marks names as UTF-8, so prompts with accents or emoji survive.
+const UTF8_FLAG = 0x0800;
+const VERSION = 20;
+const VERSION_ZIP64 = 45;
+
+type Stamp = { time: number; date: number };
+
+type DirectoryRecord = {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  stamp: Stamp;
+};
+
+function dosDateTime(date: Date): Stamp {
+  // DOS dates start in 1980; anything older is clamped rather than wrapped.
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// DataView has no safe-integer 64-bit setter without BigInt, so write the two halves.
+function setUint64(view: DataView, offset: number, value: number) {
+  view.setUint32(offset, value % 2 ** 32, true);
+  view.setUint32(offset + 4, Math.floor(value / 2 ** 32), true);
+}
+
+function localHeader(record: Omit<DirectoryRecord, "offset">) {
+  const zip64 = record.size >= MAX_32;
+  const header = new Uint8Array(30 + record.name.length + (zip64 ? 20 : 0));
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION, true);
+  view.setUint16(6, UTF8_FLAG, true);
+  view.setUint16(8, 0, true);
+  view.setUint16(10, record.stamp.time, true);
+  view.setUint16(12, record.stamp.date, true);
+  view.setUint32(14, record.crc, true);
+  view.setUint32(18, zip64 ? MAX_32 : record.size, true);
+  view.setUint32(22, zip64 ? MAX_32 : record.size, true);
+  view.setUint16(26, record.name.length, true);
+  view.setUint16(28, zip64 ? 20 : 0, true);
+  header.set(record.name, 30);
+  if (zip64) {
+    const extra = 30 + record.name.length;
+    view.setUint16(extra, 0x0001, true);
+    view.setUint16(extra + 2, 16, true);
+    setUint64(view, extra + 4, record.size);
+    setUint64(view, extra + 12, record.size);
+  }
+  return header;
+}
+
+function centralHeader(record: DirectoryRecord) {
+  // One ZIP64 extra field carries all three values whenever any of them overflows.
+  const zip64 = record.size >= MAX_32 || record.offset >= MAX_32;
+  const header = new Uint8Array(46 + record.name.length + (zip64 ? 28 : 0));
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION, true);
+  view.setUint16(6, zip64 ? VERSION_ZIP64 : VERSION, true);
+  view.setUint16(8, UTF8_FLAG, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, record.stamp.time, true);
+  view.setUint16(14, record.stamp.date, true);
+  view.setUint32(16, record.crc, true);
+  view.setUint32(20, zip64 ? MAX_32 : record.size, true);
+  view.setUint32(24, zip64 ? MAX_32 : record.size, true);
+  view.setUint16(28, record.name.length, true);
+  view.setUint16(30, zip64 ? 28 : 0, true);
+  // Comment, disk number, internal and external attributes stay zero.
+  view.setUint32(42, zip64 ? MAX_32 : record.offset, true);
+  header.set(record.name, 46);
+  if (zip64) {
+    const extra = 46 + record.name.length;
+    view.setUint16(extra, 0x0001, true);
+    view.setUint16(extra + 2, 24, true);
+    setUint64(view, extra + 4, record.size);
+    setUint64(view, extra + 12, record.size);
+    setUint64(view, extra + 20, record.offset);
+  }
+  return header;
+}
+
+function endRecords(count: number, size: number, offset: number) {
+  const zip64 = count >= MAX_16 || size >= MAX_32 || offset >= MAX_32;
+  const records = new Uint8Array((zip64 ? 76 : 0) + 22);
+  const view = new DataView(records.buffer);
+  let position = 0;
+
+  if (zip64) {
+    // ZIP64 end of central directory record, then the locator that points at it.
+    view.setUint32(0, 0x06064b50, true);
+    setUint64(view, 4, 44);
+    view.setUint16(12, VERSION_ZIP64, true);
+    view.setUint16(14, VERSION_ZIP64, true);
+    setUint64(view, 24, count);
+    setUint64(view, 32, count);
+    setUint64(view, 40, size);
+    setUint64(view, 48, offset);
+    view.setUint32(56, 0x07064b50, true);
+    setUint64(view, 64, offset + size);
+    view.setUint32(72, 1, true);
+    position = 76;
+  }
+
+  view.setUint32(position, 0x06054b50, true);
+  view.setUint16(position + 8, Math.min(count, MAX_16), true);
+  view.setUint16(position + 10, Math.min(count, MAX_16), true);
+  view.setUint32(position + 12, Math.min(size, MAX_32), true);
+  view.setUint32(position + 16, Math.min(offset, MAX_32), true);
+  return records;
+}
+
+/**
+ * Writes a ZIP archive entry by entry into `sink`, storing every file
+ * uncompressed: images are already compressed, so deflating them would cost
+ * time for almost no gain. Only one entry is read into memory at a time
+ * (for its checksum) and blobs are handed to the sink as-is, so archives of
+ * several GB can be written to a file stream. Switches to ZIP64 records past
+ * 4 GB or 65,535 entries.
+ */
+export function createZipWriter(sink: ZipSink) {
+  const encoder = new TextEncoder();
+  const directory: DirectoryRecord[] = [];
+  let offset = 0;
+  let finished = false;
+
+  return {
+    async add(entry: ZipEntry): Promise<void> {
+      if (finished) {
+        throw new Error("The archive has already been finished.");
+      }
+      const name = encoder.encode(entry.path);
+      const bytes =
+        typeof entry.data === "string" ? encoder.encode(entry.data) : new Uint8Array(await entry.data.arrayBuffer());
+      const record = {
+        name,
+        crc: crc32(bytes),
+        size: bytes.length,
+        offset,
+        stamp: dosDateTime(entry.modifiedAt ?? new Date()),
+      };
+      const header = localHeader(record);
+
+      await sink(header);
+      await sink(typeof entry.data === "string" ? bytes : entry.data);
+      directory.push(record);
+      offset += header.length + bytes.length;
+    },
+
+    async finish(): Promise<void> {
+      finished = true;
+      let size = 0;
+      for (const record of directory) {
+        const header = centralHeader(record);
+        await sink(header);
+        size += header.length;
+      }
+      await sink(endRecords(directory.length, size, offset));
+    },
+  };
+}
+
+/** Builds a whole archive in one call, for exports small enough to assemble as a single Blob. */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const parts: BlobPart[] = [];
+  const writer = createZipWriter((chunk) => {
+    parts.push(chunk);
+  });
+  for (const entry of entries) {
+    await writer.add(entry);
+  }
+  await writer.finish();
+  return new Blob(parts, { type: "application/zip" });
+}
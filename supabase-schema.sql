@@ -17,7 +17,13 @@ CREATE TABLE IF NOT EXISTS generations (
   size_width INTEGER NOT NULL,
   size_height INTEGER NOT NULL,
   images TEXT[] NOT NULL DEFAULT '{}',
-  input_images JSONB NOT NULL DEFAULT '[]'
+  input_images JSONB NOT NULL DEFAULT '[]',
+  image_notes JSONB,
+  image_slots JSONB,
+  session JSONB,
+  origin JSONB,
+  matrix JSONB,
+  params JSONB
 );
 
 -- Favorites table: tracks favorited images